@@ -7,6 +7,7 @@ import rateLimit from 'express-rate-limit';
 
 import { env } from './config/env.js';
 import { attachUserFromSession } from './middlewares/session.js';
+import { verifyCsrf } from './middlewares/csrf.js';
 import indexRoutes from './routes/indexRoutes.js';
 import healthRoutes from './routes/healthRoutes.js';
 import sessionRoutes from './routes/sessionRoutes.js';
@@ -18,6 +19,11 @@ import portfolioRoutes from './routes/portfolioRoutes.js';
 import challengeRoutes from './routes/challengeRoutes.js';
 import adminRoutes from './routes/adminRoutes.js';
 import billingRoutes from './routes/billingRoutes.js';
+import webhookRoutes from './routes/webhookRoutes.js';
+import personalAccessTokenRoutes from './routes/personalAccessTokenRoutes.js';
+import accountRoutes from './routes/accountRoutes.js';
+import publishScheduleRoutes from './routes/publishScheduleRoutes.js';
+import payoutRoutes from './routes/payoutRoutes.js';
 
 const app = express();
 
@@ -28,11 +34,19 @@ app.use(
     origin: env.CORS_ORIGIN, // http://localhost:3000 (dev) or https://streakling.com (prod)
     credentials: true,
     methods: ['GET', 'POST', 'PATCH', 'PUT', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization', 'Cache-Control']
+    allowedHeaders: [
+      'Content-Type',
+      'Authorization',
+      'Cache-Control',
+      'X-CSRF-Token'
+    ]
   })
 );
 app.options('*', cors({ origin: env.CORS_ORIGIN, credentials: true }));
 
+/* Webhooks read the raw body for signature checks — keep before express.json */
+app.use('/api', webhookRoutes);
+
 app.use(express.json({ limit: '1mb' }));
 app.use(cookieParser());
 app.use(morgan(env.NODE_ENV === 'development' ? 'dev' : 'combined'));
@@ -50,16 +64,23 @@ app.use(
 /* Attach req.user from signed cookie if present */
 app.use(attachUserFromSession);
 
+/* CSRF: cookie-authenticated mutations must echo the token (webhooks are above) */
+app.use(verifyCsrf);
+
 /* Routes */
 
 app.use('/api', uploadsRoutes);
 app.use('/api', healthRoutes);
 app.use('/api', indexRoutes);
 app.use('/api', sessionRoutes);
+app.use('/api', personalAccessTokenRoutes);
+app.use('/api', accountRoutes);
 app.use('/api', profileRoutes);
 app.use('/api', digitalCardRoutes);
 app.use('/api', portfolioRoutes);
 app.use('/api', challengeRoutes);
+app.use('/api', publishScheduleRoutes);
+app.use('/api', payoutRoutes);
 app.use('/api/admin', adminRoutes);
 
 app.use('/api', billingRoutes);
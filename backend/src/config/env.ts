@@ -35,16 +35,28 @@ const sameSite = makeValidator((v?: string) => {
   return x as 'lax' | 'strict' | 'none';
 });
 
+// comma-separated list → lowercase string[]
+const csvList = makeValidator((v?: string) =>
+  (v ?? '')
+    .split(',')
+    .map(x => x.trim().toLowerCase())
+    .filter(Boolean)
+);
+
 const e = cleanEnv(process.env, {
   NODE_ENV: str({ default: 'development' }),
   PORT: num({ default: 4000 }),
+  JOBS_ENABLED: bool({ default: true }),
 
   CORS_ORIGIN: url(),
+  PUBLIC_APP_URL: str({ default: '' }), // defaults to CORS_ORIGIN
+  PUBLIC_API_URL: str({ default: '' }), // defaults to PUBLIC_APP_URL + /api
 
   DATABASE_URL: str(),
 
   CLERK_PUBLISHABLE_KEY: str(),
   CLERK_SECRET_KEY: str(),
+  CLERK_WEBHOOK_SECRET: str({ default: '' }),
 
   SESSION_COOKIE_NAME: str(),
   SESSION_SECRET: str(),
@@ -52,6 +64,10 @@ const e = cleanEnv(process.env, {
   COOKIE_SECURE: bool({ default: false }),
   COOKIE_SAMESITE: sameSite({ default: 'lax' }),
 
+  RESERVED_SLUGS: csvList({ default: [] }),
+
+  CHALLENGE_ARCHIVE_AFTER_DAYS: num({ default: 30 }),
+
   STRIPE_SECRET_KEY: str(),
   STRIPE_PUBLISHABLE_KEY: str(),
   STRIPE_PRICE_BASIC: str(),
@@ -60,6 +76,8 @@ const e = cleanEnv(process.env, {
   STRIPE_PORTAL_RETURN_URL: url({
     default: 'http://localhost:3000/settings/billing'
   }),
+  STRIPE_WEBHOOK_SECRET: str({ default: '' }),
+  PAYOUT_PROVIDER: str({ choices: ['stripe', 'fake'], default: 'stripe' }),
 
   AWS_REGION: str(),
   AWS_S3_BUCKET: str(),
@@ -69,17 +87,27 @@ const e = cleanEnv(process.env, {
 });
 
 const AWS_S3_BASE_PREFIX = e.AWS_S3_BASE_PREFIX.replace(/\/+$/, '');
+const PUBLIC_APP_URL = (e.PUBLIC_APP_URL || e.CORS_ORIGIN).replace(/\/+$/, '');
 
 export const env = {
   NODE_ENV: e.NODE_ENV,
   PORT: e.PORT,
+  JOBS_ENABLED: e.JOBS_ENABLED, // run background jobs in this process
 
   CORS_ORIGIN: e.CORS_ORIGIN,
+  // where public pages live (QR codes, share links)
+  PUBLIC_APP_URL,
+  // public base of this API (links handed out to visitors, e.g. /go redirects)
+  PUBLIC_API_URL: (e.PUBLIC_API_URL || `${PUBLIC_APP_URL}/api`).replace(
+    /\/+$/,
+    ''
+  ),
 
   DATABASE_URL: e.DATABASE_URL,
 
   CLERK_PUBLISHABLE_KEY: e.CLERK_PUBLISHABLE_KEY,
   CLERK_SECRET_KEY: e.CLERK_SECRET_KEY,
+  CLERK_WEBHOOK_SECRET: e.CLERK_WEBHOOK_SECRET || undefined, // whsec_... (Svix)
 
   SESSION_COOKIE_NAME: e.SESSION_COOKIE_NAME,
   SESSION_SECRET: e.SESSION_SECRET,
@@ -87,12 +115,20 @@ export const env = {
   COOKIE_SECURE: e.COOKIE_SECURE,
   COOKIE_SAMESITE: e.COOKIE_SAMESITE, // 'lax' | 'strict' | 'none'
 
+  RESERVED_SLUGS: e.RESERVED_SLUGS, // extra reserved usernames/slugs
+
+  // judging window: closed challenges are archived this long after closing
+  CHALLENGE_ARCHIVE_AFTER_DAYS: e.CHALLENGE_ARCHIVE_AFTER_DAYS,
+
   STRIPE_SECRET_KEY: e.STRIPE_SECRET_KEY,
   STRIPE_PUBLISHABLE_KEY: e.STRIPE_PUBLISHABLE_KEY,
   STRIPE_PRICE_BASIC: e.STRIPE_PRICE_BASIC,
   STRIPE_PRICE_PRO: e.STRIPE_PRICE_PRO,
   STRIPE_PRICE_ULTIMATE: e.STRIPE_PRICE_ULTIMATE,
   STRIPE_PORTAL_RETURN_URL: e.STRIPE_PORTAL_RETURN_URL,
+  STRIPE_WEBHOOK_SECRET: e.STRIPE_WEBHOOK_SECRET || undefined, // whsec_...
+  // prize payouts: Stripe Connect, or the in-memory fake for local dev/tests
+  PAYOUT_PROVIDER: e.PAYOUT_PROVIDER,
 
   AWS_REGION: e.AWS_REGION,
   AWS_S3_BUCKET: e.AWS_S3_BUCKET,
@@ -0,0 +1,39 @@
+// src/config/permissions.ts
+import type { UserRole } from '@prisma/client';
+
+/**
+ * Every permission the API checks. Routes declare what they need via
+ * requirePermission(); roles only ever map to this list.
+ */
+export const PERMISSIONS = [
+  'admin.access', // enter the admin area at all
+  'stats.read',
+  'users.read',
+  'users.ban',
+  'users.roles.manage',
+  'users.impersonate',
+  'content.read', // admin lists of cards/portfolios/challenges
+  'content.takedown',
+  'reports.review'
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  ADMIN: PERMISSIONS,
+  MODERATOR: [
+    'admin.access',
+    'stats.read',
+    'users.read',
+    'content.read',
+    'content.takedown',
+    'reports.review'
+  ],
+  // read-only admin views
+  SUPPORT: ['admin.access', 'stats.read', 'users.read', 'content.read'],
+  USER: []
+};
+
+export function permissionsFor(role?: UserRole | null): readonly Permission[] {
+  return ROLE_PERMISSIONS[role ?? 'USER'] ?? [];
+}
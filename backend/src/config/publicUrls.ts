@@ -0,0 +1,12 @@
+// src/config/publicUrls.ts
+// Public page URLs on the frontend (what QR codes and share links point at).
+// Keep the paths in sync with the frontend routes.
+import { env } from './env.js';
+
+const enc = encodeURIComponent;
+
+export const publicUrls = {
+  card: (slug: string) => `${env.PUBLIC_APP_URL}/card/${enc(slug)}`,
+  portfolio: (slug: string) => `${env.PUBLIC_APP_URL}/portfolio/${enc(slug)}`,
+  challenge: (slug: string) => `${env.PUBLIC_APP_URL}/challenges/${enc(slug)}`
+};
@@ -0,0 +1,21 @@
+// src/config/scopes.ts
+
+/**
+ * Scopes a personal access token can carry. Cookie sessions implicitly hold
+ * all of them; bearer-token requests must carry the scope a route declares.
+ */
+export const TOKEN_SCOPES = [
+  'profile:read',
+  'profile:write',
+  'cards:read',
+  'cards:write',
+  'portfolios:read',
+  'portfolios:write',
+  'challenges:read',
+  'challenges:write',
+  'submissions:read',
+  'submissions:write',
+  'uploads:write'
+] as const;
+
+export type TokenScope = (typeof TOKEN_SCOPES)[number];
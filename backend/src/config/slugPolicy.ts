@@ -0,0 +1,130 @@
+// src/config/slugPolicy.ts
+import { env } from './env.js';
+
+/**
+ * Handles nobody may claim as a username or card/portfolio/challenge slug:
+ * route names, staff-looking names and the brand. Extend per deployment with
+ * RESERVED_SLUGS="foo,bar".
+ */
+const BASE_RESERVED = [
+  // routes / app sections
+  'about',
+  'account',
+  'accounts',
+  'admin',
+  'administrator',
+  'api',
+  'app',
+  'assets',
+  'auth',
+  'billing',
+  'blog',
+  'cards',
+  'challenge',
+  'challenges',
+  'checkout',
+  'contact',
+  'dashboard',
+  'docs',
+  'download',
+  'edit',
+  'explore',
+  'export',
+  'faq',
+  'feed',
+  'help',
+  'home',
+  'index',
+  'invoices',
+  'jobs',
+  'legal',
+  'login',
+  'logout',
+  'me',
+  'new',
+  'null',
+  'portfolio',
+  'portfolios',
+  'pricing',
+  'privacy',
+  'profile',
+  'profiles',
+  'qr',
+  'register',
+  'search',
+  'session',
+  'sessions',
+  'settings',
+  'signin',
+  'signout',
+  'signup',
+  'static',
+  'status',
+  'terms',
+  'tokens',
+  'undefined',
+  'upload',
+  'uploads',
+  'vcard',
+  'webhook',
+  'webhooks',
+  'www',
+  // people pretending to be us
+  'moderator',
+  'official',
+  'root',
+  'security',
+  'staff',
+  'streakling',
+  'support',
+  'system',
+  'team'
+];
+
+export const RESERVED_SLUGS: ReadonlySet<string> = new Set([
+  ...BASE_RESERVED,
+  ...env.RESERVED_SLUGS
+]);
+
+/** Matched anywhere in the (de-obfuscated) handle — only words that don't hide inside innocent ones */
+export const PROFANITY_SUBSTRINGS: readonly string[] = [
+  'asshole',
+  'bitch',
+  'cocksucker',
+  'fuck',
+  'motherfucker',
+  'nigga',
+  'nigger',
+  'porn',
+  'shit',
+  'whore'
+];
+
+/** Only matched as a whole segment ("ass" blocks "big-ass", not "class") */
+export const PROFANITY_WORDS: readonly string[] = [
+  'anal',
+  'ass',
+  'bollocks',
+  'cock',
+  'cum',
+  'cunt',
+  'dick',
+  'dickhead',
+  'fag',
+  'faggot',
+  'hoe',
+  'jizz',
+  'nazi',
+  'piss',
+  'pussy',
+  'rape',
+  'rapist',
+  'retard',
+  'sex',
+  'slut',
+  'tit',
+  'tits',
+  'twat',
+  'wank',
+  'wanker'
+];
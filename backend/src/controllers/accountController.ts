@@ -0,0 +1,82 @@
+// src/controllers/accountController.ts
+import type { Request, Response } from 'express';
+import {
+  sendAccepted,
+  sendError,
+  sendNotFound,
+  sendSuccess,
+  sendUnauthorized
+} from '../utils/responseHandler';
+import {
+  ACCOUNT_DELETION_GRACE_DAYS,
+  cancelAccountDeletion,
+  getAccountDeletionStatus,
+  requestAccountDeletion,
+  type AccountDeletionStatus
+} from '../services/accountDeletionService';
+
+function errMsg(e: unknown): string {
+  if (e instanceof Error) return e.message;
+  if (typeof e === 'string') return e;
+  try {
+    return JSON.stringify(e);
+  } catch {
+    return 'Unexpected error';
+  }
+}
+
+function serializeDeletion(s: AccountDeletionStatus) {
+  return {
+    pending: !!s.scheduledFor,
+    requestedAt: s.requestedAt?.toISOString() ?? null,
+    scheduledFor: s.scheduledFor?.toISOString() ?? null,
+    graceDays: ACCOUNT_DELETION_GRACE_DAYS
+  };
+}
+
+/** DELETE /api/me { confirm: "DELETE" } — schedules deletion after the grace period */
+export async function deleteMyAccount(req: Request, res: Response) {
+  const uid = req.user?.uid;
+  if (!uid) return sendUnauthorized(res);
+  try {
+    const status = await requestAccountDeletion(uid, { ip: req.ip });
+    return sendAccepted(
+      res,
+      serializeDeletion(status),
+      'Account scheduled for deletion'
+    );
+  } catch (e: unknown) {
+    if (errMsg(e) === 'NOT_FOUND') return sendNotFound(res, 'User not found');
+    return sendError(res, errMsg(e));
+  }
+}
+
+/** GET /api/me/deletion */
+export async function getMyAccountDeletion(req: Request, res: Response) {
+  const uid = req.user?.uid;
+  if (!uid) return sendUnauthorized(res);
+  try {
+    const status = await getAccountDeletionStatus(uid);
+    return sendSuccess(res, serializeDeletion(status), 'Deletion status');
+  } catch (e: unknown) {
+    if (errMsg(e) === 'NOT_FOUND') return sendNotFound(res, 'User not found');
+    return sendError(res, errMsg(e));
+  }
+}
+
+/** POST /api/me/deletion/cancel — only possible during the grace period */
+export async function cancelMyAccountDeletion(req: Request, res: Response) {
+  const uid = req.user?.uid;
+  if (!uid) return sendUnauthorized(res);
+  try {
+    const ok = await cancelAccountDeletion(uid, { ip: req.ip });
+    if (!ok) return sendNotFound(res, 'No pending deletion');
+    return sendSuccess(
+      res,
+      serializeDeletion({ requestedAt: null, scheduledFor: null }),
+      'Account deletion cancelled'
+    );
+  } catch (e: unknown) {
+    return sendError(res, errMsg(e));
+  }
+}
@@ -1,6 +1,8 @@
 // src/controllers/adminController.ts
 import type { Request, Response } from 'express';
+import type { Prisma, UserRole } from '@prisma/client';
 import { prisma } from '../config/prisma';
+import { startImpersonation } from '../services/impersonationService';
 
 function takeParam(req: Request, key: string, fallback: number) {
   const v = Number(req.query[key]);
@@ -34,6 +36,7 @@ export async function listUsers(req: Request, res: Response) {
       email: true,
       displayName: true, // <- use displayName instead of name
       role: true,
+      bannedAt: true,
       createdAt: true
     }
   });
@@ -54,6 +57,7 @@ export async function listChallenges(req: Request, res: Response) {
       id: true,
       title: true,
       status: true,
+      takenDownAt: true,
       createdAt: true,
       _count: { select: { submissions: true } }
     }
@@ -78,6 +82,7 @@ export async function listDigitalCards(req: Request, res: Response) {
       lastName: true,
       publishStatus: true,
       userId: true,
+      takenDownAt: true,
       createdAt: true
     }
   });
@@ -100,6 +105,7 @@ export async function listPortfolios(req: Request, res: Response) {
       title: true,
       publishStatus: true,
       userId: true,
+      takenDownAt: true,
       createdAt: true
     }
   });
@@ -108,6 +114,192 @@ export async function listPortfolios(req: Request, res: Response) {
   res.json({ ok: true, data: { items: rows.slice(0, take), nextCursor } });
 }
 
+/* ---------------- Moderation ---------------- */
+
+const ROLES: UserRole[] = ['ADMIN', 'MODERATOR', 'SUPPORT', 'USER'];
+
+/** PATCH /admin/users/:id/role { role } */
+export async function updateUserRole(req: Request, res: Response) {
+  const { id } = req.params;
+  const role = req.body?.role as UserRole | undefined;
+  if (!role || !ROLES.includes(role)) {
+    return res.status(400).json({ ok: false, message: 'Invalid role' });
+  }
+  if (id === req.user?.uid) {
+    return res
+      .status(409)
+      .json({ ok: false, message: 'You cannot change your own role' });
+  }
+
+  const exists = await prisma.user.findUnique({
+    where: { id },
+    select: { id: true }
+  });
+  if (!exists)
+    return res.status(404).json({ ok: false, message: 'User not found' });
+
+  const user = await prisma.user.update({
+    where: { id },
+    data: { role },
+    select: { id: true, role: true }
+  });
+  res.json({ ok: true, data: user });
+}
+
+/** POST /admin/users/:id/ban { reason? } — also revokes every session */
+export async function banUser(req: Request, res: Response) {
+  const { id } = req.params;
+  if (id === req.user?.uid) {
+    return res
+      .status(409)
+      .json({ ok: false, message: 'You cannot ban yourself' });
+  }
+  const reason =
+    typeof req.body?.reason === 'string' ? req.body.reason.slice(0, 500) : null;
+
+  const exists = await prisma.user.findUnique({
+    where: { id },
+    select: { id: true }
+  });
+  if (!exists)
+    return res.status(404).json({ ok: false, message: 'User not found' });
+
+  const now = new Date();
+  const [user] = await prisma.$transaction([
+    prisma.user.update({
+      where: { id },
+      data: { bannedAt: now, banReason: reason },
+      select: { id: true, bannedAt: true, banReason: true }
+    }),
+    prisma.session.updateMany({
+      where: { userId: id, revokedAt: null },
+      data: { revokedAt: now }
+    })
+  ]);
+  res.json({ ok: true, data: user });
+}
+
+/** DELETE /admin/users/:id/ban */
+export async function unbanUser(req: Request, res: Response) {
+  const { id } = req.params;
+  const out = await prisma.user.updateMany({
+    where: { id },
+    data: { bannedAt: null, banReason: null }
+  });
+  if (!out.count)
+    return res.status(404).json({ ok: false, message: 'User not found' });
+  res.json({ ok: true, data: { id, bannedAt: null } });
+}
+
+/**
+ * POST /admin/users/:id/impersonate { reason? }
+ * Replaces the caller's access cookie with a 30-minute session as the user.
+ */
+export async function impersonateUser(req: Request, res: Response) {
+  const { id } = req.params;
+  const admin = req.user!;
+  if (admin.imp) {
+    return res
+      .status(409)
+      .json({ ok: false, message: 'Stop the current impersonation first' });
+  }
+  if (id === admin.uid) {
+    return res
+      .status(409)
+      .json({ ok: false, message: 'You cannot impersonate yourself' });
+  }
+  const reason =
+    typeof req.body?.reason === 'string' ? req.body.reason.slice(0, 500) : null;
+
+  try {
+    const out = await startImpersonation(req, res, admin.uid, id, reason);
+    res.json({
+      ok: true,
+      data: { ...out, expiresAt: out.expiresAt.toISOString() }
+    });
+  } catch (e: any) {
+    if (e?.message === 'NOT_FOUND')
+      return res.status(404).json({ ok: false, message: 'User not found' });
+    if (e?.message === 'TARGET_IS_ADMIN')
+      return res
+        .status(403)
+        .json({ ok: false, message: 'Admins cannot be impersonated' });
+    if (e?.message === 'TARGET_INACTIVE')
+      return res
+        .status(409)
+        .json({ ok: false, message: 'User is banned or deactivated' });
+    throw e;
+  }
+}
+
+type ContentKind = 'card' | 'portfolio' | 'challenge';
+
+async function updateContent(
+  kind: ContentKind,
+  id: string,
+  data: Prisma.DigitalNameCardUpdateManyMutationInput &
+    Prisma.PortfolioUpdateManyMutationInput &
+    Prisma.ChallengeUpdateManyMutationInput
+): Promise<number> {
+  if (kind === 'card') {
+    return (await prisma.digitalNameCard.updateMany({ where: { id }, data }))
+      .count;
+  }
+  if (kind === 'portfolio') {
+    return (await prisma.portfolio.updateMany({ where: { id }, data })).count;
+  }
+  return (await prisma.challenge.updateMany({ where: { id }, data })).count;
+}
+
+// Takedown = force PRIVATE; owners can still see and fix their content, but
+// can't publish it (by hand or by schedule) until a moderator lifts it.
+// Pending schedules are dropped so the job can't republish it.
+function takeDownHandler(kind: ContentKind) {
+  return async (req: Request, res: Response) => {
+    const takenDownAt = new Date();
+    const count = await updateContent(kind, req.params.id, {
+      publishStatus: 'PRIVATE',
+      publishedAt: null,
+      publishAt: null,
+      unpublishAt: null,
+      takenDownAt,
+      takenDownBy: req.user!.uid
+    });
+    if (!count) {
+      return res.status(404).json({ ok: false, message: `${kind} not found` });
+    }
+    res.json({
+      ok: true,
+      data: {
+        id: req.params.id,
+        publishStatus: 'PRIVATE',
+        takenDownAt: takenDownAt.toISOString()
+      }
+    });
+  };
+}
+
+/** Lifting a takedown lets the owner publish again; it stays PRIVATE until they do */
+function liftTakedownHandler(kind: ContentKind) {
+  return async (req: Request, res: Response) => {
+    const count = await updateContent(kind, req.params.id, {
+      takenDownAt: null,
+      takenDownBy: null
+    });
+    if (!count) {
+      return res.status(404).json({ ok: false, message: `${kind} not found` });
+    }
+    res.json({ ok: true, data: { id: req.params.id, takenDownAt: null } });
+  };
+}
+
+export const takeDownCard = takeDownHandler('card');
+export const takeDownPortfolio = takeDownHandler('portfolio');
+export const takeDownChallenge = takeDownHandler('challenge');
+export const liftCardTakedown = liftTakedownHandler('card');
+export const liftPortfolioTakedown = liftTakedownHandler('portfolio');
+export const liftChallengeTakedown = liftTakedownHandler('challenge');
+
 /** If you want an admin "profiles" list, alias it to users (since there is no Profile model) */
 export async function listProfiles(req: Request, res: Response) {
   return listUsers(req, res);
@@ -0,0 +1,70 @@
+// src/controllers/analyticsController.ts
+import type { Request, Response } from 'express';
+import type { AnalyticsEntityType } from '@prisma/client';
+import { prisma } from '../config/prisma';
+import {
+  sendError,
+  sendNotFound,
+  sendSuccess,
+  sendUnauthorized
+} from '../utils/responseHandler';
+import type { AnalyticsQuery } from '../schemas/analytics';
+import { getEntityAnalytics } from '../services/analyticsService';
+
+function errMsg(e: unknown): string {
+  if (e instanceof Error) return e.message;
+  if (typeof e === 'string') return e;
+  try {
+    return JSON.stringify(e);
+  } catch {
+    return 'Unexpected error';
+  }
+}
+
+/** Owner id of the entity, or null when it doesn't exist */
+const OWNERS: Record<
+  AnalyticsEntityType,
+  (id: string) => Promise<string | null>
+> = {
+  CARD: async id =>
+    (
+      await prisma.digitalNameCard.findUnique({
+        where: { id },
+        select: { userId: true }
+      })
+    )?.userId ?? null,
+  PORTFOLIO: async id =>
+    (
+      await prisma.portfolio.findUnique({
+        where: { id },
+        select: { userId: true }
+      })
+    )?.userId ?? null
+};
+
+function analyticsHandler(entityType: AnalyticsEntityType, label: string) {
+  return async (req: Request, res: Response) => {
+    const uid = req.user?.uid;
+    if (!uid) return sendUnauthorized(res);
+
+    try {
+      const { id } = req.params;
+      const ownerId = await OWNERS[entityType](id);
+      if (!ownerId || ownerId !== uid) {
+        return sendNotFound(res, `${label} not found`);
+      }
+
+      const { days } = req.query as unknown as AnalyticsQuery;
+      const report = await getEntityAnalytics(entityType, id, { days });
+      return sendSuccess(res, report, `${label} analytics`);
+    } catch (e: unknown) {
+      return sendError(res, errMsg(e));
+    }
+  };
+}
+
+/** GET /api/digital-name-cards/:id/analytics?days=30 — owner only */
+export const getCardAnalytics = analyticsHandler('CARD', 'Card');
+
+/** GET /api/portfolios/:id/analytics?days=30 — owner only */
+export const getPortfolioAnalytics = analyticsHandler('PORTFOLIO', 'Portfolio');
@@ -4,9 +4,10 @@ import Stripe from 'stripe';
 import {
   stripe,
   getOrCreateStripeCustomerId,
-  resolveMonthlyPriceId
+  resolveMonthlyPriceId,
+  syncSubscriptionFromStripe
 } from '../services/stripeService.js';
-import { prisma } from '../config/prisma.js';
+import { recordAndProcessStripeEvent } from '../services/stripeWebhookService.js';
 import { env } from '../config/env.js';
 
 // Type guard to ensure we truly have a Stripe.Subscription at runtime
@@ -109,80 +110,10 @@ export const billingController = {
       }
       const sub = maybeSub; // Stripe.Subscription
 
-      // Determine the appUserId
-      let appUserId: string | null =
-        (sub.metadata?.appUserId as string | undefined) ??
-        (session.metadata?.appUserId as string | undefined) ??
-        null;
-
-      // Fallback: find by customer id
-      if (!appUserId && typeof sub.customer === 'string') {
-        const owner = await prisma.user.findFirst({
-          where: { stripeCustomerId: sub.customer },
-          select: { id: true }
-        });
-        appUserId = owner?.id ?? null;
-      }
-
-      if (!appUserId) {
-        // As a last fallback, use the current requester
-        appUserId = user.id as string;
-      }
-
-      // Determine plan from lookup_key / metadata / env fallback
-      const item = sub.items.data[0];
-      const price = item?.price;
-      let plan: 'basic' | 'pro' | 'ultimate' | undefined;
-
-      const lookup = (price as any)?.lookup_key as string | undefined;
-      if (lookup === 'basic_monthly') plan = 'basic';
-      else if (lookup === 'pro_monthly') plan = 'pro';
-      else if (lookup === 'ultimate_monthly') plan = 'ultimate';
-      else {
-        const metaPlan = (sub.metadata?.plan || session.metadata?.plan) as any;
-        if (
-          metaPlan === 'basic' ||
-          metaPlan === 'pro' ||
-          metaPlan === 'ultimate'
-        ) {
-          plan = metaPlan;
-        } else {
-          const priceId = price?.id;
-          if (priceId === env.STRIPE_PRICE_BASIC) plan = 'basic';
-          else if (priceId === env.STRIPE_PRICE_PRO) plan = 'pro';
-          else if (priceId === env.STRIPE_PRICE_ULTIMATE) plan = 'ultimate';
-        }
-      }
-
-      // ⚠️ Cast only at the access site to avoid Prisma Subscription collisions
-      const currentPeriodEndSec = (
-        sub as unknown as { current_period_end: number }
-      ).current_period_end;
-      const periodEnd = new Date(currentPeriodEndSec * 1000);
-
-      await prisma.subscription.upsert({
-        where: { stripeSubId: sub.id },
-        create: {
-          stripeSubId: sub.id,
-          userId: appUserId,
-          stripePriceId: price?.id ?? '',
-          status: sub.status,
-          currentPeriodEnd: periodEnd
-        },
-        update: {
-          stripePriceId: price?.id ?? '',
-          status: sub.status,
-          currentPeriodEnd: periodEnd
-        }
-      });
-
-      await prisma.user.update({
-        where: { id: appUserId },
-        data: {
-          plan: plan ?? undefined,
-          subscriptionStatus: sub.status,
-          currentPeriodEnd: periodEnd
-        }
+      // Requester is the last-resort owner when metadata/customer lookups miss
+      await syncSubscriptionFromStripe(sub, {
+        metadata: session.metadata,
+        fallbackUserId: (user.uid ?? user.id) as string
       });
 
       return res.json({ status: 'ok', message: 'Subscription persisted' });
@@ -225,6 +156,48 @@ export const billingController = {
     }
   },
 
+  /**
+   * POST /api/billing/webhook
+   * Mounted with express.raw() so the signature is checked against the exact bytes.
+   */
+  async handleWebhook(req: Request, res: Response) {
+    const secret = env.STRIPE_WEBHOOK_SECRET;
+    if (!secret) {
+      console.error('webhook error: STRIPE_WEBHOOK_SECRET is not configured');
+      return res
+        .status(500)
+        .json({ status: 'error', message: 'Webhook not configured' });
+    }
+
+    const signature = req.headers['stripe-signature'];
+    if (!signature || !Buffer.isBuffer(req.body)) {
+      return res
+        .status(400)
+        .json({ status: 'fail', message: 'Missing signature or body' });
+    }
+
+    let event: Stripe.Event;
+    try {
+      event = stripe.webhooks.constructEvent(req.body, signature, secret);
+    } catch (err: any) {
+      return res.status(400).json({
+        status: 'fail',
+        message: `Invalid signature: ${err?.message ?? 'verification failed'}`
+      });
+    }
+
+    try {
+      const outcome = await recordAndProcessStripeEvent(event);
+      return res.json({ status: 'ok', received: true, outcome });
+    } catch (err: any) {
+      console.error(`webhook error (${event.type} ${event.id}):`, err);
+      // Non-2xx makes Stripe retry; the stored event is re-processed then
+      return res
+        .status(500)
+        .json({ status: 'error', message: err?.message ?? 'Internal error' });
+    }
+  },
+
   /** GET /api/billing/invoices — list last 20 invoices */
   async listInvoices(req: Request, res: Response) {
     try {
@@ -0,0 +1,102 @@
+// src/controllers/cardLeadController.ts
+// Owner side of card lead capture: list, mark read, export.
+import type { Request, Response } from 'express';
+import {
+  sendError,
+  sendNotFound,
+  sendSuccess,
+  sendUnauthorized
+} from '../utils/responseHandler';
+import type { UpdateCardLeadInput } from '../schemas/cardLead';
+import {
+  exportCardLeadsCsv,
+  exportCardLeadsVCard,
+  findOwnedCard,
+  listCardLeads,
+  setCardLeadRead
+} from '../services/cardLeadService';
+
+function errMsg(e: unknown): string {
+  if (e instanceof Error) return e.message;
+  if (typeof e === 'string') return e;
+  try {
+    return JSON.stringify(e);
+  } catch {
+    return 'Unexpected error';
+  }
+}
+
+function isTrue(v: unknown) {
+  return v === '1' || v === 'true';
+}
+
+/** GET /api/digital-name-cards/:id/leads?unread=1&limit=&cursor= */
+export async function listLeads(req: Request, res: Response) {
+  const uid = req.user?.uid;
+  if (!uid) return sendUnauthorized(res);
+
+  try {
+    const card = await findOwnedCard(uid, req.params.id);
+    if (!card) return sendNotFound(res, 'Card not found');
+
+    const limit = Math.min(
+      Math.max(parseInt(String(req.query.limit ?? '50'), 10) || 50, 1),
+      100
+    );
+    const cursor = (req.query.cursor as string | undefined) || undefined;
+    const page = await listCardLeads(card.id, {
+      limit,
+      cursor,
+      unreadOnly: isTrue(req.query.unread)
+    });
+    return sendSuccess(res, page, 'Leads');
+  } catch (e: unknown) {
+    return sendError(res, errMsg(e));
+  }
+}
+
+/** PATCH /api/digital-name-cards/:id/leads/:leadId  { read } */
+export async function updateLead(req: Request, res: Response) {
+  const uid = req.user?.uid;
+  if (!uid) return sendUnauthorized(res);
+
+  try {
+    const card = await findOwnedCard(uid, req.params.id);
+    if (!card) return sendNotFound(res, 'Card not found');
+
+    const { read } = req.body as UpdateCardLeadInput;
+    const lead = await setCardLeadRead(card.id, req.params.leadId, read);
+    if (!lead) return sendNotFound(res, 'Lead not found');
+    return sendSuccess(res, lead, read ? 'Marked as read' : 'Marked as unread');
+  } catch (e: unknown) {
+    return sendError(res, errMsg(e));
+  }
+}
+
+/** GET /api/digital-name-cards/:id/leads/export?format=csv|vcf */
+export async function exportLeads(req: Request, res: Response) {
+  const uid = req.user?.uid;
+  if (!uid) return sendUnauthorized(res);
+
+  try {
+    const card = await findOwnedCard(uid, req.params.id);
+    if (!card) return sendNotFound(res, 'Card not found');
+
+    const vcf = req.query.format === 'vcf';
+    const body = vcf
+      ? await exportCardLeadsVCard(card)
+      : await exportCardLeadsCsv(card.id);
+    res.set({
+      'Content-Type': vcf
+        ? 'text/vcard; charset=utf-8'
+        : 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${card.slug}-leads.${
+        vcf ? 'vcf' : 'csv'
+      }"`,
+      'Cache-Control': 'no-store'
+    });
+    return res.status(200).send(body);
+  } catch (e: unknown) {
+    return sendError(res, errMsg(e));
+  }
+}
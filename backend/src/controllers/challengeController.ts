@@ -1,20 +1,63 @@
 import type { Request, Response } from 'express';
 import { prisma } from '../config/prisma';
+import type { TokenScope } from '../config/scopes';
 import {
   sendSuccess,
   sendUnauthorized,
   sendNotFound,
   sendError,
-  sendConflict
+  sendConflict,
+  sendForbidden
 } from '../utils/responseHandler';
 import {
   createChallengeSchema,
   updateChallengeSchema,
   submitEntrySchema,
+  updateSubmissionStatusSchema,
+  setPrizeAwardsSchema,
   type CreateChallengeInput,
   type UpdateChallengeInput,
-  type SubmitEntryInput
+  type SubmitEntryInput,
+  type UpdateSubmissionStatusInput,
+  type SetPrizeAwardsInput
 } from '../schemas/challenge';
+import { checkFeature, checkLimit } from '../services/entitlementService';
+import { sendEntitlementDenied } from '../middlewares/entitlement';
+import { sendFieldError, sendHandleViolation } from '../middlewares/validate';
+import { resolveSchedule } from '../services/publishScheduleService';
+import {
+  closedAtForStatus,
+  describeLifecycle,
+  isPastDeadline,
+  submissionDenial
+} from '../services/challengeLifecycleService';
+import {
+  getSubmissionHistory,
+  recordSubmitted,
+  transitionSubmission
+} from '../services/submissionStatusService';
+import {
+  announceResults,
+  PRIZE_BRIEF_SELECT,
+  setPrizeAwards,
+  WINNER_SELECT
+} from '../services/challengeAwardService';
+import {
+  checkHandle,
+  deriveSlug,
+  slugify,
+  suffixSlug
+} from '../utils/slugPolicy';
+import {
+  isSocialLinkViolation,
+  normalizeSocialLink
+} from '../utils/socialHandles';
+import {
+  isSlugRetiredByOther,
+  recordSlugChange,
+  retireSlug,
+  resolveRetiredSlug
+} from '../services/slugHistoryService';
 
 // ---------------- Utilities ----------------
 function errMsg(e: unknown): string {
@@ -27,30 +70,40 @@ function errMsg(e: unknown): string {
   }
 }
 
-function slugify(input: string) {
-  return input
-    .toLowerCase()
-    .trim()
-    .replace(/[^a-z0-9]+/g, '-')
-    .replace(/(^-|-$)+/g, '');
-}
-
-async function ensureUniqueChallengeSlug(base: string): Promise<string> {
+// skips slugs in use, slugs other users retired (they still redirect)
+// and anything the slug policy rejects (e.g. the reserved fallback "challenge")
+async function ensureUniqueChallengeSlug(
+  base: string,
+  userId: string
+): Promise<string> {
   let candidate = base || 'challenge';
   let suffix = 0;
   for (;;) {
     const exists = await prisma.challenge.findUnique({
       where: { slug: candidate }
     });
-    if (!exists) return candidate;
+    if (
+      !exists &&
+      !checkHandle(candidate, 'slug') &&
+      !(await isSlugRetiredByOther('CHALLENGE', candidate, userId))
+    ) {
+      return candidate;
+    }
     suffix += 1;
-    candidate = `${base}-${suffix}`;
+    candidate = suffixSlug(base || 'challenge', suffix);
   }
 }
 
 // ---------------- Serializers ----------------
+const PRIZES_INCLUDE = {
+  orderBy: { rank: 'asc' as const },
+  include: { awardedSubmission: { select: WINNER_SELECT } }
+};
+
 function serializeChallenge(c: any, opts: { isOwner: boolean }) {
   if (!c) return null;
+  // the owner sees drafted awards while judging; everyone else once announced
+  const showWinners = opts.isOwner || !!c.resultsAnnouncedAt;
   const postedOn = c.publishedAt
     ? c.publishedAt.toISOString()
     : c.createdAt.toISOString();
@@ -71,14 +124,33 @@ function serializeChallenge(c: any, opts: { isOwner: boolean }) {
 
     publishStatus: c.publishStatus,
     publishedAt: c.publishedAt ? c.publishedAt.toISOString() : null,
+    ...(opts.isOwner
+      ? {
+          publishAt: c.publishAt?.toISOString() ?? null,
+          unpublishAt: c.unpublishAt?.toISOString() ?? null
+        }
+      : {}),
     status: c.status,
+    acceptingSubmissions: !submissionDenial(c),
+    ...(opts.isOwner ? { lifecycle: describeLifecycle(c) } : {}),
 
+    resultsAnnouncedAt: c.resultsAnnouncedAt?.toISOString() ?? null,
     prizes: (c.prizes ?? []).map((p: any) => ({
       id: p.id,
       rank: p.rank,
       label: p.label ?? null,
       amountCents: p.amountCents ?? null,
-      notes: p.notes ?? null
+      notes: p.notes ?? null,
+      winner:
+        showWinners && p.awardedSubmission
+          ? {
+              submissionId: p.awardedSubmission.id,
+              submissionOrder: p.awardedSubmission.submissionOrder,
+              submitterName: p.awardedSubmission.submitterName ?? null,
+              platform: p.awardedSubmission.platform,
+              linkUrl: p.awardedSubmission.linkUrl ?? null
+            }
+          : null
     })),
 
     images: (c.images ?? []).map((img: any) => ({
@@ -95,7 +167,8 @@ function serializeChallenge(c: any, opts: { isOwner: boolean }) {
   };
 }
 
-function serializeSubmission(s: any) {
+// statusReason is for the owner and the submitter only
+function serializeSubmission(s: any, opts: { showReason: boolean }) {
   // single cover image (if present)
   const cover =
     Array.isArray(s.challenge?.images) && s.challenge.images.length
@@ -140,6 +213,16 @@ function serializeSubmission(s: any) {
 
     submissionOrder: s.submissionOrder,
     status: s.status,
+    // only once announced (status WINNER); drafted awards stay with the owner
+    prize:
+      s.status === 'WINNER' && s.awardedPrize
+        ? {
+            rank: s.awardedPrize.rank,
+            label: s.awardedPrize.label ?? null,
+            amountCents: s.awardedPrize.amountCents ?? null
+          }
+        : null,
+    ...(opts.showReason ? { statusReason: s.statusReason ?? null } : {}),
     createdAt: s.createdAt.toISOString(),
     updatedAt: s.updatedAt.toISOString()
   };
@@ -155,10 +238,29 @@ export async function createChallenge(req: Request, res: Response) {
       req.body
     ) as CreateChallengeInput;
 
-    const baseSlug = payload.slug
-      ? slugify(payload.slug)
-      : slugify(payload.title || 'challenge');
-    const slug = await ensureUniqueChallengeSlug(baseSlug);
+    if ((payload.status ?? 'OPEN') === 'OPEN') {
+      const denial = await checkLimit(uid, 'maxOpenChallenges');
+      if (denial) return sendEntitlementDenied(res, denial);
+    }
+
+    // an explicit slug was already checked by the schema
+    const baseSlug =
+      payload.slug ?? deriveSlug(payload.title || 'challenge', 'challenge');
+    const slug = await ensureUniqueChallengeSlug(baseSlug, uid);
+
+    const schedule = resolveSchedule(payload, null);
+    if ('violation' in schedule) {
+      const { field, message } = schedule.violation;
+      return sendFieldError(res, field, message);
+    }
+
+    const deadline = payload.deadline ? new Date(payload.deadline) : null;
+    if (
+      (payload.status ?? 'OPEN') === 'OPEN' &&
+      isPastDeadline({ deadline }, new Date())
+    ) {
+      return sendFieldError(res, 'deadline', 'Pick a deadline in the future');
+    }
 
     const isPublishing = payload.publishStatus === 'PUBLISHED';
     const images = (payload.images ?? []).slice(0, 6);
@@ -175,11 +277,13 @@ export async function createChallenge(req: Request, res: Response) {
         targetPlatforms: payload.targetPlatforms ?? undefined,
         goalViews: payload.goalViews ?? undefined,
         goalLikes: payload.goalLikes ?? undefined,
-        deadline: payload.deadline ? new Date(payload.deadline) : undefined,
+        deadline: deadline ?? undefined,
 
         publishStatus: payload.publishStatus ?? 'DRAFT',
         publishedAt: isPublishing ? new Date() : undefined,
+        ...schedule.data,
         status: payload.status ?? 'OPEN',
+        closedAt: payload.status === 'CLOSED' ? new Date() : undefined,
 
         prizes: payload.prizes?.length
           ? {
@@ -203,7 +307,7 @@ export async function createChallenge(req: Request, res: Response) {
           : undefined
       },
       include: {
-        prizes: { orderBy: { rank: 'asc' } },
+        prizes: PRIZES_INCLUDE,
         images: { orderBy: { sortOrder: 'asc' } }
       }
     });
@@ -227,7 +331,7 @@ export async function listMyChallenges(req: Request, res: Response) {
       where: { userId: uid },
       orderBy: [{ createdAt: 'desc' }],
       include: {
-        prizes: { orderBy: { rank: 'asc' } },
+        prizes: PRIZES_INCLUDE,
         images: { orderBy: { sortOrder: 'asc' } }
       }
     });
@@ -249,7 +353,7 @@ export async function getMyChallengeById(req: Request, res: Response) {
     const c = await prisma.challenge.findFirst({
       where: { id, userId: uid },
       include: {
-        prizes: { orderBy: { rank: 'asc' } },
+        prizes: PRIZES_INCLUDE,
         images: { orderBy: { sortOrder: 'asc' } }
       }
     });
@@ -270,13 +374,77 @@ export async function updateChallenge(req: Request, res: Response) {
 
     const existing = await prisma.challenge.findFirst({
       where: { id, userId: uid },
-      select: { id: true, slug: true, publishedAt: true }
+      select: {
+        id: true,
+        slug: true,
+        publishedAt: true,
+        publishAt: true,
+        unpublishAt: true,
+        takenDownAt: true,
+        status: true,
+        deadline: true,
+        resultsAnnouncedAt: true,
+        prizes: {
+          where: { awardedSubmissionId: { not: null } },
+          select: { id: true }
+        }
+      }
     });
     if (!existing) return sendNotFound(res, 'Challenge not found');
 
+    if (body.prizes && existing.prizes.length) {
+      return sendConflict(
+        res,
+        'Prizes cannot be changed once awarded; clear the awards first.'
+      );
+    }
+    if (body.status === 'OPEN' && existing.resultsAnnouncedAt) {
+      return sendConflict(
+        res,
+        'Results have been announced; the challenge cannot be reopened.'
+      );
+    }
+
+    // an OPEN challenge needs a deadline ahead of it, or the job closes it right away
+    const now = new Date();
+    const nextStatus = body.status ?? existing.status;
+    const nextDeadline = body.deadline
+      ? new Date(body.deadline)
+      : existing.deadline;
+    if (
+      (body.deadline || body.status === 'OPEN') &&
+      nextStatus === 'OPEN' &&
+      isPastDeadline({ deadline: nextDeadline }, now)
+    ) {
+      return sendFieldError(
+        res,
+        'deadline',
+        existing.status === 'OPEN'
+          ? 'Pick a deadline in the future'
+          : 'Move the deadline into the future to reopen the challenge'
+      );
+    }
+
+    // re-opening counts against the open-challenge limit
+    if (body.status === 'OPEN' && existing.status !== 'OPEN') {
+      const denial = await checkLimit(uid, 'maxOpenChallenges');
+      if (denial) return sendEntitlementDenied(res, denial);
+    }
+
     let slugUpdate: string | undefined;
-    if (body.slug && body.slug !== existing.slug) {
-      slugUpdate = await ensureUniqueChallengeSlug(slugify(body.slug));
+    const nextSlug = body.slug ? slugify(body.slug) : undefined;
+    if (nextSlug !== undefined && nextSlug !== existing.slug) {
+      const violation = checkHandle(nextSlug, 'slug');
+      if (violation) return sendHandleViolation(res, 'slug', violation);
+      const denial = await checkFeature(uid, 'customSlug');
+      if (denial) return sendEntitlementDenied(res, denial);
+      slugUpdate = await ensureUniqueChallengeSlug(nextSlug, uid);
+    }
+
+    const schedule = resolveSchedule(body, existing);
+    if ('violation' in schedule) {
+      const { field, message } = schedule.violation;
+      return sendFieldError(res, field, message);
     }
 
     let publishedAtUpdate: Date | null | undefined;
@@ -290,55 +458,70 @@ export async function updateChallenge(req: Request, res: Response) {
 
     const images = body.images ? body.images.slice(0, 6) : undefined;
 
-    const updated = await prisma.challenge.update({
-      where: { id },
-      data: {
-        slug: slugUpdate ?? undefined,
-        title: body.title ?? undefined,
-        description: body.description ?? undefined,
-        brandName: body.brandName ?? undefined,
-        brandLogoKey: body.brandLogoKey ?? undefined,
-        postingUrl: body.postingUrl ?? undefined,
-        targetPlatforms: body.targetPlatforms ?? undefined,
-        goalViews: body.goalViews ?? undefined,
-        goalLikes: body.goalLikes ?? undefined,
-        deadline: body.deadline ? new Date(body.deadline) : undefined,
-
-        publishStatus: body.publishStatus ?? undefined,
-        publishedAt: publishedAtUpdate,
-        status: body.status ?? undefined,
-
-        ...(body.prizes
-          ? {
-              prizes: {
-                deleteMany: { challengeId: id },
-                create: body.prizes.map(p => ({
-                  rank: p.rank,
-                  label: p.label ?? undefined,
-                  amountCents: p.amountCents ?? undefined,
-                  notes: p.notes ?? undefined
-                }))
+    const updated = await prisma.$transaction(async tx => {
+      const row = await tx.challenge.update({
+        where: { id },
+        data: {
+          slug: slugUpdate ?? undefined,
+          title: body.title ?? undefined,
+          description: body.description ?? undefined,
+          brandName: body.brandName ?? undefined,
+          brandLogoKey: body.brandLogoKey ?? undefined,
+          postingUrl: body.postingUrl ?? undefined,
+          targetPlatforms: body.targetPlatforms ?? undefined,
+          goalViews: body.goalViews ?? undefined,
+          goalLikes: body.goalLikes ?? undefined,
+          deadline: body.deadline ? new Date(body.deadline) : undefined,
+
+          publishStatus: body.publishStatus ?? undefined,
+          publishedAt: publishedAtUpdate,
+          ...schedule.data,
+          status: body.status ?? undefined,
+          closedAt: closedAtForStatus(body.status, existing.status, now),
+
+          ...(body.prizes
+            ? {
+                prizes: {
+                  deleteMany: { challengeId: id },
+                  create: body.prizes.map(p => ({
+                    rank: p.rank,
+                    label: p.label ?? undefined,
+                    amountCents: p.amountCents ?? undefined,
+                    notes: p.notes ?? undefined
+                  }))
+                }
               }
-            }
-          : {}),
-
-        ...(images
-          ? {
-              images: {
-                deleteMany: { challengeId: id },
-                create: images.map(i => ({
-                  key: i.key,
-                  url: i.url,
-                  sortOrder: i.sortOrder ?? 0
-                }))
+            : {}),
+
+          ...(images
+            ? {
+                images: {
+                  deleteMany: { challengeId: id },
+                  create: images.map(i => ({
+                    key: i.key,
+                    url: i.url,
+                    sortOrder: i.sortOrder ?? 0
+                  }))
+                }
               }
-            }
-          : {})
-      },
-      include: {
-        prizes: { orderBy: { rank: 'asc' } },
-        images: { orderBy: { sortOrder: 'asc' } }
+            : {})
+        },
+        include: {
+          prizes: PRIZES_INCLUDE,
+          images: { orderBy: { sortOrder: 'asc' } }
+        }
+      });
+
+      if (slugUpdate && slugUpdate !== existing.slug) {
+        await recordSlugChange(tx, {
+          entityType: 'CHALLENGE',
+          entityId: id,
+          ownerId: uid,
+          from: existing.slug,
+          to: slugUpdate
+        });
       }
+      return row;
     });
 
     return sendSuccess(
@@ -359,11 +542,34 @@ export async function deleteChallenge(req: Request, res: Response) {
     const { id } = req.params;
     const existing = await prisma.challenge.findFirst({
       where: { id, userId: uid },
-      select: { id: true }
+      select: { id: true, slug: true }
     });
     if (!existing) return sendNotFound(res, 'Challenge not found');
 
-    await prisma.challenge.delete({ where: { id } });
+    // payouts are a ledger: once one has been paid in or sent, the challenge stays
+    const sent = await prisma.prizePayout.count({
+      where: {
+        challengeId: id,
+        OR: [{ status: { not: 'PENDING' } }, { fundingId: { not: null } }]
+      }
+    });
+    if (sent) {
+      return sendConflict(
+        res,
+        'This challenge has prize payouts funded, in progress or paid and cannot be deleted'
+      );
+    }
+
+    await prisma.$transaction(async tx => {
+      await tx.prizePayout.deleteMany({ where: { challengeId: id } });
+      await tx.challenge.delete({ where: { id } });
+      await retireSlug(tx, {
+        entityType: 'CHALLENGE',
+        entityId: id,
+        ownerId: uid,
+        slug: existing.slug
+      });
+    });
     return sendSuccess(res, { deleted: true });
   } catch (e: unknown) {
     return sendError(res, errMsg(e));
@@ -380,7 +586,10 @@ export async function listPublicChallenges(req: Request, res: Response) {
     const cursor = (req.query.cursor as string | undefined) || undefined;
     const q = (req.query.q as string | undefined)?.trim();
 
-    const where: any = { publishStatus: 'PUBLISHED' };
+    const where: any = {
+      publishStatus: 'PUBLISHED',
+      status: { not: 'ARCHIVED' }
+    };
     if (q) {
       where.OR = [
         { title: { contains: q, mode: 'insensitive' } },
@@ -394,7 +603,7 @@ export async function listPublicChallenges(req: Request, res: Response) {
       take: limit + 1,
       ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
       include: {
-        prizes: { orderBy: { rank: 'asc' } },
+        prizes: PRIZES_INCLUDE,
         images: { orderBy: { sortOrder: 'asc' } }
       }
     });
@@ -415,16 +624,38 @@ export async function listPublicChallenges(req: Request, res: Response) {
 export async function getPublicChallengeBySlug(req: Request, res: Response) {
   try {
     const { slug } = req.params;
-    const c = await prisma.challenge.findFirst({
+    const include = {
+      prizes: PRIZES_INCLUDE,
+      images: { orderBy: { sortOrder: 'asc' as const } }
+    };
+    let c = await prisma.challenge.findFirst({
       where: { slug, publishStatus: 'PUBLISHED' },
-      include: {
-        prizes: { orderBy: { rank: 'asc' } },
-        images: { orderBy: { sortOrder: 'asc' } }
-      }
+      include
     });
+    if (!c) {
+      // retired slug → serve the current challenge with a redirect hint
+      const challengeId = await resolveRetiredSlug('CHALLENGE', slug);
+      c = challengeId
+        ? await prisma.challenge.findFirst({
+            where: { id: challengeId, publishStatus: 'PUBLISHED' },
+            include
+          })
+        : null;
+    }
     if (!c) return sendNotFound(res, 'Challenge not found');
     const isOwner = (req as any).user?.uid === c.userId;
-    return sendSuccess(res, serializeChallenge(c, { isOwner }), 'Challenge');
+    const redirectTo =
+      c.slug !== slug
+        ? {
+            slug: c.slug,
+            path: `/challenges/slug/${encodeURIComponent(c.slug)}`
+          }
+        : null;
+    return sendSuccess(
+      res,
+      { ...serializeChallenge(c, { isOwner }), redirectTo },
+      'Challenge'
+    );
   } catch (e: unknown) {
     return sendError(res, errMsg(e));
   }
@@ -440,9 +671,17 @@ export async function createSubmission(req: Request, res: Response) {
     const input = submitEntrySchema.parse(req.body) as SubmitEntryInput;
 
     const c = await prisma.challenge.findUnique({ where: { id } });
-    if (!c || c.publishStatus !== 'PUBLISHED' || c.status !== 'OPEN') {
+    const denial = c && submissionDenial(c);
+    if (
+      !c ||
+      c.publishStatus !== 'PUBLISHED' ||
+      denial === 'CHALLENGE_NOT_OPEN'
+    ) {
       return sendNotFound(res, 'Challenge is not open');
     }
+    if (denial === 'DEADLINE_PASSED') {
+      return sendForbidden(res, 'The deadline for this challenge has passed');
+    }
 
     const found = await prisma.challengeSubmission.findFirst({
       where: { challengeId: id, submitterId: uid }
@@ -475,12 +714,18 @@ export async function createSubmission(req: Request, res: Response) {
         orderBy: { sortOrder: 'asc' },
         select: { platform: true, handle: true, url: true, label: true }
       });
-      socials = rows.map(r => ({
-        platform: r.platform,
-        handle: r.handle ?? null,
-        url: r.url ?? null,
-        label: r.label ?? null
-      }));
+      socials = rows.map(r => {
+        // rows saved before normalization existed are snapshotted canonical too;
+        // ones that don't fit their platform are kept as stored
+        const n = normalizeSocialLink(r);
+        const link = isSocialLinkViolation(n) ? r : n;
+        return {
+          platform: r.platform,
+          handle: link.handle ?? null,
+          url: link.url ?? null,
+          label: r.label ?? null
+        };
+      });
     }
 
     const created = await prisma.$transaction(async tx => {
@@ -491,7 +736,7 @@ export async function createSubmission(req: Request, res: Response) {
       });
       const order = updatedCounter.nextSubmissionOrder - 1;
 
-      return tx.challengeSubmission.create({
+      const submission = await tx.challengeSubmission.create({
         data: {
           challengeId: id,
           submitterId: uid,
@@ -505,9 +750,15 @@ export async function createSubmission(req: Request, res: Response) {
           submitterSocials: socials.length ? socials : []
         }
       });
+      await recordSubmitted(tx, submission.id, uid);
+      return submission;
     });
 
-    return sendSuccess(res, serializeSubmission(created), 'Submission created');
+    return sendSuccess(
+      res,
+      serializeSubmission(created, { showReason: true }),
+      'Submission created'
+    );
   } catch (e: unknown) {
     const msg = errMsg(e);
     if (msg.includes('Unique constraint') || msg.includes('unique')) {
@@ -528,9 +779,15 @@ export async function withdrawMySubmission(req: Request, res: Response) {
     const { id } = req.params;
     const existing = await prisma.challengeSubmission.findFirst({
       where: { challengeId: id, submitterId: uid },
-      select: { id: true }
+      select: { id: true, awardedPrize: { select: { id: true } } }
     });
     if (!existing) return sendNotFound(res, 'No submission to withdraw.');
+    if (existing.awardedPrize) {
+      return sendConflict(
+        res,
+        'A prize-winning submission cannot be withdrawn.'
+      );
+    }
 
     await prisma.challengeSubmission.delete({ where: { id: existing.id } });
     return sendSuccess(res, { deleted: true }, 'Submission withdrawn');
@@ -558,10 +815,14 @@ export async function listSubmissions(req: Request, res: Response) {
     const { id } = req.params;
 
     const s = await prisma.challengeSubmission.findFirst({
-      where: { challengeId: id, submitterId: uid }
+      where: { challengeId: id, submitterId: uid },
+      include: { awardedPrize: { select: PRIZE_BRIEF_SELECT } }
     });
 
-    return sendSuccess(res, s ? serializeSubmission(s) : null);
+    return sendSuccess(
+      res,
+      s ? serializeSubmission(s, { showReason: true }) : null
+    );
   }
 
   try {
@@ -572,11 +833,20 @@ export async function listSubmissions(req: Request, res: Response) {
     );
     const cursor = (req.query.cursor as string | undefined) || undefined;
 
+    const uid = (req as any).user?.uid;
+    const isOwner = uid
+      ? !!(await prisma.challenge.findFirst({
+          where: { id, userId: uid },
+          select: { id: true }
+        }))
+      : false;
+
     const rows = await prisma.challengeSubmission.findMany({
       where: { challengeId: id },
       orderBy: [{ submissionOrder: 'asc' }, { createdAt: 'asc' }],
       take: limit + 1,
-      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {})
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+      include: { awardedPrize: { select: PRIZE_BRIEF_SELECT } }
     });
 
     const hasMore = rows.length > limit;
@@ -584,7 +854,7 @@ export async function listSubmissions(req: Request, res: Response) {
     const nextCursor = hasMore ? items[items.length - 1]?.id ?? null : null;
 
     return sendSuccess(res, {
-      items: items.map(serializeSubmission),
+      items: items.map(s => serializeSubmission(s, { showReason: isOwner })),
       nextCursor
     });
   } catch (e: unknown) {
@@ -605,6 +875,7 @@ export async function listMySubmissions(req: Request, res: Response) {
       where: { submitterId: uid },
       orderBy: [{ createdAt: 'desc' }],
       include: {
+        awardedPrize: { select: PRIZE_BRIEF_SELECT },
         challenge: {
           select: {
             id: true,
@@ -626,23 +897,28 @@ export async function listMySubmissions(req: Request, res: Response) {
       }
     });
 
-    return sendSuccess(res, rows.map(serializeSubmission));
+    return sendSuccess(
+      res,
+      rows.map(s => serializeSubmission(s, { showReason: true }))
+    );
   } catch (e: unknown) {
     return sendError(res, errMsg(e));
   }
 }
 
-/** PATCH /challenges/:challengeId/submissions/:submissionId/status */
+/**
+ * PATCH /challenges/:challengeId/submissions/:submissionId/status
+ * Moves along SUBMISSION_TRANSITIONS only; REJECTED needs a reason.
+ */
 export async function updateSubmissionStatus(req: Request, res: Response) {
   const uid = (req as any).user?.uid;
   if (!uid) return sendUnauthorized(res);
 
   try {
     const { challengeId, submissionId } = req.params;
-    const { status } = (req.body ?? {}) as {
-      status?: 'PENDING' | 'APPROVED' | 'REJECTED' | 'WINNER';
-    };
-    if (!status) return sendConflict(res, 'Missing status');
+    const { status, reason } = updateSubmissionStatusSchema.parse(
+      req.body
+    ) as UpdateSubmissionStatusInput;
 
     const c = await prisma.challenge.findFirst({
       where: { id: challengeId, userId: uid },
@@ -650,12 +926,146 @@ export async function updateSubmissionStatus(req: Request, res: Response) {
     });
     if (!c) return sendNotFound(res, 'Challenge not found');
 
-    const updated = await prisma.challengeSubmission.update({
-      where: { id: submissionId },
-      data: { status }
+    const updated = await prisma.$transaction(async tx => {
+      await transitionSubmission(tx, {
+        challengeId,
+        submissionId,
+        actorId: uid,
+        to: status,
+        reason
+      });
+      return tx.challengeSubmission.findUniqueOrThrow({
+        where: { id: submissionId },
+        include: { awardedPrize: { select: PRIZE_BRIEF_SELECT } }
+      });
     });
-    return sendSuccess(res, serializeSubmission(updated), 'Submission updated');
+    return sendSuccess(
+      res,
+      serializeSubmission(updated, { showReason: true }),
+      'Submission updated'
+    );
+  } catch (e: unknown) {
+    const msg = errMsg(e);
+    if (msg === 'NOT_FOUND') return sendNotFound(res, 'Submission not found');
+    if (msg === 'INVALID_TRANSITION') {
+      return sendConflict(
+        res,
+        'This submission cannot be moved to that status from its current one'
+      );
+    }
+    if (msg === 'REASON_REQUIRED') {
+      return sendFieldError(
+        res,
+        'reason',
+        'Say why the submission is rejected'
+      );
+    }
+    if (msg === 'STALE') {
+      return sendConflict(res, 'The submission was just updated; reload it');
+    }
+    return sendError(res, msg);
+  }
+}
+
+/**
+ * GET /challenges/:challengeId/submissions/:submissionId/history
+ * Status history, for the challenge owner (challenges:read)
+ * or the submitter (submissions:read)
+ */
+export async function getSubmissionStatusHistory(req: Request, res: Response) {
+  const user = req.user;
+  if (!user?.uid) return sendUnauthorized(res);
+
+  try {
+    const { challengeId, submissionId } = req.params;
+    const has = (scope: TokenScope) =>
+      user.authType !== 'pat' || !!user.scopes?.includes(scope);
+    const history = await getSubmissionHistory(
+      user.uid,
+      challengeId,
+      submissionId,
+      { owner: has('challenges:read'), submitter: has('submissions:read') }
+    );
+    if (!history) return sendNotFound(res, 'Submission not found');
+    return sendSuccess(res, history);
   } catch (e: unknown) {
     return sendError(res, errMsg(e));
   }
 }
+
+// ---------------- Awards ----------------
+const AWARD_ERRORS: Record<string, [number, string]> = {
+  NOT_FOUND: [404, 'Challenge not found'],
+  NOT_CLOSED: [409, 'Prizes can be awarded once the challenge is closed'],
+  RESULTS_ANNOUNCED: [409, 'Results have already been announced'],
+  NO_AWARDS: [409, 'Award at least one prize before announcing the results'],
+  INVALID_TRANSITION: [409, 'Every winning submission must still be approved'],
+  STALE: [409, 'A winning submission was just updated; try again']
+};
+
+function sendAwardError(res: Response, e: unknown) {
+  const msg = errMsg(e);
+  const known = AWARD_ERRORS[msg];
+  if (!known) return sendError(res, msg);
+  const [status, message] = known;
+  return status === 404
+    ? sendNotFound(res, message)
+    : sendConflict(res, message);
+}
+
+async function findOwnerChallengeView(id: string) {
+  const c = await prisma.challenge.findUnique({
+    where: { id },
+    include: {
+      prizes: PRIZES_INCLUDE,
+      images: { orderBy: { sortOrder: 'asc' } }
+    }
+  });
+  return serializeChallenge(c, { isOwner: true });
+}
+
+/**
+ * PUT /challenges/:id/awards — { awards: [{ rank, submissionId }] }
+ * Replaces the drafted awards while the challenge is CLOSED and results aren't out.
+ */
+export async function putPrizeAwards(req: Request, res: Response) {
+  const uid = (req as any).user?.uid;
+  if (!uid) return sendUnauthorized(res);
+
+  try {
+    const { id } = req.params;
+    const { awards } = setPrizeAwardsSchema.parse(
+      req.body
+    ) as SetPrizeAwardsInput;
+
+    const out = await setPrizeAwards(uid, id, awards);
+    if ('violation' in out) {
+      const { field, message } = out.violation;
+      return sendFieldError(res, field, message);
+    }
+    return sendSuccess(res, await findOwnerChallengeView(id), 'Awards saved');
+  } catch (e: unknown) {
+    return sendAwardError(res, e);
+  }
+}
+
+/**
+ * POST /challenges/:id/results
+ * Announces the drafted awards: winners go public and their submissions become WINNER.
+ */
+export async function postAnnounceResults(req: Request, res: Response) {
+  const uid = (req as any).user?.uid;
+  if (!uid) return sendUnauthorized(res);
+
+  try {
+    const { id } = req.params;
+    await announceResults(uid, id);
+    return sendSuccess(
+      res,
+      await findOwnerChallengeView(id),
+      'Results announced'
+    );
+  } catch (e: unknown) {
+    return sendAwardError(res, e);
+  }
+}
@@ -0,0 +1,53 @@
+// src/controllers/clerkWebhookController.ts
+import type { Request, Response } from 'express';
+import { env } from '../config/env.js';
+import { verifySvixSignature } from '../utils/svix.js';
+import {
+  handleClerkEvent,
+  type ClerkWebhookEvent
+} from '../services/clerkWebhookService.js';
+import {
+  sendBadRequest,
+  sendError,
+  sendSuccess
+} from '../utils/responseHandler.js';
+
+/**
+ * POST /api/webhooks/clerk
+ * Mounted with express.raw(); the Svix signature covers the exact body bytes.
+ */
+export async function handleClerkWebhook(req: Request, res: Response) {
+  const secret = env.CLERK_WEBHOOK_SECRET;
+  if (!secret) return sendError(res, 'Webhook not configured');
+  if (!Buffer.isBuffer(req.body)) return sendBadRequest(res, 'Missing body');
+
+  try {
+    verifySvixSignature({
+      payload: req.body,
+      secret,
+      headers: {
+        id: req.headers['svix-id'],
+        timestamp: req.headers['svix-timestamp'],
+        signature: req.headers['svix-signature']
+      }
+    });
+  } catch (err: any) {
+    return sendBadRequest(res, `Invalid signature: ${err?.message}`);
+  }
+
+  let evt: ClerkWebhookEvent;
+  try {
+    evt = JSON.parse(req.body.toString('utf8'));
+  } catch {
+    return sendBadRequest(res, 'Invalid JSON');
+  }
+
+  try {
+    const outcome = await handleClerkEvent(evt);
+    return sendSuccess(res, { type: evt.type, outcome }, 'Webhook received');
+  } catch (err: any) {
+    console.error(`clerk webhook error (${evt.type}):`, err);
+    // Non-2xx makes Svix retry with backoff
+    return sendError(res, err?.message ?? 'Failed to process webhook');
+  }
+}
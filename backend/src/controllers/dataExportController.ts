@@ -0,0 +1,100 @@
+// src/controllers/dataExportController.ts
+import type { Request, Response } from 'express';
+import type { DataExport } from '@prisma/client';
+import {
+  sendAccepted,
+  sendConflict,
+  sendError,
+  sendNotFound,
+  sendSuccess,
+  sendUnauthorized
+} from '../utils/responseHandler';
+import {
+  getDataExport,
+  getDataExportDownloadUrl,
+  getLatestDataExport,
+  requestDataExport
+} from '../services/dataExportService';
+
+function errMsg(e: unknown): string {
+  if (e instanceof Error) return e.message;
+  if (typeof e === 'string') return e;
+  try {
+    return JSON.stringify(e);
+  } catch {
+    return 'Unexpected error';
+  }
+}
+
+function serializeExport(x: DataExport) {
+  return {
+    id: x.id,
+    status: x.status,
+    sizeBytes: x.sizeBytes ?? null,
+    error: x.status === 'FAILED' ? 'Export failed, please try again' : null,
+    createdAt: x.createdAt.toISOString(),
+    completedAt: x.completedAt?.toISOString() ?? null,
+    expiresAt: x.expiresAt?.toISOString() ?? null,
+    downloadPath:
+      x.status === 'READY' ? `/api/me/export/${x.id}/download` : null
+  };
+}
+
+/** POST /api/me/export — 202; poll the status endpoint until READY */
+export async function createMyExport(req: Request, res: Response) {
+  const uid = req.user?.uid;
+  if (!uid) return sendUnauthorized(res);
+  try {
+    const { export: x, created } = await requestDataExport(uid);
+    return sendAccepted(
+      res,
+      serializeExport(x),
+      created ? 'Export started' : 'An export is already in progress'
+    );
+  } catch (e: unknown) {
+    return sendError(res, errMsg(e));
+  }
+}
+
+/** GET /api/me/export — latest export (or null) */
+export async function getMyLatestExport(req: Request, res: Response) {
+  const uid = req.user?.uid;
+  if (!uid) return sendUnauthorized(res);
+  try {
+    const x = await getLatestDataExport(uid);
+    return sendSuccess(res, x ? serializeExport(x) : null, 'Export status');
+  } catch (e: unknown) {
+    return sendError(res, errMsg(e));
+  }
+}
+
+/** GET /api/me/export/:id */
+export async function getMyExport(req: Request, res: Response) {
+  const uid = req.user?.uid;
+  if (!uid) return sendUnauthorized(res);
+  try {
+    const x = await getDataExport(uid, req.params.id);
+    if (!x) return sendNotFound(res, 'Export not found');
+    return sendSuccess(res, serializeExport(x), 'Export status');
+  } catch (e: unknown) {
+    return sendError(res, errMsg(e));
+  }
+}
+
+/** GET /api/me/export/:id/download — 302 to a short-lived S3 link */
+export async function downloadMyExport(req: Request, res: Response) {
+  const uid = req.user?.uid;
+  if (!uid) return sendUnauthorized(res);
+  try {
+    const url = await getDataExportDownloadUrl(uid, req.params.id);
+    res.set('Cache-Control', 'no-store');
+    return res.redirect(302, url);
+  } catch (e: unknown) {
+    const msg = errMsg(e);
+    if (msg === 'NOT_FOUND') return sendNotFound(res, 'Export not found');
+    if (msg === 'NOT_READY') return sendConflict(res, 'Export is not ready');
+    if (msg === 'EXPIRED')
+      return sendError(res, 'Export has expired, request a new one', 410);
+    return sendError(res, msg);
+  }
+}
@@ -1,32 +1,75 @@
 // controllers/digitalNameCardController.ts
 import type { Request, Response } from 'express';
 import { prisma } from '../config/prisma';
+import { env } from '../config/env';
 import {
   sendSuccess,
   sendUnauthorized,
   sendConflict,
   sendNotFound,
-  sendError
+  sendError,
+  sendCreated,
+  sendForbidden
 } from '../utils/responseHandler';
 import type {
   CreateDigitalCardInput,
   UpdateDigitalCardInput
 } from '../schemas/digitalNameCard';
+import type { CardContactInput } from '../schemas/cardLead';
+import { createCardLead } from '../services/cardLeadService';
+import { resolveSchedule } from '../services/publishScheduleService';
+import { checkLimit } from '../services/entitlementService';
+import { sendEntitlementDenied } from '../middlewares/entitlement';
+import { sendFieldError, sendHandleViolation } from '../middlewares/validate';
+import { checkHandle } from '../utils/slugPolicy';
+import { buildCardVCard } from '../services/vcardService';
+import {
+  isSlugRetiredByOther,
+  recordSlugChange,
+  retireSlug,
+  resolveRetiredSlug
+} from '../services/slugHistoryService';
+import {
+  deleteEntityAnalytics,
+  getCardClickTotals,
+  recordSocialClick,
+  trackView
+} from '../services/analyticsService';
 
 /** --- Helpers --- */
-function serializeSocial(s: any) {
+function serializeSocial(s: any, trackedBase?: string) {
   return {
     id: s.id,
     platform: s.platform,
     handle: s.handle ?? null,
     url: s.url ?? null,
+    // click-counting redirect (GET /api/go/:socialId), only when asked for
+    ...(trackedBase
+      ? { trackedUrl: s.url ? `${trackedBase}/${s.id}` : null }
+      : {}),
     label: s.label ?? null,
     isPublic: !!s.isPublic,
     sortOrder: typeof s.sortOrder === 'number' ? s.sortOrder : 0
   };
 }
 
-function serializeCard(card: any, opts: { isOwner: boolean }) {
+/** Only http(s) targets are redirected to (no javascript:/data: via stored URLs) */
+function safeHttpUrl(url?: string | null): string | null {
+  if (!url) return null;
+  try {
+    const u = new URL(url);
+    return u.protocol === 'http:' || u.protocol === 'https:'
+      ? u.toString()
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+function serializeCard(
+  card: any,
+  opts: { isOwner: boolean; trackedBase?: string }
+) {
   if (!card) return null;
 
   const {
@@ -62,7 +105,7 @@ function serializeCard(card: any, opts: { isOwner: boolean }) {
     out.university = university ?? null;
     out.country = country ?? null;
     out.socials = (socials || [])
-      .map(serializeSocial)
+      .map((s: any) => serializeSocial(s, opts.trackedBase))
       .sort((a: any, b: any) => a.sortOrder - b.sortOrder);
   } else {
     // public view respects flags + social visibility
@@ -73,7 +116,7 @@ function serializeCard(card: any, opts: { isOwner: boolean }) {
     out.country = showCountry ? country ?? null : null;
     out.socials = (socials || [])
       .filter((s: any) => s.isPublic)
-      .map(serializeSocial)
+      .map((s: any) => serializeSocial(s, opts.trackedBase))
       .sort((a: any, b: any) => a.sortOrder - b.sortOrder);
   }
 
@@ -86,12 +129,24 @@ export async function createCard(req: Request, res: Response) {
   const input = req.body as CreateDigitalCardInput;
 
   try {
+    const denial = await checkLimit(req.user.uid, 'maxCards');
+    if (denial) return sendEntitlementDenied(res, denial);
+
     // global vanity slug uniqueness
     const exists = await prisma.digitalNameCard.findUnique({
       where: { slug: input.slug },
       select: { id: true }
     });
     if (exists) return sendConflict(res, 'Slug already exists');
+    if (await isSlugRetiredByOther('CARD', input.slug, req.user.uid)) {
+      return sendConflict(res, 'Slug is no longer available');
+    }
+
+    const schedule = resolveSchedule(input, null);
+    if ('violation' in schedule) {
+      const { field, message } = schedule.violation;
+      return sendFieldError(res, field, message);
+    }
 
     const { socials = [], ...cardData } = input;
 
@@ -99,6 +154,7 @@ export async function createCard(req: Request, res: Response) {
       data: {
         userId: req.user.uid,
         ...cardData,
+        ...schedule.data,
         publishedAt: input.publishStatus === 'PUBLISHED' ? new Date() : null,
         socials: {
           create: (socials || []).map(s => ({
@@ -158,7 +214,12 @@ export async function getMyCardById(req: Request, res: Response) {
       return sendNotFound(res, 'Card not found');
     }
 
-    return sendSuccess(res, serializeCard(card, { isOwner: true }), 'My card');
+    const clicks = await getCardClickTotals(card.id);
+    return sendSuccess(
+      res,
+      { ...serializeCard(card, { isOwner: true }), clicks },
+      'My card'
+    );
   } catch (e: any) {
     return sendError(res, e?.message ?? 'Failed to fetch card');
   }
@@ -182,17 +243,31 @@ export async function updateCard(req: Request, res: Response) {
         throw new Error('NOT_FOUND');
       }
 
-      // 2) slug uniqueness (if changed)
+      // 2) slug policy + uniqueness (if changed)
       if (input.slug && input.slug !== card.slug) {
+        const violation = checkHandle(input.slug, 'slug');
+        if (violation) {
+          throw Object.assign(new Error('SLUG_POLICY'), { violation });
+        }
         const exists = await tx.digitalNameCard.findUnique({
           where: { slug: input.slug },
           select: { id: true }
         });
         if (exists) throw new Error('SLUG_EXISTS');
+        // retired slugs keep resolving to their old card
+        if (await isSlugRetiredByOther('CARD', input.slug, card.userId, tx)) {
+          throw new Error('SLUG_RETIRED');
+        }
       }
 
-      // 3) split socials from base patch
+      // 3) split socials from base patch; manual status changes supersede schedules
       const { socials, ...patch } = input;
+      const schedule = resolveSchedule(input, card);
+      if ('violation' in schedule) {
+        throw Object.assign(new Error('SCHEDULE_INVALID'), {
+          violation: schedule.violation
+        });
+      }
 
       // 4) manage publishedAt transitions
       const nextPublishedAt =
@@ -207,9 +282,19 @@ export async function updateCard(req: Request, res: Response) {
         where: { id },
         data: {
           ...patch,
+          ...schedule.data,
           publishedAt: nextPublishedAt
         }
       });
+      if (input.slug && input.slug !== card.slug) {
+        await recordSlugChange(tx, {
+          entityType: 'CARD',
+          entityId: id,
+          ownerId: card.userId,
+          from: card.slug,
+          to: input.slug
+        });
+      }
 
       // 6) replace socials if provided
       if (Array.isArray(socials)) {
@@ -245,6 +330,12 @@ export async function updateCard(req: Request, res: Response) {
     if (e?.message === 'NOT_FOUND') return sendNotFound(res, 'Card not found');
     if (e?.message === 'SLUG_EXISTS')
       return sendConflict(res, 'Slug already exists');
+    if (e?.message === 'SLUG_POLICY')
+      return sendHandleViolation(res, 'slug', e.violation);
+    if (e?.message === 'SLUG_RETIRED')
+      return sendConflict(res, 'Slug is no longer available');
+    if (e?.message === 'SCHEDULE_INVALID')
+      return sendFieldError(res, e.violation.field, e.violation.message);
     return sendError(res, e?.message ?? 'Failed to update card');
   }
 }
@@ -259,12 +350,20 @@ export async function deleteCard(req: Request, res: Response) {
       // own check
       const card = await tx.digitalNameCard.findUnique({
         where: { id },
-        select: { id: true, userId: true }
+        select: { id: true, userId: true, slug: true }
       });
       if (!card || card.userId !== req.user!.uid) throw new Error('NOT_FOUND');
 
       await tx.socialAccount.deleteMany({ where: { cardId: id } });
+      await deleteEntityAnalytics(tx, 'CARD', id);
       await tx.digitalNameCard.delete({ where: { id } });
+      // printed QR codes still carry the slug: nobody else may claim it
+      await retireSlug(tx, {
+        entityType: 'CARD',
+        entityId: id,
+        ownerId: card.userId,
+        slug: card.slug
+      });
     });
 
     return sendSuccess(res, { id }, 'Card deleted');
@@ -274,24 +373,151 @@ export async function deleteCard(req: Request, res: Response) {
   }
 }
 
-/** GET /api/digital-name-card/slug/:slug — public (published only) */
+/** Published card by current or retired slug (printed QR codes outlive renames) */
+async function findPublishedCardBySlug(slug: string) {
+  let card = await prisma.digitalNameCard.findUnique({
+    where: { slug },
+    include: { socials: true }
+  });
+  if (!card) {
+    const cardId = await resolveRetiredSlug('CARD', slug);
+    card = cardId
+      ? await prisma.digitalNameCard.findUnique({
+          where: { id: cardId },
+          include: { socials: true }
+        })
+      : null;
+  }
+  return card?.publishStatus === 'PUBLISHED' ? card : null;
+}
+
+/**
+ * GET /api/digital-name-card/slug/:slug — public (published only)
+ * A retired slug serves the card with `redirectTo` pointing at the current one.
+ * `?tracked=1` adds a click-counting `trackedUrl` to each social.
+ */
 export async function getPublicCardBySlug(req: Request, res: Response) {
   const { slug } = req.params;
   try {
-    const card = await prisma.digitalNameCard.findUnique({
-      where: { slug },
-      include: { socials: true }
+    const card = await findPublishedCardBySlug(slug);
+    if (!card) return sendNotFound(res, 'Card not found');
+    trackView(req, {
+      entityType: 'CARD',
+      entityId: card.id,
+      ownerId: card.userId
     });
-    if (!card || card.publishStatus !== 'PUBLISHED') {
-      return sendNotFound(res, 'Card not found');
-    }
     const isOwner = req.user?.uid === card.userId; // if session cookie present for owner
-    return sendSuccess(res, serializeCard(card, { isOwner }), 'Card');
+    const trackedBase = ['1', 'true'].includes(String(req.query.tracked))
+      ? `${env.PUBLIC_API_URL}/go`
+      : undefined;
+    const redirectTo =
+      card.slug !== slug
+        ? {
+            slug: card.slug,
+            path: `/digital-name-card/slug/${encodeURIComponent(card.slug)}`
+          }
+        : null;
+    return sendSuccess(
+      res,
+      { ...serializeCard(card, { isOwner, trackedBase }), redirectTo },
+      'Card'
+    );
   } catch (e: any) {
     return sendError(res, e?.message ?? 'Failed to fetch card');
   }
 }
 
+/**
+ * GET /api/digital-name-card/slug/:slug/vcard — public (published only)
+ * vCard 4.0 built from the public view, so hidden fields never leak.
+ */
+export async function getPublicCardVCard(req: Request, res: Response) {
+  const { slug } = req.params;
+  try {
+    const card = await findPublishedCardBySlug(slug);
+    if (!card) return sendNotFound(res, 'Card not found');
+
+    const vcf = buildCardVCard(serializeCard(card, { isOwner: false }), {
+      source: `${req.protocol}://${req.get(
+        'host'
+      )}/api/digital-name-card/slug/${encodeURIComponent(card.slug)}/vcard`
+    });
+
+    res.set({
+      'Content-Type': 'text/vcard; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${card.slug}.vcf"`,
+      'Cache-Control': 'public, max-age=300'
+    });
+    return res.status(200).send(vcf);
+  } catch (e: any) {
+    return sendError(res, e?.message ?? 'Failed to build vCard');
+  }
+}
+
+/**
+ * POST /api/digital-name-card/slug/:slug/contact — public (published, lead capture on)
+ * Bots that fill the honeypot get the same 201, but nothing is stored.
+ */
+export async function submitCardContact(req: Request, res: Response) {
+  const { slug } = req.params;
+  const input = req.body as CardContactInput;
+  const thanks = 'Thanks! Your details were sent';
+
+  try {
+    const card = await findPublishedCardBySlug(slug);
+    if (!card) return sendNotFound(res, 'Card not found');
+    if (input.website) return sendCreated(res, { received: true }, thanks);
+
+    await createCardLead(card, input);
+    return sendCreated(res, { received: true }, thanks);
+  } catch (e: any) {
+    if (e?.message === 'LEAD_CAPTURE_DISABLED') {
+      return sendForbidden(res, 'This card does not accept contact details');
+    }
+    return sendError(res, e?.message ?? 'Failed to send details');
+  }
+}
+
+/**
+ * GET /api/go/:socialId — public click-through for a card's social link.
+ * Only public links on published cards; records the click, then 302s to the target.
+ */
+export async function followSocialLink(req: Request, res: Response) {
+  const { socialId } = req.params;
+  try {
+    const social = await prisma.socialAccount.findUnique({
+      where: { id: socialId },
+      include: { card: { select: { userId: true, publishStatus: true } } }
+    });
+    const target = safeHttpUrl(social?.url);
+    if (
+      !social ||
+      !social.isPublic ||
+      social.card.publishStatus !== 'PUBLISHED' ||
+      !target
+    ) {
+      return sendNotFound(res, 'Link not found');
+    }
+
+    try {
+      await recordSocialClick(req, {
+        socialId: social.id,
+        cardId: social.cardId,
+        ownerId: social.card.userId,
+        platform: social.platform
+      });
+    } catch (e) {
+      // never block the visitor on analytics
+      console.error(`[analytics] click ${social.id}:`, e);
+    }
+
+    res.set('Cache-Control', 'no-store'); // every click must reach us
+    return res.redirect(302, target);
+  } catch (e: any) {
+    return sendError(res, e?.message ?? 'Failed to follow link');
+  }
+}
+
 /** GET /api/digital-name-cards — list all published cards */
 export async function listPublishedCards(req: Request, res: Response) {
   try {
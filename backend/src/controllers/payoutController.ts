@@ -0,0 +1,137 @@
+// src/controllers/payoutController.ts
+// Prize payouts: winners set up where the money goes, challenge owners send it.
+import type { Request, Response } from 'express';
+import {
+  sendConflict,
+  sendError,
+  sendNotFound,
+  sendSuccess,
+  sendUnauthorized
+} from '../utils/responseHandler';
+import {
+  fundChallengePayouts,
+  getPayoutAccountStatus,
+  listChallengePayouts,
+  listMyPayouts,
+  sendPrizePayout,
+  startPayoutOnboarding
+} from '../services/prizePayoutService';
+
+function errMsg(e: unknown): string {
+  if (e instanceof Error) return e.message;
+  if (typeof e === 'string') return e;
+  try {
+    return JSON.stringify(e);
+  } catch {
+    return 'Unexpected error';
+  }
+}
+
+const SEND_ERRORS: Record<string, string> = {
+  ALREADY_SENT: 'This payout has already been sent',
+  RECIPIENT_GONE: 'The winner has deleted their account',
+  RECIPIENT_NOT_ONBOARDED: 'The winner has not set up payouts yet',
+  NOT_FUNDED: 'Pay in the prize money before sending this payout'
+};
+
+/** GET /api/me/payout-account?refresh=1 — onboarding state (refresh re-reads the provider) */
+export async function getMyPayoutAccount(req: Request, res: Response) {
+  const uid = req.user?.uid;
+  if (!uid) return sendUnauthorized(res);
+
+  try {
+    const refresh = req.query.refresh === '1' || req.query.refresh === 'true';
+    const account = await getPayoutAccountStatus(uid, { refresh });
+    return sendSuccess(res, account, 'Payout account');
+  } catch (e: unknown) {
+    return sendError(res, errMsg(e));
+  }
+}
+
+/** POST /api/me/payout-account/onboarding — hosted onboarding URL to redirect to */
+export async function createPayoutOnboarding(req: Request, res: Response) {
+  const uid = req.user?.uid;
+  if (!uid) return sendUnauthorized(res);
+
+  try {
+    const url = await startPayoutOnboarding(uid);
+    return sendSuccess(res, { url }, 'Payout onboarding');
+  } catch (e: unknown) {
+    return sendError(res, errMsg(e));
+  }
+}
+
+/** GET /api/me/payouts — prize money the caller has won */
+export async function listMyPrizePayouts(req: Request, res: Response) {
+  const uid = req.user?.uid;
+  if (!uid) return sendUnauthorized(res);
+
+  try {
+    const items = await listMyPayouts(uid);
+    return sendSuccess(res, { items }, 'Payouts');
+  } catch (e: unknown) {
+    return sendError(res, errMsg(e));
+  }
+}
+
+/** GET /api/challenges/:id/payouts — the owner's payouts for a challenge */
+export async function listPayoutsForChallenge(req: Request, res: Response) {
+  const uid = req.user?.uid;
+  if (!uid) return sendUnauthorized(res);
+
+  try {
+    const items = await listChallengePayouts(uid, req.params.id);
+    if (!items) return sendNotFound(res, 'Challenge not found');
+    return sendSuccess(res, { items }, 'Payouts');
+  } catch (e: unknown) {
+    return sendError(res, errMsg(e));
+  }
+}
+
+/**
+ * POST /api/challenges/:id/payouts/funding
+ * Checkout for the prize money of payouts not paid in yet (redirect to `checkoutUrl`).
+ */
+export async function fundPayouts(req: Request, res: Response) {
+  const uid = req.user?.uid;
+  if (!uid) return sendUnauthorized(res);
+
+  try {
+    const funding = await fundChallengePayouts(uid, req.params.id);
+    return sendSuccess(res, funding, 'Prize funding');
+  } catch (e: unknown) {
+    const msg = errMsg(e);
+    if (msg === 'NOT_FOUND') return sendNotFound(res, 'Challenge not found');
+    if (msg === 'NOTHING_TO_FUND') {
+      return sendConflict(res, 'Every payout is already paid in');
+    }
+    return sendError(res, msg);
+  }
+}
+
+/**
+ * POST /api/challenges/:id/payouts/:payoutId/send
+ * Sends a PENDING or FAILED payout; a provider failure comes back as status FAILED.
+ */
+export async function sendPayout(req: Request, res: Response) {
+  const uid = req.user?.uid;
+  if (!uid) return sendUnauthorized(res);
+
+  try {
+    const payout = await sendPrizePayout(
+      uid,
+      req.params.id,
+      req.params.payoutId
+    );
+    return sendSuccess(
+      res,
+      payout,
+      payout.status === 'FAILED' ? 'Payout failed' : 'Payout sent'
+    );
+  } catch (e: unknown) {
+    const msg = errMsg(e);
+    if (msg === 'NOT_FOUND') return sendNotFound(res, 'Payout not found');
+    if (SEND_ERRORS[msg]) return sendConflict(res, SEND_ERRORS[msg]);
+    return sendError(res, msg);
+  }
+}
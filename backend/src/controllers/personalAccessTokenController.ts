@@ -0,0 +1,82 @@
+// src/controllers/personalAccessTokenController.ts
+import type { Request, Response } from 'express';
+import {
+  sendConflict,
+  sendCreated,
+  sendError,
+  sendNotFound,
+  sendSuccess,
+  sendUnauthorized
+} from '../utils/responseHandler';
+import {
+  countActiveTokens,
+  createPersonalAccessToken,
+  listPersonalAccessTokens,
+  MAX_ACTIVE_TOKENS,
+  revokePersonalAccessToken
+} from '../services/personalAccessTokenService';
+import type { CreateTokenInput } from '../schemas/personalAccessToken';
+
+function errMsg(e: unknown): string {
+  if (e instanceof Error) return e.message;
+  if (typeof e === 'string') return e;
+  try {
+    return JSON.stringify(e);
+  } catch {
+    return 'Unexpected error';
+  }
+}
+
+/** GET /api/me/tokens */
+export async function listMyTokens(req: Request, res: Response) {
+  const uid = req.user?.uid;
+  if (!uid) return sendUnauthorized(res);
+  try {
+    const tokens = await listPersonalAccessTokens(uid);
+    return sendSuccess(res, tokens, 'My tokens');
+  } catch (e: unknown) {
+    return sendError(res, errMsg(e));
+  }
+}
+
+/** POST /api/me/tokens — the raw token is only ever returned here */
+export async function createMyToken(req: Request, res: Response) {
+  const uid = req.user?.uid;
+  if (!uid) return sendUnauthorized(res);
+  try {
+    const input = req.body as CreateTokenInput;
+
+    if ((await countActiveTokens(uid)) >= MAX_ACTIVE_TOKENS) {
+      return sendConflict(
+        res,
+        `You can have at most ${MAX_ACTIVE_TOKENS} active tokens`
+      );
+    }
+
+    const { token, raw } = await createPersonalAccessToken(uid, {
+      name: input.name,
+      scopes: input.scopes,
+      expiresInDays: input.expiresInDays ?? null
+    });
+    return sendCreated(
+      res,
+      { ...token, token: raw },
+      'Token created — copy it now, it will not be shown again'
+    );
+  } catch (e: unknown) {
+    return sendError(res, errMsg(e));
+  }
+}
+
+/** DELETE /api/me/tokens/:id */
+export async function revokeMyToken(req: Request, res: Response) {
+  const uid = req.user?.uid;
+  if (!uid) return sendUnauthorized(res);
+  try {
+    const ok = await revokePersonalAccessToken(uid, req.params.id);
+    if (!ok) return sendNotFound(res, 'Token not found');
+    return sendSuccess(res, { id: req.params.id }, 'Token revoked');
+  } catch (e: unknown) {
+    return sendError(res, errMsg(e));
+  }
+}
@@ -12,6 +12,18 @@ import {
   createPortfolioSchema,
   updatePortfolioSchema
 } from '../schemas/portfolio';
+import { checkFeature, checkLimit } from '../services/entitlementService';
+import { sendEntitlementDenied } from '../middlewares/entitlement';
+import { sendFieldError, sendHandleViolation } from '../middlewares/validate';
+import { resolveSchedule } from '../services/publishScheduleService';
+import { checkHandle, deriveSlug, suffixSlug } from '../utils/slugPolicy';
+import {
+  isSlugRetiredByOther,
+  recordSlugChange,
+  retireSlug,
+  resolveRetiredSlug
+} from '../services/slugHistoryService';
+import { deleteEntityAnalytics, trackView } from '../services/analyticsService';
 
 // --- helper to stringify unknown errors safely ---
 function errMsg(e: unknown): string {
@@ -53,26 +65,32 @@ const fullInclude = {
   educations: { orderBy: { startDate: 'desc' } }
 } as const;
 
-function slugify(input: string) {
-  return input
-    .toLowerCase()
-    .trim()
-    .replace(/[^a-z0-9]+/g, '-')
-    .replace(/(^-|-$)+/g, '');
-}
-async function ensureUniqueSlug(base: string): Promise<string> {
+// skips slugs in use, slugs other users retired (they still redirect)
+// and anything the slug policy rejects (e.g. the reserved fallback "portfolio")
+async function ensureUniqueSlug(base: string, userId: string): Promise<string> {
   let candidate = base || 'portfolio';
   let suffix = 0;
   for (;;) {
     const exists = await prisma.portfolio.findUnique({
       where: { slug: candidate }
     });
-    if (!exists) return candidate;
+    if (
+      !exists &&
+      !checkHandle(candidate, 'slug') &&
+      !(await isSlugRetiredByOther('PORTFOLIO', candidate, userId))
+    ) {
+      return candidate;
+    }
     suffix += 1;
-    candidate = `${base}-${suffix}`;
+    candidate = suffixSlug(base || 'portfolio', suffix);
   }
 }
 
+// largest sub-image list across the submitted projects
+function maxProjectImages(projects?: Array<{ subImages?: unknown[] }>) {
+  return Math.max(0, ...(projects ?? []).map(p => p.subImages?.length ?? 0));
+}
+
 function toDateOrNull(v?: unknown): Date | null | undefined {
   if (v == null || v === '') return undefined;
   if (v instanceof Date) return isNaN(+v) ? undefined : v;
@@ -172,9 +190,24 @@ export async function createPortfolio(req: Request, res: Response) {
 
     const data = createPortfolioSchema.parse(req.body);
 
-    const providedSlug = data.slug?.trim();
-    const baseSlug = providedSlug || slugify(data.title || 'portfolio');
-    const slug = await ensureUniqueSlug(baseSlug);
+    const limitDenial =
+      (await checkLimit(userId, 'maxPortfolios')) ??
+      (await checkLimit(userId, 'maxImagesPerProject', {
+        current: maxProjectImages(data.projects),
+        adding: 0
+      }));
+    if (limitDenial) return sendEntitlementDenied(res, limitDenial);
+
+    const schedule = resolveSchedule(data, null);
+    if ('violation' in schedule) {
+      const { field, message } = schedule.violation;
+      return sendFieldError(res, field, message);
+    }
+
+    // an explicit slug was already checked by the schema
+    const baseSlug =
+      data.slug ?? deriveSlug(data.title || 'portfolio', 'portfolio');
+    const slug = await ensureUniqueSlug(baseSlug, userId);
 
     // Prefill About from Card (optional) + provenance
     let about = data.about;
@@ -247,6 +280,7 @@ export async function createPortfolio(req: Request, res: Response) {
 
         publishStatus: data.publishStatus ?? 'DRAFT',
         publishedAt: isPublishing ? new Date() : undefined,
+        ...schedule.data,
 
         subImages: createSubImages(data.subImages),
         videoLinks: createVideoLinks(data.videoLinks),
@@ -323,9 +357,27 @@ export async function updatePortfolio(req: Request, res: Response) {
     });
     if (!existing) return sendNotFound(res, 'Portfolio not found');
 
+    if (body.projects) {
+      const denial = await checkLimit(userId, 'maxImagesPerProject', {
+        current: maxProjectImages(body.projects),
+        adding: 0
+      });
+      if (denial) return sendEntitlementDenied(res, denial);
+    }
+
     let slugUpdate: string | undefined;
     if (body.slug && body.slug !== existing.slug) {
-      slugUpdate = await ensureUniqueSlug(body.slug);
+      const violation = checkHandle(body.slug, 'slug');
+      if (violation) return sendHandleViolation(res, 'slug', violation);
+      const denial = await checkFeature(userId, 'customSlug');
+      if (denial) return sendEntitlementDenied(res, denial);
+      slugUpdate = await ensureUniqueSlug(body.slug, userId);
+    }
+
+    const schedule = resolveSchedule(body, existing);
+    if ('violation' in schedule) {
+      const { field, message } = schedule.violation;
+      return sendFieldError(res, field, message);
     }
 
     let publishedAtUpdate: Date | null | undefined = undefined;
@@ -337,52 +389,69 @@ export async function updatePortfolio(req: Request, res: Response) {
       }
     }
 
-    const updated = await prisma.portfolio.update({
-      where: { id },
-      data: {
-        slug: slugUpdate ?? undefined,
-        title: body.title ?? undefined,
-        description: body.description ?? undefined,
-        mainImageKey: body.mainImageKey ?? undefined,
-        tags: body.tags ?? undefined,
-        publishStatus: body.publishStatus ?? undefined,
-        publishedAt: publishedAtUpdate,
-        about: body.about ?? undefined,
-
-        ...(body.subImages
-          ? {
-              subImages: { deleteMany: {}, ...createSubImages(body.subImages) }
-            }
-          : {}),
-        ...(body.videoLinks
-          ? {
-              videoLinks: {
-                deleteMany: {},
-                ...createVideoLinks(body.videoLinks)
+    const updated = await prisma.$transaction(async tx => {
+      const row = await tx.portfolio.update({
+        where: { id },
+        data: {
+          slug: slugUpdate ?? undefined,
+          title: body.title ?? undefined,
+          description: body.description ?? undefined,
+          mainImageKey: body.mainImageKey ?? undefined,
+          tags: body.tags ?? undefined,
+          publishStatus: body.publishStatus ?? undefined,
+          publishedAt: publishedAtUpdate,
+          ...schedule.data,
+          about: body.about ?? undefined,
+
+          ...(body.subImages
+            ? {
+                subImages: {
+                  deleteMany: {},
+                  ...createSubImages(body.subImages)
+                }
               }
-            }
-          : {}),
-        ...(body.projects
-          ? { projects: { deleteMany: {}, ...createProjects(body.projects) } }
-          : {}),
-        ...(body.experiences
-          ? {
-              experiences: {
-                deleteMany: {},
-                ...createExperiences(body.experiences)
+            : {}),
+          ...(body.videoLinks
+            ? {
+                videoLinks: {
+                  deleteMany: {},
+                  ...createVideoLinks(body.videoLinks)
+                }
               }
-            }
-          : {}),
-        ...(body.educations
-          ? {
-              educations: {
-                deleteMany: {},
-                ...createEducations(body.educations)
+            : {}),
+          ...(body.projects
+            ? { projects: { deleteMany: {}, ...createProjects(body.projects) } }
+            : {}),
+          ...(body.experiences
+            ? {
+                experiences: {
+                  deleteMany: {},
+                  ...createExperiences(body.experiences)
+                }
               }
-            }
-          : {})
-      },
-      include: fullInclude
+            : {}),
+          ...(body.educations
+            ? {
+                educations: {
+                  deleteMany: {},
+                  ...createEducations(body.educations)
+                }
+              }
+            : {})
+        },
+        include: fullInclude
+      });
+
+      if (slugUpdate && slugUpdate !== existing.slug) {
+        await recordSlugChange(tx, {
+          entityType: 'PORTFOLIO',
+          entityId: id,
+          ownerId: userId,
+          from: existing.slug,
+          to: slugUpdate
+        });
+      }
+      return row;
     });
 
     return sendSuccess(res, serializePortfolio(updated));
@@ -400,11 +469,20 @@ export async function deletePortfolio(req: Request, res: Response) {
     const { id } = req.params;
     const existing = await prisma.portfolio.findFirst({
       where: { id, userId },
-      select: { id: true }
+      select: { id: true, slug: true }
     });
     if (!existing) return sendNotFound(res, 'Portfolio not found');
 
-    await prisma.portfolio.delete({ where: { id } }); // cascades
+    await prisma.$transaction(async tx => {
+      await deleteEntityAnalytics(tx, 'PORTFOLIO', id);
+      await tx.portfolio.delete({ where: { id } }); // cascades
+      await retireSlug(tx, {
+        entityType: 'PORTFOLIO',
+        entityId: id,
+        ownerId: userId,
+        slug: existing.slug
+      });
+    });
     return sendSuccess(res, { deleted: true });
   } catch (err: unknown) {
     return sendError(res, errMsg(err));
@@ -416,13 +494,35 @@ export async function getPublicPortfolioBySlug(req: Request, res: Response) {
   try {
     const { slug } = req.params;
 
-    const p = await prisma.portfolio.findFirst({
+    let p = await prisma.portfolio.findFirst({
       where: { slug, publishStatus: 'PUBLISHED' },
       include: fullInclude
     });
+    if (!p) {
+      // retired slug → serve the current portfolio with a redirect hint
+      const portfolioId = await resolveRetiredSlug('PORTFOLIO', slug);
+      p = portfolioId
+        ? await prisma.portfolio.findFirst({
+            where: { id: portfolioId, publishStatus: 'PUBLISHED' },
+            include: fullInclude
+          })
+        : null;
+    }
 
     if (!p) return sendNotFound(res, 'Portfolio not found');
-    return sendSuccess(res, serializePortfolio(p));
+    trackView(req, {
+      entityType: 'PORTFOLIO',
+      entityId: p.id,
+      ownerId: p.userId
+    });
+    const redirectTo =
+      p.slug !== slug
+        ? {
+            slug: p.slug,
+            path: `/portfolios/slug/${encodeURIComponent(p.slug)}`
+          }
+        : null;
+    return sendSuccess(res, { ...serializePortfolio(p), redirectTo });
   } catch (err: unknown) {
     return sendError(res, errMsg(err));
   }
@@ -9,6 +9,16 @@ import {
   sendConflict
 } from '../utils/responseHandler';
 import { updateMyProfileSchema } from '../schemas/profile';
+import { permissionsFor } from '../config/permissions';
+import { sendHandleViolation } from '../middlewares/validate';
+import { checkHandle } from '../utils/slugPolicy';
+import {
+  checkUsernameChange,
+  isUsernameChange,
+  resolveFormerUsername,
+  usernameHistoryCreate,
+  usernameKey
+} from '../services/usernameService';
 
 /* ==================== Helpers ==================== */
 
@@ -107,6 +117,7 @@ function serializeProfile(u: any, opts: { isOwner: boolean }) {
   if (opts.isOwner) {
     // 🔑 Expose role to the owner (needed by frontend to render Admin)
     base.role = u.role ?? 'USER';
+    base.permissions = permissionsFor(u.role);
 
     base.email = u.email ?? null;
     base.country = u.country ?? null;
@@ -153,13 +164,30 @@ export async function updateProfile(req: Request, res: Response) {
     // Validate body
     const input = updateMyProfileSchema.parse(req.body);
 
-    // username uniqueness (if changing)
+    // username: uniqueness, held handles and change rate limit (if changing)
+    const me = await prisma.user.findUnique({
+      where: { id: req.user.uid },
+      select: { username: true }
+    });
+    if (!me) return sendNotFound(res, 'User not found');
+
+    if (input.username && input.username !== me.username) {
+      // policy applies to new handles only; an existing one can be resent as-is
+      const violation = checkHandle(input.username, 'username');
+      if (violation) return sendHandleViolation(res, 'username', violation);
+    }
     if (input.username) {
-      const existing = await prisma.user.findFirst({
-        where: { username: input.username, NOT: { id: req.user.uid } },
-        select: { id: true }
-      });
-      if (existing) return sendConflict(res, 'Username is already taken');
+      const denial = await checkUsernameChange(
+        req.user.uid,
+        me.username,
+        input.username
+      );
+      if (denial?.code === 'USERNAME_CHANGE_RATE_LIMITED') {
+        return res
+          .status(429)
+          .json({ status: 'fail', message: denial.message, errors: denial });
+      }
+      if (denial) return sendConflict(res, denial.message);
     }
 
     // industries upsert (replace all if provided)
@@ -197,6 +225,7 @@ export async function updateProfile(req: Request, res: Response) {
     // Build data map; undefined => don't touch, null => clear (for nullable fields)
     const data: any = {
       username: input.username ?? undefined,
+      usernameKey: input.username ? usernameKey(input.username) : undefined,
       displayName: input.displayName ?? undefined,
       email: input.email ?? undefined,
       country: input.country ?? undefined,
@@ -213,7 +242,12 @@ export async function updateProfile(req: Request, res: Response) {
       showPhone: input.showPhone ?? undefined,
       showCountry: input.showCountry ?? undefined,
 
-      ...(industriesData ? { industries: industriesData } : {})
+      ...(industriesData ? { industries: industriesData } : {}),
+
+      // keep the old handle so /u/:old links keep resolving
+      ...(isUsernameChange(me.username, input.username)
+        ? { usernameHistory: usernameHistoryCreate(me.username!) }
+        : {})
     };
 
     // Allow clearing image columns by sending null; updating by sending string
@@ -240,13 +274,69 @@ export async function updateProfile(req: Request, res: Response) {
 export async function getPublicProfileByUsername(req: Request, res: Response) {
   const { username } = req.params;
   try {
-    const u = await prisma.user.findFirst({
+    let u = await prisma.user.findFirst({
       where: { username },
       include: { industries: { include: { industry: true } } }
     });
+
+    // old handle → serve the profile with a hint so the client can fix its URL
+    let redirectTo: { username: string; path: string } | null = null;
+    if (!u) {
+      const moved = await resolveFormerUsername(username);
+      if (moved) {
+        u = await prisma.user.findUnique({
+          where: { id: moved.userId },
+          include: { industries: { include: { industry: true } } }
+        });
+        redirectTo = {
+          username: moved.username,
+          path: `/u/${encodeURIComponent(moved.username)}`
+        };
+      }
+    }
+
     if (!u) return sendNotFound(res, 'User not found');
     const isOwner = req.user?.uid === u.id;
-    return sendSuccess(res, serializeProfile(u, { isOwner }), 'Profile');
+    return sendSuccess(
+      res,
+      { ...serializeProfile(u, { isOwner }), redirectTo },
+      redirectTo ? 'Profile (username changed)' : 'Profile'
+    );
+  } catch (e: unknown) {
+    return sendError(res, errMsg(e));
+  }
+}
+
+/**
+ * PUBLIC: GET /api/u/:username/resolve
+ * Current handle → 200; former handle → 301 to the current profile; else 404.
+ */
+export async function resolveUsername(req: Request, res: Response) {
+  const { username } = req.params;
+  try {
+    const current = await prisma.user.findFirst({
+      where: { username },
+      select: { id: true, username: true }
+    });
+    if (current) {
+      return sendSuccess(
+        res,
+        { userId: current.id, username: current.username, moved: false },
+        'Username'
+      );
+    }
+
+    const moved = await resolveFormerUsername(username);
+    if (!moved) return sendNotFound(res, 'User not found');
+
+    res.set('Cache-Control', 'public, max-age=300');
+    res.location(`/api/u/${encodeURIComponent(moved.username)}`);
+    return sendSuccess(
+      res,
+      { userId: moved.userId, username: moved.username, moved: true },
+      'Username changed',
+      301
+    );
   } catch (e: unknown) {
     return sendError(res, errMsg(e));
   }
@@ -0,0 +1,82 @@
+// src/controllers/publishScheduleController.ts
+import type { Request, Response } from 'express';
+import {
+  sendBadRequest,
+  sendError,
+  sendNotFound,
+  sendSuccess,
+  sendUnauthorized
+} from '../utils/responseHandler';
+import type { TokenScope } from '../config/scopes';
+import {
+  cancelSchedule,
+  listPendingSchedules,
+  type PublishableType
+} from '../services/publishScheduleService';
+
+function errMsg(e: unknown): string {
+  if (e instanceof Error) return e.message;
+  if (typeof e === 'string') return e;
+  try {
+    return JSON.stringify(e);
+  } catch {
+    return 'Unexpected error';
+  }
+}
+
+const READ_SCOPES: Record<PublishableType, TokenScope> = {
+  CARD: 'cards:read',
+  PORTFOLIO: 'portfolios:read',
+  CHALLENGE: 'challenges:read'
+};
+
+const LABELS: Record<PublishableType, string> = {
+  CARD: 'Card',
+  PORTFOLIO: 'Portfolio',
+  CHALLENGE: 'Challenge'
+};
+
+/**
+ * GET /api/me/publish-schedules — pending publish/unpublish times, soonest first.
+ * Tokens need at least one read scope (see the route) and only see the
+ * kinds they have a read scope for.
+ */
+export async function listMySchedules(req: Request, res: Response) {
+  const user = req.user;
+  if (!user?.uid) return sendUnauthorized(res);
+
+  try {
+    const types = (Object.keys(READ_SCOPES) as PublishableType[]).filter(
+      t => user.authType !== 'pat' || !!user.scopes?.includes(READ_SCOPES[t])
+    );
+    const items = await listPendingSchedules(user.uid, types);
+    return sendSuccess(res, { items }, 'Publish schedules');
+  } catch (e: unknown) {
+    return sendError(res, errMsg(e));
+  }
+}
+
+/** DELETE /api/{digital-name-cards|portfolios|challenges}/:id/schedule?which=publish|unpublish|all */
+export function cancelScheduleHandler(type: PublishableType) {
+  return async (req: Request, res: Response) => {
+    const uid = req.user?.uid;
+    if (!uid) return sendUnauthorized(res);
+
+    const which = (req.query.which as string | undefined) ?? 'all';
+    if (which !== 'publish' && which !== 'unpublish' && which !== 'all') {
+      return sendBadRequest(res, 'which must be publish, unpublish or all');
+    }
+
+    try {
+      const ok = await cancelSchedule(type, uid, req.params.id, which);
+      if (!ok) return sendNotFound(res, `${LABELS[type]} not found`);
+      return sendSuccess(
+        res,
+        { id: req.params.id, which },
+        'Schedule canceled'
+      );
+    } catch (e: unknown) {
+      return sendError(res, errMsg(e));
+    }
+  };
+}
@@ -0,0 +1,51 @@
+// src/controllers/qrController.ts
+import type { Request, Response } from 'express';
+import { sendError, sendNotFound } from '../utils/responseHandler';
+import type { QrQuery } from '../schemas/qr';
+import {
+  findCardQrTarget,
+  findChallengeQrTarget,
+  findPortfolioQrTarget,
+  renderQr
+} from '../services/qrService';
+
+function errMsg(e: unknown): string {
+  if (e instanceof Error) return e.message;
+  if (typeof e === 'string') return e;
+  try {
+    return JSON.stringify(e);
+  } catch {
+    return 'Unexpected error';
+  }
+}
+
+type Finder = typeof findCardQrTarget;
+
+function qrHandler(find: Finder, label: string) {
+  return async (req: Request, res: Response) => {
+    try {
+      const target = await find(req.params.slug);
+      if (!target) return sendNotFound(res, `${label} not found`);
+
+      const q = req.query as unknown as QrQuery;
+      const img = await renderQr(target, q);
+      res.set({
+        'Content-Type': img.contentType,
+        'Content-Disposition': `inline; filename="${target.slug}-qr.${q.format}"`,
+        'Cache-Control': 'public, max-age=300'
+      });
+      return res.status(200).send(img.body);
+    } catch (e: unknown) {
+      return sendError(res, errMsg(e));
+    }
+  };
+}
+
+/** GET /api/digital-name-card/slug/:slug/qr — public (published only) */
+export const getCardQr = qrHandler(findCardQrTarget, 'Card');
+
+/** GET /api/portfolios/slug/:slug/qr — public (published only) */
+export const getPortfolioQr = qrHandler(findPortfolioQrTarget, 'Portfolio');
+
+/** GET /api/challenges/slug/:slug/qr — public (published only) */
+export const getChallengeQr = qrHandler(findChallengeQrTarget, 'Challenge');
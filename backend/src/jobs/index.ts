@@ -0,0 +1,27 @@
+// src/jobs/index.ts
+import { runEvery, type JobHandle } from './scheduler.js';
+import { finalizeDueAccountDeletions } from '../services/accountDeletionService.js';
+import { runDataExportMaintenance } from '../services/dataExportService.js';
+import { runAnalyticsRollup } from '../services/analyticsService.js';
+import { runPublishSchedules } from '../services/publishScheduleService.js';
+import { runChallengeLifecycle } from '../services/challengeLifecycleService.js';
+import { runPayoutSync } from '../services/prizePayoutService.js';
+import { recordEndedImpersonations } from '../services/impersonationService.js';
+import { backfillUsernameKeys } from '../services/usernameService.js';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+/** Background jobs for this process (disable with JOBS_ENABLED=false on extra replicas) */
+export function startJobs(): JobHandle[] {
+  return [
+    runEvery('account-deletion', HOUR, finalizeDueAccountDeletions),
+    runEvery('data-exports', 5 * MINUTE, runDataExportMaintenance),
+    runEvery('analytics-rollup', 15 * MINUTE, runAnalyticsRollup),
+    runEvery('publish-schedules', MINUTE, runPublishSchedules),
+    runEvery('challenge-lifecycle', MINUTE, runChallengeLifecycle),
+    runEvery('prize-payouts', 15 * MINUTE, runPayoutSync),
+    runEvery('impersonation-ends', MINUTE, recordEndedImpersonations),
+    runEvery('username-keys', HOUR, backfillUsernameKeys)
+  ];
+}
@@ -0,0 +1,28 @@
+// src/jobs/scheduler.ts
+// Minimal in-process interval jobs. Runs never overlap; errors are logged, not thrown.
+
+export type JobHandle = { stop: () => void };
+
+export function runEvery(
+  name: string,
+  intervalMs: number,
+  task: () => Promise<unknown>
+): JobHandle {
+  let running = false;
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await task();
+    } catch (err) {
+      console.error(`[job:${name}] failed:`, err);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, intervalMs);
+  timer.unref(); // never keep the process alive just for jobs
+  return { stop: () => clearInterval(timer) };
+}
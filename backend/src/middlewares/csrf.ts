@@ -0,0 +1,74 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { Request, Response, NextFunction } from 'express';
+import { env } from '../config/env.js';
+import { readCsrfCookie, setCsrfCookie } from '../utils/sessionCookie.js';
+
+export const CSRF_HEADER = 'x-csrf-token';
+
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+function sign(nonce: string) {
+  return createHmac('sha256', env.SESSION_SECRET)
+    .update(`csrf.${nonce}`)
+    .digest('base64url');
+}
+
+/** "<nonce>.<hmac>" — signed so a cookie planted by a sibling subdomain is rejected */
+function isWellFormed(token: string) {
+  const [nonce, sig] = token.split('.');
+  if (!nonce || !sig) return false;
+  const expected = Buffer.from(sign(nonce));
+  const given = Buffer.from(sig);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+function sameToken(a: string, b: string) {
+  const x = Buffer.from(a);
+  const y = Buffer.from(b);
+  return x.length === y.length && timingSafeEqual(x, y);
+}
+
+/** Current CSRF token for this browser, minting (and setting) one if needed */
+export function issueCsrfToken(req: Request, res: Response): string {
+  const existing = readCsrfCookie(req);
+  if (existing && isWellFormed(existing)) return existing;
+
+  const nonce = randomBytes(32).toString('base64url');
+  const token = `${nonce}.${sign(nonce)}`;
+  setCsrfCookie(res, token);
+  return token;
+}
+
+function reject(res: Response, code: string, message: string) {
+  return res.status(403).json({
+    status: 'fail',
+    message,
+    errors: { code }
+  });
+}
+
+/**
+ * Double-submit check for cookie-authenticated mutations:
+ * the X-CSRF-Token header must echo the CSRF cookie.
+ * - safe methods pass
+ * - `Authorization: Bearer` requests pass (cookies are ignored for them)
+ * - webhooks are mounted before this middleware and never reach it
+ */
+export function verifyCsrf(req: Request, res: Response, next: NextFunction) {
+  if (SAFE_METHODS.has(req.method)) return next();
+  if (/^Bearer\s/i.test(req.headers.authorization ?? '')) return next();
+
+  const header = req.get(CSRF_HEADER);
+  const cookie = readCsrfCookie(req);
+  if (!header || !cookie) {
+    return reject(
+      res,
+      'CSRF_TOKEN_MISSING',
+      'Missing CSRF token (GET /api/session/csrf, then send it as X-CSRF-Token)'
+    );
+  }
+  if (!isWellFormed(cookie) || !sameToken(header, cookie)) {
+    return reject(res, 'CSRF_TOKEN_INVALID', 'Invalid CSRF token');
+  }
+  next();
+}
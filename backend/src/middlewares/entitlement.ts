@@ -0,0 +1,46 @@
+import type { Request, Response, NextFunction } from 'express';
+import {
+  checkFeature,
+  type EntitlementDenial,
+  type FeatureKey
+} from '../services/entitlementService.js';
+import { sendPaymentRequired } from '../utils/responseHandler.js';
+
+/**
+ * 402 when a higher plan unlocks it (client shows upgrade CTA),
+ * 403 when no plan does.
+ */
+export function sendEntitlementDenied(
+  res: Response,
+  denial: EntitlementDenial
+) {
+  const { message, ...errors } = denial;
+  if (denial.requiredPlan) return sendPaymentRequired(res, message, errors);
+  return res.status(403).json({ status: 'fail', message, errors });
+}
+
+/**
+ * Gate a route on a plan feature.
+ * `when` limits the check to requests that actually use the feature
+ * (e.g. only when a custom slug is sent).
+ */
+export function requireEntitlement(
+  feature: FeatureKey,
+  opts: { when?: (req: Request) => boolean } = {}
+) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const uid = req.user?.uid;
+    if (!uid) {
+      return res.status(401).json({ status: 'fail', message: 'Unauthorized' });
+    }
+    if (opts.when && !opts.when(req)) return next();
+
+    try {
+      const denial = await checkFeature(uid, feature);
+      if (denial) return sendEntitlementDenied(res, denial);
+      next();
+    } catch (err) {
+      next(err);
+    }
+  };
+}
@@ -0,0 +1,26 @@
+import type { Request, Response, NextFunction } from 'express';
+import type { Permission } from '../config/permissions.js';
+
+/**
+ * Require ALL of the given permissions.
+ * Relies on req.user.permissions, resolved once per request by attachUserFromSession.
+ */
+export function requirePermission(...needed: Permission[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const user = req.user;
+    if (!user) {
+      return res.status(401).json({ status: 'fail', message: 'Unauthorized' });
+    }
+
+    const granted = user.permissions ?? [];
+    const missing = needed.filter(p => !granted.includes(p));
+    if (missing.length) {
+      return res.status(403).json({
+        status: 'fail',
+        message: 'Forbidden: missing permission',
+        errors: { code: 'PERMISSION_DENIED', missing }
+      });
+    }
+    next();
+  };
+}
@@ -0,0 +1,18 @@
+// src/middlewares/rateLimit.ts
+// Tighter per-route limits on top of the global one in app.ts.
+import rateLimit from 'express-rate-limit';
+
+/** Public card contact form: a few messages per visitor per card */
+export const cardContactRateLimit = rateLimit({
+  windowMs: 15 * 60_000,
+  limit: 5,
+  standardHeaders: 'draft-7',
+  legacyHeaders: false,
+  keyGenerator: req => `${req.ip}:${req.params.slug}`,
+  handler: (_req, res) =>
+    res.status(429).json({
+      status: 'fail',
+      message: 'Too many messages, please try again later',
+      errors: { code: 'RATE_LIMITED' }
+    })
+});
@@ -1,13 +1,105 @@
 import type { Request, Response, NextFunction } from 'express';
-import { readSessionCookie } from '../utils/sessionCookie.js';
+import {
+  clearAccessCookie,
+  clearSessionCookie,
+  readRefreshCookie,
+  readSessionCookie,
+  RENEW_WITHIN_SECONDS
+} from '../utils/sessionCookie.js';
+import {
+  getActiveSession,
+  refreshSession,
+  renewAccessCookie
+} from '../services/sessionService.js';
+import { permissionsFor } from '../config/permissions.js';
+import type { TokenScope } from '../config/scopes.js';
+import {
+  authenticatePersonalAccessToken,
+  isPersonalAccessToken
+} from '../services/personalAccessTokenService.js';
+import { buildSessionPayload } from '../services/sessionService.js';
 
-export function attachUserFromSession(
+function bearerToken(req: Request): string | null {
+  const m = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization ?? '');
+  return m ? m[1] : null;
+}
+
+/** Bearer PATs act as their owner, limited to the token's scopes (never admin) */
+async function resolveBearer(raw: string) {
+  if (!isPersonalAccessToken(raw)) return null;
+  const auth = await authenticatePersonalAccessToken(raw);
+  if (!auth) return null;
+  return {
+    ...buildSessionPayload(auth.user, null),
+    authType: 'pat' as const,
+    scopes: auth.scopes,
+    permissions: []
+  };
+}
+
+async function resolveSession(req: Request, res: Response) {
+  const sess = readSessionCookie(req);
+  const now = Math.floor(Date.now() / 1000);
+
+  if (sess) {
+    const active = sess.sid
+      ? await getActiveSession(sess.sid, { ip: req.ip })
+      : null;
+    if (active && active.userId === sess.uid) {
+      // impersonation sessions are short-lived by design: never renewed
+      if (sess.imp || !sess.exp || sess.exp - now > RENEW_WITHIN_SECONDS) {
+        // role comes from the session lookup, so demotions apply immediately
+        return { ...sess, role: active.user.role };
+      }
+
+      const renewed = await renewAccessCookie(res, sess.uid, active.id);
+      if (!renewed) clearSessionCookie(res);
+      return renewed;
+    }
+
+    // revoked/expired: drop the access cookie and let the refresh cookie decide
+    // (after impersonation ends this restores the admin's own session)
+    clearAccessCookie(res);
+  }
+
+  const refresh = readRefreshCookie(req);
+  const refreshed = refresh ? await refreshSession(res, refresh) : null;
+  if (refresh && !refreshed) clearSessionCookie(res);
+  return refreshed;
+}
+
+/**
+ * Attach req.user (with its role's permissions) from the access cookie,
+ * or from `Authorization: Bearer <pat>` when that header is present.
+ * - its Session row must still be active (revoked/banned → signed out)
+ * - close to expiry → re-issued from the DB row (picks up role/username changes)
+ * - expired/missing → exchanged via the refresh cookie (rotated on use)
+ */
+export async function attachUserFromSession(
   req: Request,
-  _res: Response,
+  res: Response,
   next: NextFunction
 ) {
-  (req as any).user = readSessionCookie(req); 
-  next();
+  try {
+    const bearer = bearerToken(req);
+    if (bearer) {
+      // an explicit bearer never falls back to cookies
+      req.user = await resolveBearer(bearer);
+      return next();
+    }
+
+    const user = await resolveSession(req, res);
+    req.user = user
+      ? {
+          ...user,
+          authType: 'session',
+          permissions: permissionsFor(user.role)
+        }
+      : null;
+    next();
+  } catch (err) {
+    next(err);
+  }
 }
 
 export function requireSession(
@@ -20,3 +112,84 @@ export function requireSession(
   }
   next();
 }
+
+/**
+ * Declare the token scope a route needs. Cookie sessions always pass;
+ * personal access tokens must carry the scope.
+ */
+export function requireScope(scope: TokenScope) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const user = req.user;
+    if (!user) {
+      return res.status(401).json({ status: 'fail', message: 'Unauthorized' });
+    }
+    if (user.authType === 'pat' && !user.scopes?.includes(scope)) {
+      return res.status(403).json({
+        status: 'fail',
+        message: `Token is missing the "${scope}" scope`,
+        errors: { code: 'INSUFFICIENT_SCOPE', scope }
+      });
+    }
+    next();
+  };
+}
+
+/**
+ * For routes that serve several kinds of content and filter by scope:
+ * a personal access token needs at least one of `scopes`.
+ */
+export function requireAnyScope(...scopes: TokenScope[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const user = req.user;
+    if (!user) {
+      return res.status(401).json({ status: 'fail', message: 'Unauthorized' });
+    }
+    if (
+      user.authType === 'pat' &&
+      !scopes.some(scope => user.scopes?.includes(scope))
+    ) {
+      return res.status(403).json({
+        status: 'fail',
+        message: `Token needs one of the scopes: ${scopes.join(', ')}`,
+        errors: { code: 'INSUFFICIENT_SCOPE', scopes }
+      });
+    }
+    next();
+  };
+}
+
+/** Billing, tokens and account deletion stay off-limits while impersonating */
+export function forbidImpersonation(
+  req: Request,
+  res: Response,
+  next: NextFunction
+) {
+  if (req.user?.imp) {
+    return res.status(403).json({
+      status: 'fail',
+      message: 'Not available while impersonating a user',
+      errors: { code: 'IMPERSONATION_FORBIDDEN' }
+    });
+  }
+  next();
+}
+
+/** For account-level routes (billing, sessions, tokens) that tokens must never reach */
+export function requireCookieSession(
+  req: Request,
+  res: Response,
+  next: NextFunction
+) {
+  const user = req.user;
+  if (!user) {
+    return res.status(401).json({ status: 'fail', message: 'Unauthorized' });
+  }
+  if (user.authType === 'pat') {
+    return res.status(403).json({
+      status: 'fail',
+      message: 'This endpoint is not available to access tokens',
+      errors: { code: 'SESSION_REQUIRED' }
+    });
+  }
+  next();
+}
@@ -1,6 +1,7 @@
 import type { NextFunction, Request, Response } from 'express';
 import type { ZodSchema } from 'zod';
 import { sendBadRequest } from '../utils/responseHandler';
+import type { SlugPolicyViolation } from '../utils/slugPolicy';
 
 export function validateBody(schema: ZodSchema) {
   return (req: Request, res: Response, next: NextFunction) => {
@@ -13,3 +14,32 @@ export function validateBody(schema: ZodSchema) {
     next();
   };
 }
+
+/** Like validateBody, for query strings (parsed values replace req.query) */
+export function validateQuery(schema: ZodSchema) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const parsed = schema.safeParse(req.query);
+    if (!parsed.success) {
+      return sendBadRequest(res, 'Validation error', parsed.error.format());
+    }
+    req.query = parsed.data as any;
+    next();
+  };
+}
+
+/** Same 400 body as validateBody, for a field checked in a controller */
+export function sendFieldError(res: Response, field: string, message: string) {
+  return sendBadRequest(res, 'Validation error', {
+    _errors: [],
+    [field]: { _errors: [message] }
+  });
+}
+
+/** For handles checked in a controller (e.g. only when a slug actually changes) */
+export function sendHandleViolation(
+  res: Response,
+  field: string,
+  violation: SlugPolicyViolation
+) {
+  return sendFieldError(res, field, violation.message);
+}
@@ -0,0 +1,55 @@
+// src/routes/accountRoutes.ts
+import { Router } from 'express';
+import {
+  forbidImpersonation,
+  requireCookieSession
+} from '../middlewares/session';
+import { validateBody } from '../middlewares/validate';
+import { deleteAccountSchema } from '../schemas/account';
+import {
+  cancelMyAccountDeletion,
+  deleteMyAccount,
+  getMyAccountDeletion
+} from '../controllers/accountController';
+import {
+  createMyExport,
+  downloadMyExport,
+  getMyExport,
+  getMyLatestExport
+} from '../controllers/dataExportController';
+
+const router = Router();
+
+// Account lifecycle is cookie-only and never available to an impersonating admin
+router.delete(
+  '/me',
+  requireCookieSession,
+  forbidImpersonation,
+  validateBody(deleteAccountSchema),
+  deleteMyAccount
+);
+router.get('/me/deletion', requireCookieSession, getMyAccountDeletion);
+router.post(
+  '/me/deletion/cancel',
+  requireCookieSession,
+  forbidImpersonation,
+  cancelMyAccountDeletion
+);
+
+// Data export ("download my data") — the archive holds private fields
+router.post(
+  '/me/export',
+  requireCookieSession,
+  forbidImpersonation,
+  createMyExport
+);
+router.get('/me/export', requireCookieSession, getMyLatestExport);
+router.get('/me/export/:id', requireCookieSession, getMyExport);
+router.get(
+  '/me/export/:id/download',
+  requireCookieSession,
+  forbidImpersonation,
+  downloadMyExport
+);
+
+export default router;
@@ -1,25 +1,81 @@
 // src/routes/adminRoutes.ts
 import { Router } from 'express';
 import { requireSession } from '../middlewares/session';
-import { adminOnly } from '../middlewares/adminOnly';
+import { requirePermission } from '../middlewares/permission';
 import {
   getStats,
   listUsers,
   listChallenges,
   listDigitalCards,
-  listPortfolios
+  listPortfolios,
+  updateUserRole,
+  banUser,
+  unbanUser,
+  impersonateUser,
+  takeDownCard,
+  takeDownPortfolio,
+  takeDownChallenge,
+  liftCardTakedown,
+  liftPortfolioTakedown,
+  liftChallengeTakedown
   // listProfiles // <- only if you keep the alias
 } from '../controllers/adminController';
 
 const r = Router();
 
-r.use(requireSession, adminOnly);
+// Every admin route needs the area permission + its own (see config/permissions.ts)
+r.use(requireSession, requirePermission('admin.access'));
 
-r.get('/stats', getStats);
-r.get('/users', listUsers);
-r.get('/challenges', listChallenges);
-r.get('/cards', listDigitalCards);
-r.get('/portfolios', listPortfolios);
+r.get('/stats', requirePermission('stats.read'), getStats);
+r.get('/users', requirePermission('users.read'), listUsers);
+r.get('/challenges', requirePermission('content.read'), listChallenges);
+r.get('/cards', requirePermission('content.read'), listDigitalCards);
+r.get('/portfolios', requirePermission('content.read'), listPortfolios);
+
+/** Moderation */
+r.patch(
+  '/users/:id/role',
+  requirePermission('users.roles.manage'),
+  updateUserRole
+);
+r.post('/users/:id/ban', requirePermission('users.ban'), banUser);
+r.delete('/users/:id/ban', requirePermission('users.ban'), unbanUser);
+r.post(
+  '/users/:id/impersonate',
+  requirePermission('users.impersonate'),
+  impersonateUser
+);
+
+r.post(
+  '/cards/:id/takedown',
+  requirePermission('content.takedown'),
+  takeDownCard
+);
+r.post(
+  '/portfolios/:id/takedown',
+  requirePermission('content.takedown'),
+  takeDownPortfolio
+);
+r.post(
+  '/challenges/:id/takedown',
+  requirePermission('content.takedown'),
+  takeDownChallenge
+);
+r.delete(
+  '/cards/:id/takedown',
+  requirePermission('content.takedown'),
+  liftCardTakedown
+);
+r.delete(
+  '/portfolios/:id/takedown',
+  requirePermission('content.takedown'),
+  liftPortfolioTakedown
+);
+r.delete(
+  '/challenges/:id/takedown',
+  requirePermission('content.takedown'),
+  liftChallengeTakedown
+);
 
 // Option A: remove this entirely (recommended if you don't use it)
 // r.get('/profiles', listProfiles);
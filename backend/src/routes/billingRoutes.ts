@@ -1,12 +1,32 @@
 // src/routes/billingRoutes.ts
 import { Router } from 'express';
 import { billingController } from '../controllers/billingController.js';
+import {
+  forbidImpersonation,
+  requireCookieSession
+} from '../middlewares/session.js';
 
 const router = Router();
 
-router.post('/billing/checkout', billingController.createCheckoutSession);
-router.get('/billing/finalize', billingController.finalizeFromCheckout);
-router.post('/billing/portal', billingController.createBillingPortal);
-router.get('/billing/invoices', billingController.listInvoices);
+// Billing is account-level: cookie sessions only, never access tokens,
+// and never an admin acting as the user
+const accountOnly = [requireCookieSession, forbidImpersonation];
+
+router.post(
+  '/billing/checkout',
+  ...accountOnly,
+  billingController.createCheckoutSession
+);
+router.get(
+  '/billing/finalize',
+  ...accountOnly,
+  billingController.finalizeFromCheckout
+);
+router.post(
+  '/billing/portal',
+  ...accountOnly,
+  billingController.createBillingPortal
+);
+router.get('/billing/invoices', ...accountOnly, billingController.listInvoices);
 
 export default router;
@@ -1,6 +1,7 @@
 import { Router } from 'express';
-import { requireSession } from '../middlewares/session';
-import { validateBody } from '../middlewares/validate';
+import { requireSession, requireScope } from '../middlewares/session';
+import { validateBody, validateQuery } from '../middlewares/validate';
+import { requireEntitlement } from '../middlewares/entitlement';
 import {
   createChallenge,
   listMyChallenges,
@@ -13,42 +14,73 @@ import {
   listSubmissions,
   listMySubmissions,
   withdrawMySubmission,
-  updateSubmissionStatus
+  updateSubmissionStatus,
+  getSubmissionStatusHistory,
+  putPrizeAwards,
+  postAnnounceResults
 } from '../controllers/challengeController';
+import { getChallengeQr } from '../controllers/qrController';
 import {
   createChallengeSchema,
   updateChallengeSchema,
-  submitEntrySchema
+  submitEntrySchema,
+  updateSubmissionStatusSchema,
+  setPrizeAwardsSchema
 } from '../schemas/challenge';
+import { qrQuerySchema } from '../schemas/qr';
 
 const router = Router();
 
 /** Public listing & fetch by slug */
 router.get('/challenges/public', listPublicChallenges);
 router.get('/challenges/slug/:slug', getPublicChallengeBySlug);
+router.get(
+  '/challenges/slug/:slug/qr',
+  validateQuery(qrQuerySchema),
+  getChallengeQr
+);
 
 /** Owner CRUD */
 router.post(
   '/challenges',
   requireSession,
+  requireScope('challenges:write'),
   validateBody(createChallengeSchema),
+  requireEntitlement('customSlug', { when: req => !!req.body?.slug }),
   createChallenge
 );
-router.get('/challenges', requireSession, listMyChallenges);
-router.get('/challenges/:id', requireSession, getMyChallengeById);
+router.get(
+  '/challenges',
+  requireSession,
+  requireScope('challenges:read'),
+  listMyChallenges
+);
+router.get(
+  '/challenges/:id',
+  requireSession,
+  requireScope('challenges:read'),
+  getMyChallengeById
+);
 router.patch(
   '/challenges/:id',
   requireSession,
+  requireScope('challenges:write'),
   validateBody(updateChallengeSchema),
   updateChallenge
 );
-router.delete('/challenges/:id', requireSession, deleteChallenge);
+router.delete(
+  '/challenges/:id',
+  requireSession,
+  requireScope('challenges:write'),
+  deleteChallenge
+);
 
 /** Submissions */
 // Create my submission
 router.post(
   '/challenges/:id/submissions',
   requireSession,
+  requireScope('submissions:write'),
   validateBody(submitEntrySchema),
   createSubmission
 );
@@ -60,17 +92,47 @@ router.get('/challenges/:id/submissions', listSubmissions);
 router.delete(
   '/challenges/:id/submissions',
   requireSession,
+  requireScope('submissions:write'),
   withdrawMySubmission
 );
 
 // List all my submissions across challenges
-router.get('/submissions', requireSession, listMySubmissions);
+router.get(
+  '/submissions',
+  requireSession,
+  requireScope('submissions:read'),
+  listMySubmissions
+);
 
 /** Owner moderation of submissions */
 router.patch(
   '/challenges/:challengeId/submissions/:submissionId/status',
   requireSession,
+  requireScope('challenges:write'),
+  validateBody(updateSubmissionStatusSchema),
   updateSubmissionStatus
 );
 
+/** Winners: draft prize awards while judging, then announce them */
+router.put(
+  '/challenges/:id/awards',
+  requireSession,
+  requireScope('challenges:write'),
+  validateBody(setPrizeAwardsSchema),
+  putPrizeAwards
+);
+router.post(
+  '/challenges/:id/results',
+  requireSession,
+  requireScope('challenges:write'),
+  postAnnounceResults
+);
+
+// Status history, for the challenge owner or the submitter
+router.get(
+  '/challenges/:challengeId/submissions/:submissionId/history',
+  requireSession,
+  getSubmissionStatusHistory
+);
+
 export default router;
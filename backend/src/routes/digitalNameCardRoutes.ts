@@ -1,19 +1,33 @@
 import { Router } from 'express';
-import { requireSession } from '../middlewares/session';
-import { validateBody } from '../middlewares/validate';
+import { requireSession, requireScope } from '../middlewares/session';
+import { validateBody, validateQuery } from '../middlewares/validate';
 import {
   createDigitalCardSchema,
   updateDigitalCardSchema
 } from '../schemas/digitalNameCard';
+import { qrQuerySchema } from '../schemas/qr';
+import { analyticsQuerySchema } from '../schemas/analytics';
+import { cardContactSchema, updateCardLeadSchema } from '../schemas/cardLead';
+import { cardContactRateLimit } from '../middlewares/rateLimit';
 import {
   createCard,
   getPublicCardBySlug,
+  getPublicCardVCard,
+  followSocialLink,
+  submitCardContact,
   listMyCards,
   updateCard,
   getMyCardById,
   deleteCard,
   listPublishedCards
 } from '../controllers/digitalNameCardController';
+import { getCardQr } from '../controllers/qrController';
+import { getCardAnalytics } from '../controllers/analyticsController';
+import {
+  exportLeads,
+  listLeads,
+  updateLead
+} from '../controllers/cardLeadController';
 
 const router = Router();
 
@@ -21,17 +35,57 @@ const router = Router();
 router.post(
   '/digital-name-cards',
   requireSession,
+  requireScope('cards:write'),
   validateBody(createDigitalCardSchema),
   createCard
 ); 
-router.get('/me/digital-name-cards', requireSession, listMyCards);
+router.get(
+  '/me/digital-name-cards',
+  requireSession,
+  requireScope('cards:read'),
+  listMyCards
+);
 
 // handy for edit page prefill
-router.get('/digital-name-cards/:id', requireSession, getMyCardById);
+router.get(
+  '/digital-name-cards/:id',
+  requireSession,
+  requireScope('cards:read'),
+  getMyCardById
+);
+router.get(
+  '/digital-name-cards/:id/analytics',
+  requireSession,
+  requireScope('cards:read'),
+  validateQuery(analyticsQuerySchema),
+  getCardAnalytics
+);
+
+/** Leads (contact details visitors left on the card) */
+router.get(
+  '/digital-name-cards/:id/leads',
+  requireSession,
+  requireScope('cards:read'),
+  listLeads
+);
+router.get(
+  '/digital-name-cards/:id/leads/export',
+  requireSession,
+  requireScope('cards:read'),
+  exportLeads
+);
+router.patch(
+  '/digital-name-cards/:id/leads/:leadId',
+  requireSession,
+  requireScope('cards:write'),
+  validateBody(updateCardLeadSchema),
+  updateLead
+);
 
 router.patch(
   '/digital-name-cards/:id',
   requireSession,
+  requireScope('cards:write'),
   validateBody(updateDigitalCardSchema),
   updateCard
 );
@@ -39,9 +93,29 @@ router.patch(
 /** Public */
 // Public by vanity slug
 router.get('/digital-name-card/slug/:slug', getPublicCardBySlug);
+router.get('/digital-name-card/slug/:slug/vcard', getPublicCardVCard);
+router.get(
+  '/digital-name-card/slug/:slug/qr',
+  validateQuery(qrQuerySchema),
+  getCardQr
+);
+router.post(
+  '/digital-name-card/slug/:slug/contact',
+  cardContactRateLimit,
+  validateBody(cardContactSchema),
+  submitCardContact
+);
 
 router.get('/digital-name-cards', listPublishedCards);
 
-router.delete('/digital-name-cards/:id', requireSession, deleteCard);
+// Click-through for social links (counts clicks, 302 to the target)
+router.get('/go/:socialId', followSocialLink);
+
+router.delete(
+  '/digital-name-cards/:id',
+  requireSession,
+  requireScope('cards:write'),
+  deleteCard
+);
 
 export default router;
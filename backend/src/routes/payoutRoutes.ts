@@ -0,0 +1,57 @@
+// src/routes/payoutRoutes.ts
+import { Router } from 'express';
+import {
+  forbidImpersonation,
+  requireCookieSession,
+  requireScope,
+  requireSession
+} from '../middlewares/session';
+import {
+  createPayoutOnboarding,
+  fundPayouts,
+  getMyPayoutAccount,
+  listMyPrizePayouts,
+  listPayoutsForChallenge,
+  sendPayout
+} from '../controllers/payoutController';
+
+const router = Router();
+
+// Setting up a payout account and moving money are account-level, like billing:
+// cookie sessions only, never an admin acting as the user
+const accountOnly = [requireCookieSession, forbidImpersonation];
+
+/** Winners */
+router.get(
+  '/me/payout-account',
+  requireSession,
+  requireScope('profile:read'),
+  getMyPayoutAccount
+);
+router.post(
+  '/me/payout-account/onboarding',
+  ...accountOnly,
+  createPayoutOnboarding
+);
+router.get(
+  '/me/payouts',
+  requireSession,
+  requireScope('submissions:read'),
+  listMyPrizePayouts
+);
+
+/** Challenge owners */
+router.get(
+  '/challenges/:id/payouts',
+  requireSession,
+  requireScope('challenges:read'),
+  listPayoutsForChallenge
+);
+router.post('/challenges/:id/payouts/funding', ...accountOnly, fundPayouts);
+router.post(
+  '/challenges/:id/payouts/:payoutId/send',
+  ...accountOnly,
+  sendPayout
+);
+
+export default router;
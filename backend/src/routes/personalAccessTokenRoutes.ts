@@ -0,0 +1,34 @@
+// src/routes/personalAccessTokenRoutes.ts
+import { Router } from 'express';
+import {
+  forbidImpersonation,
+  requireCookieSession
+} from '../middlewares/session';
+import { validateBody } from '../middlewares/validate';
+import { createTokenSchema } from '../schemas/personalAccessToken';
+import {
+  listMyTokens,
+  createMyToken,
+  revokeMyToken
+} from '../controllers/personalAccessTokenController';
+
+const router = Router();
+
+// Token management itself is cookie-only: a token can't mint or revoke tokens,
+// and an impersonating admin can't mint one that outlives the support session
+router.get('/me/tokens', requireCookieSession, listMyTokens);
+router.post(
+  '/me/tokens',
+  requireCookieSession,
+  forbidImpersonation,
+  validateBody(createTokenSchema),
+  createMyToken
+);
+router.delete(
+  '/me/tokens/:id',
+  requireCookieSession,
+  forbidImpersonation,
+  revokeMyToken
+);
+
+export default router;
@@ -1,11 +1,14 @@
 // src/routes/portfolioRoutes.ts
 import { Router } from 'express';
-import { requireSession } from '../middlewares/session';
-import { validateBody } from '../middlewares/validate';
+import { requireSession, requireScope } from '../middlewares/session';
+import { validateBody, validateQuery } from '../middlewares/validate';
+import { requireEntitlement } from '../middlewares/entitlement';
 import {
   createPortfolioSchema,
   updatePortfolioSchema
 } from '../schemas/portfolio';
+import { qrQuerySchema } from '../schemas/qr';
+import { analyticsQuerySchema } from '../schemas/analytics';
 import {
   createPortfolio,
   listPortfoliosMine,
@@ -16,33 +19,66 @@ import {
   prefillPortfolioFromCard,
   listPublicPortfolios
 } from '../controllers/portfolioController';
+import { getPortfolioQr } from '../controllers/qrController';
+import { getPortfolioAnalytics } from '../controllers/analyticsController';
 
 const router = Router();
 
 /** ---- PUBLIC ---- */
 router.get('/portfolios/slug/:slug', getPublicPortfolioBySlug);
+router.get(
+  '/portfolios/slug/:slug/qr',
+  validateQuery(qrQuerySchema),
+  getPortfolioQr
+);
 router.get('/portfolios/public', listPublicPortfolios);
 
 router.get(
   '/portfolios/prefill-from-card/:cardId',
   requireSession,
+  requireScope('portfolios:read'),
   prefillPortfolioFromCard
 );
 
 router.post(
   '/portfolios',
   requireSession,
+  requireScope('portfolios:write'),
   validateBody(createPortfolioSchema),
+  requireEntitlement('customSlug', { when: req => !!req.body?.slug }),
   createPortfolio
 );
-router.get('/portfolios', requireSession, listPortfoliosMine);
-router.get('/portfolios/:id', requireSession, getMyPortfolioById);
+router.get(
+  '/portfolios',
+  requireSession,
+  requireScope('portfolios:read'),
+  listPortfoliosMine
+);
+router.get(
+  '/portfolios/:id',
+  requireSession,
+  requireScope('portfolios:read'),
+  getMyPortfolioById
+);
+router.get(
+  '/portfolios/:id/analytics',
+  requireSession,
+  requireScope('portfolios:read'),
+  validateQuery(analyticsQuerySchema),
+  getPortfolioAnalytics
+);
 router.patch(
   '/portfolios/:id',
   requireSession,
+  requireScope('portfolios:write'),
   validateBody(updatePortfolioSchema),
   updatePortfolio
 );
-router.delete('/portfolios/:id', requireSession, deletePortfolio);
+router.delete(
+  '/portfolios/:id',
+  requireSession,
+  requireScope('portfolios:write'),
+  deletePortfolio
+);
 
 export default router;
@@ -1,11 +1,12 @@
 // src/routes/profileRoutes.ts
 import { Router } from 'express';
-import { requireSession } from '../middlewares/session';
+import { requireSession, requireScope } from '../middlewares/session';
 import { validateBody } from '../middlewares/validate';
 import {
   getProfile,
   updateProfile,
   getPublicProfileByUsername,
+  resolveUsername,
   getPublicProfileById,
   listPublicProfiles
 } from '../controllers/profileController';
@@ -15,14 +16,21 @@ const router = Router();
 
 /** Public: by username or id */
 router.get('/u/:username', getPublicProfileByUsername);
+router.get('/u/:username/resolve', resolveUsername); // 301 for former usernames
 router.get('/u/id/:id', getPublicProfileById);
 router.get('/profiles/public', listPublicProfiles);
 
 /** Authenticated: self */
-router.get('/profile', requireSession, getProfile);
+router.get(
+  '/profile',
+  requireSession,
+  requireScope('profile:read'),
+  getProfile
+);
 router.patch(
   '/profile',
   requireSession,
+  requireScope('profile:write'),
   validateBody(updateMyProfileSchema),
   updateProfile
 );
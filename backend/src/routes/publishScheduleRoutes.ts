@@ -0,0 +1,41 @@
+// src/routes/publishScheduleRoutes.ts
+import { Router } from 'express';
+import {
+  requireAnyScope,
+  requireScope,
+  requireSession
+} from '../middlewares/session';
+import {
+  cancelScheduleHandler,
+  listMySchedules
+} from '../controllers/publishScheduleController';
+
+const router = Router();
+
+router.get(
+  '/me/publish-schedules',
+  requireSession,
+  requireAnyScope('cards:read', 'portfolios:read', 'challenges:read'),
+  listMySchedules
+);
+
+router.delete(
+  '/digital-name-cards/:id/schedule',
+  requireSession,
+  requireScope('cards:write'),
+  cancelScheduleHandler('CARD')
+);
+router.delete(
+  '/portfolios/:id/schedule',
+  requireSession,
+  requireScope('portfolios:write'),
+  cancelScheduleHandler('PORTFOLIO')
+);
+router.delete(
+  '/challenges/:id/schedule',
+  requireSession,
+  requireScope('challenges:write'),
+  cancelScheduleHandler('CHALLENGE')
+);
+
+export default router;
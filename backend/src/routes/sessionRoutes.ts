@@ -1,21 +1,51 @@
 import { Router } from 'express';
 import {
   sendBadRequest,
+  sendForbidden,
+  sendNotFound,
   sendSuccess,
   sendUnauthorized
 } from '../utils/responseHandler.js';
 import {
-  setSessionCookie,
-  clearSessionCookie
+  clearSessionCookie,
+  readRefreshCookie
 } from '../utils/sessionCookie.js';
 import { upsertUserFromClerk } from '../services/userService.js';
+import {
+  listActiveSessions,
+  refreshSession,
+  revokeOtherSessions,
+  revokeSession,
+  startSession
+} from '../services/sessionService.js';
+import { stopImpersonation } from '../services/impersonationService.js';
+import {
+  forbidImpersonation,
+  requireCookieSession
+} from '../middlewares/session.js';
+import { CSRF_HEADER, issueCsrfToken } from '../middlewares/csrf.js';
 import { createClerkClient, verifyToken } from '@clerk/backend';
 import { env } from '../config/env.js';
 import { prisma } from '../config/prisma.js';
+import {
+  entitlementsFor,
+  getEffectivePlan
+} from '../services/entitlementService.js';
 
 const router = Router();
 const clerk = createClerkClient({ secretKey: env.CLERK_SECRET_KEY });
 
+/**
+ * GET /api/session/csrf
+ * Token to send back as `X-CSRF-Token` on every non-GET request.
+ * Stable for the browser (cookie-backed), so it can be fetched once at boot.
+ */
+router.get('/session/csrf', (req, res) => {
+  res.set('Cache-Control', 'no-store');
+  const token = issueCsrfToken(req, res);
+  return sendSuccess(res, { token, header: CSRF_HEADER }, 'CSRF token');
+});
+
 /**
  * POST /api/session/login
  * Body: { token: "<Clerk JWT>", sensitive?: { phone?, religion?, country? } }
@@ -32,6 +62,15 @@ router.post('/session/login', async (req, res) => {
     const clerkUserId = verified.sub;
     if (!clerkUserId) return sendUnauthorized(res, 'Invalid token');
 
+    // checked before the upsert: it would write Clerk's profile back over an
+    // anonymized (deactivated) row
+    const known = await prisma.user.findUnique({
+      where: { clerkId: clerkUserId },
+      select: { bannedAt: true, deactivatedAt: true }
+    });
+    if (known?.bannedAt) return sendForbidden(res, 'Account suspended');
+    if (known?.deactivatedAt) return sendForbidden(res, 'Account deactivated');
+
     // Load full Clerk user
     const cu = await clerk.users.getUser(clerkUserId);
 
@@ -63,21 +102,12 @@ router.post('/session/login', async (req, res) => {
       avatarUrl: avatarUrl ?? undefined,
       country: sensitive.country ?? undefined,
       phone: sensitive.phone ?? undefined,
-      religion: sensitive.religion ?? undefined
+      religion: sensitive.religion ?? undefined,
+      asOf: new Date(cu.updatedAt)
     });
 
-    // Set signed, httpOnly cookie (your existing util)
-    setSessionCookie(res, {
-      uid: user.id,
-      cid: user.clerkId,
-      username: user.username ?? null,
-      email: user.email ?? null,
-      displayName: user.displayName,
-      avatarUrl: user.avatarUrl ?? null,
-      phone: user.phone ?? null,
-      religion: user.religion ?? null,
-      country: user.country ?? null
-    });
+    // Signed, httpOnly access cookie + rotating refresh cookie
+    await startSession(res, req, user);
 
     return sendSuccess(res, { userId: user.id }, 'Logged in');
   } catch (err: any) {
@@ -85,12 +115,98 @@ router.post('/session/login', async (req, res) => {
   }
 });
 
-/** POST /api/session/logout */
-router.post('/session/logout', async (_req, res) => {
+/**
+ * POST /api/session/refresh
+ * Rotates the refresh cookie and re-issues the access cookie from the DB row.
+ * The refresh cookie is always the admin's own, so refreshing while
+ * impersonating ends the impersonation first (recorded as stopped).
+ */
+router.post('/session/refresh', async (req, res) => {
+  if (req.user?.imp) await stopImpersonation(req, res, req.user);
+
+  const raw = readRefreshCookie(req);
+  if (!raw) return sendUnauthorized(res, 'No refresh token');
+
+  const payload = await refreshSession(res, raw);
+  if (!payload) {
+    clearSessionCookie(res);
+    return sendUnauthorized(res, 'Refresh token invalid or expired');
+  }
+  return sendSuccess(res, { userId: payload.uid }, 'Session refreshed');
+});
+
+/**
+ * POST /api/session/logout — revokes this browser's session server-side.
+ * While impersonating it only ends the impersonation: the refresh cookie is the
+ * admin's own, and their session resumes.
+ */
+router.post('/session/logout', async (req, res) => {
+  const sess = req.user;
+  if (sess?.imp) {
+    await stopImpersonation(req, res, sess);
+    return sendSuccess(res, null, 'Impersonation ended');
+  }
+  if (sess?.sid) await revokeSession(sess.uid, sess.sid);
   clearSessionCookie(res);
   return sendSuccess(res, null, 'Logged out');
 });
 
+/**
+ * POST /api/session/impersonation/stop
+ * Ends an admin's impersonation session; the admin's own session resumes
+ * from their refresh cookie on the next request.
+ */
+router.post('/session/impersonation/stop', async (req, res) => {
+  const sess = req.user;
+  if (!sess?.imp) return sendBadRequest(res, 'Not impersonating');
+  await stopImpersonation(req, res, sess);
+  return sendSuccess(res, null, 'Impersonation ended');
+});
+
+/** GET /api/me/sessions — my active sessions (current one flagged) */
+router.get('/me/sessions', requireCookieSession, async (req, res) => {
+  const sess = req.user!;
+  const rows = await listActiveSessions(sess.uid);
+  return sendSuccess(
+    res,
+    rows.map(s => ({
+      ...s,
+      createdAt: s.createdAt.toISOString(),
+      lastSeenAt: s.lastSeenAt.toISOString(),
+      expiresAt: s.expiresAt.toISOString(),
+      current: s.id === sess.sid
+    })),
+    'Active sessions'
+  );
+});
+
+/** DELETE /api/me/sessions/:id — revoke one session */
+router.delete(
+  '/me/sessions/:id',
+  requireCookieSession,
+  forbidImpersonation,
+  async (req, res) => {
+    const sess = req.user!;
+    const ok = await revokeSession(sess.uid, req.params.id);
+    if (!ok) return sendNotFound(res, 'Session not found');
+
+    if (req.params.id === sess.sid) clearSessionCookie(res);
+    return sendSuccess(res, { id: req.params.id }, 'Session revoked');
+  }
+);
+
+/** POST /api/me/sessions/revoke-others — sign out everywhere else */
+router.post(
+  '/me/sessions/revoke-others',
+  requireCookieSession,
+  forbidImpersonation,
+  async (req, res) => {
+    const sess = req.user!;
+    const revoked = await revokeOtherSessions(sess.uid, sess.sid);
+    return sendSuccess(res, { revoked }, 'Other sessions revoked');
+  }
+);
+
 /**
  * ✅ NEW: GET /api/session/me
  * Returns minimal user + billing fields for your Billing page.
@@ -99,10 +215,10 @@ router.post('/session/logout', async (_req, res) => {
  */
 router.get('/session/me', async (req, res) => {
   const u = (req as any).user; // set by your auth/session middleware
-  if (!u?.id) return sendUnauthorized(res, 'Unauthorized');
+  if (!u?.uid) return sendUnauthorized(res, 'Unauthorized');
 
   const user = await prisma.user.findUnique({
-    where: { id: u.id },
+    where: { id: u.uid },
     select: {
       id: true,
       email: true,
@@ -116,6 +232,16 @@ router.get('/session/me', async (req, res) => {
 
   if (!user) return sendUnauthorized(res, 'Unauthorized');
 
+  const effectivePlan = await getEffectivePlan(user.id);
+
+  // drives the "you are acting as …" banner
+  const impersonator = u.imp
+    ? await prisma.user.findUnique({
+        where: { id: u.imp },
+        select: { id: true, displayName: true }
+      })
+    : null;
+
   return sendSuccess(
     res,
     {
@@ -127,7 +253,17 @@ router.get('/session/me', async (req, res) => {
         subscriptionStatus: user.subscriptionStatus ?? null,
         currentPeriodEnd: user.currentPeriodEnd?.toISOString() ?? null,
         stripeCustomerId: user.stripeCustomerId ?? null
-      }
+      },
+      // limits the UI should enforce/preview (null = unlimited)
+      entitlements: { plan: effectivePlan, ...entitlementsFor(effectivePlan) },
+      impersonation: u.imp
+        ? {
+            active: true,
+            impersonatorId: u.imp,
+            impersonatorName: impersonator?.displayName ?? null,
+            expiresAt: u.exp ? new Date(u.exp * 1000).toISOString() : null
+          }
+        : null
     },
     'OK'
   );
@@ -1,11 +1,11 @@
 import { Router } from 'express';
-import { requireSession } from '../middlewares/session';
+import { requireSession, requireScope } from '../middlewares/session';
 import { validateBody } from '../middlewares/validate';
 import { signUploadSchema } from '../schemas/upload';
 import { signImageUpload } from '../controllers/uploadController';
 
 const router = Router();
 
-router.post('/uploads/sign', requireSession, validateBody(signUploadSchema), signImageUpload);
+router.post('/uploads/sign', requireSession, requireScope('uploads:write'), validateBody(signUploadSchema), signImageUpload);
 
 export default router;
@@ -0,0 +1,24 @@
+// src/routes/webhookRoutes.ts
+import express, { Router } from 'express';
+import { billingController } from '../controllers/billingController.js';
+import { handleClerkWebhook } from '../controllers/clerkWebhookController.js';
+
+/**
+ * Provider webhooks. These need the untouched request body for signature
+ * verification, so this router is mounted BEFORE express.json() in app.ts.
+ */
+const router = Router();
+
+router.post(
+  '/billing/webhook',
+  express.raw({ type: 'application/json', limit: '1mb' }),
+  billingController.handleWebhook
+);
+
+router.post(
+  '/webhooks/clerk',
+  express.raw({ type: 'application/json', limit: '1mb' }),
+  handleClerkWebhook
+);
+
+export default router;
@@ -40,3 +40,12 @@ export const zOptionalDate = z
     if (Number.isNaN(d.getTime())) throw new Error('Invalid ISO datetime');
     return d.toISOString();
   });
+
+/**
+ * A moment for publishAt/unpublishAt: ISO datetime (with offset) or Date.
+ * null clears the schedule; omit the field to leave it unchanged.
+ */
+export const zScheduleAt = z
+  .union([z.string().datetime({ offset: true }), z.date(), z.null()])
+  .transform(val => (val === null ? null : new Date(val)))
+  .optional();
@@ -0,0 +1,31 @@
+// src/schemas/_slug.ts
+import { z } from 'zod';
+import { checkHandle, type HandleKind } from '../utils/slugPolicy';
+
+/**
+ * Zod field for a public handle. Trims (and lowercases slugs) first, then
+ * applies utils/slugPolicy so every route reports the same messages.
+ */
+function handleField(kind: HandleKind) {
+  return z.preprocess(
+    v =>
+      typeof v === 'string'
+        ? kind === 'slug'
+          ? v.trim().toLowerCase()
+          : v.trim()
+        : v,
+    z.string().superRefine((value, ctx) => {
+      const violation = checkHandle(value, kind);
+      if (violation) {
+        ctx.addIssue({
+          code: 'custom',
+          message: violation.message,
+          params: { code: violation.code }
+        });
+      }
+    })
+  );
+}
+
+export const zSlug = handleField('slug');
+export const zUsername = handleField('username');
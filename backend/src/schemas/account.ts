@@ -0,0 +1,10 @@
+// src/schemas/account.ts
+import { z } from 'zod';
+
+export const ACCOUNT_DELETION_PHRASE = 'DELETE';
+
+export const deleteAccountSchema = z.object({
+  // the user must type the phrase; guards against accidental/scripted calls
+  confirm: z.literal(ACCOUNT_DELETION_PHRASE)
+});
+export type DeleteAccountInput = z.infer<typeof deleteAccountSchema>;
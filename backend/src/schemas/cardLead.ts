@@ -0,0 +1,32 @@
+// src/schemas/cardLead.ts
+import { z } from 'zod';
+
+const optionalText = (max: number) =>
+  z.preprocess(
+    v => (typeof v === 'string' && v.trim() === '' ? undefined : v),
+    z.string().trim().max(max).optional()
+  );
+
+/** Public "send your details" form on a card */
+export const cardContactSchema = z
+  .object({
+    name: z.string().trim().min(1).max(100),
+    email: z.preprocess(
+      v => (typeof v === 'string' && v.trim() === '' ? undefined : v),
+      z.string().trim().toLowerCase().email().max(254).optional()
+    ),
+    phone: optionalText(40),
+    message: optionalText(2000),
+    // honeypot: hidden in the form, so only bots fill it in
+    website: z.string().optional()
+  })
+  .refine(v => !!v.email || !!v.phone, {
+    message: 'Leave an email or a phone number',
+    path: ['email']
+  });
+export type CardContactInput = z.infer<typeof cardContactSchema>;
+
+export const updateCardLeadSchema = z.object({
+  read: z.boolean()
+});
+export type UpdateCardLeadInput = z.infer<typeof updateCardLeadSchema>;
@@ -1,6 +1,7 @@
 // src/schemas/challenge.ts
 import { z } from 'zod';
-import { zOptionalDate } from './_date';
+import { zOptionalDate, zScheduleAt } from './_date';
+import { zSlug } from './_slug';
 
 /** Shared */
 export const challengeImageSchema = z.object({
@@ -18,7 +19,7 @@ export const prizeSchema = z.object({
 
 /** Create Challenge */
 export const createChallengeSchema = z.object({
-  slug: z.string().trim().min(1).max(120).optional(),
+  slug: zSlug.optional(),
   title: z.string().trim().min(1).max(200),
   description: z.string().max(5000).optional(),
   brandName: z.string().max(200).optional(),
@@ -32,6 +33,8 @@ export const createChallengeSchema = z.object({
   deadline: zOptionalDate.optional().nullable(),
 
   publishStatus: z.enum(['DRAFT', 'PRIVATE', 'PUBLISHED']).optional(),
+  publishAt: zScheduleAt,
+  unpublishAt: zScheduleAt,
   status: z.enum(['OPEN', 'CLOSED', 'ARCHIVED']).optional(),
 
   images: z.array(challengeImageSchema).max(6).optional(),
@@ -41,6 +44,7 @@ export type CreateChallengeInput = z.infer<typeof createChallengeSchema>;
 
 /** Update Challenge */
 export const updateChallengeSchema = z.object({
+  // policy checked in the controller when the slug changes
   slug: z.string().trim().min(1).max(120).optional(),
   title: z.string().trim().min(1).max(200).optional(),
   description: z.string().max(5000).nullable().optional(),
@@ -55,6 +59,8 @@ export const updateChallengeSchema = z.object({
   deadline: zOptionalDate.nullable().optional(),
 
   publishStatus: z.enum(['DRAFT', 'PRIVATE', 'PUBLISHED']).optional(),
+  publishAt: zScheduleAt,
+  unpublishAt: zScheduleAt,
   status: z.enum(['OPEN', 'CLOSED', 'ARCHIVED']).optional(),
 
   images: z.array(challengeImageSchema).max(6).optional(),
@@ -70,3 +76,30 @@ export const submitEntrySchema = z.object({
   notes: z.string().max(1000).nullable().optional()
 });
 export type SubmitEntryInput = z.infer<typeof submitEntrySchema>;
+
+/** Owner moderation; a rejection needs a reason the submitter will see (WINNER comes from awards) */
+export const updateSubmissionStatusSchema = z
+  .object({
+    status: z.enum(['PENDING', 'APPROVED', 'REJECTED']),
+    reason: z.string().trim().max(1000).nullable().optional()
+  })
+  .refine(v => v.status !== 'REJECTED' || !!v.reason, {
+    message: 'Say why the submission is rejected',
+    path: ['reason']
+  });
+export type UpdateSubmissionStatusInput = z.infer<
+  typeof updateSubmissionStatusSchema
+>;
+
+/** Owner's prize awards; replaces the whole set (an empty list clears them) */
+export const setPrizeAwardsSchema = z.object({
+  awards: z
+    .array(
+      z.object({
+        rank: z.number().int().min(1),
+        submissionId: z.string().min(1)
+      })
+    )
+    .max(10)
+});
+export type SetPrizeAwardsInput = z.infer<typeof setPrizeAwardsSchema>;
@@ -1,5 +1,11 @@
 // src/schemas/digitalNameCard.ts
 import { z } from 'zod';
+import { zSlug } from './_slug';
+import { zScheduleAt } from './_date';
+import {
+  isSocialLinkViolation,
+  normalizeSocialLink
+} from '../utils/socialHandles';
 
 /** Helper: treat empty string as undefined so optional() works with form inputs */
 const emptyToUndef = <T extends z.ZodTypeAny>(schema: T) =>
@@ -9,7 +15,8 @@ const emptyToUndef = <T extends z.ZodTypeAny>(schema: T) =>
   );
 
 const emptyStr = emptyToUndef(z.string());
-const emptyUrl = emptyToUndef(z.string().url());
+// shape only — utils/socialHandles validates and canonicalizes per platform
+const emptyUrl = emptyToUndef(z.string().max(2048));
 
 export const socialPlatformEnum = z.enum([
   'TWITTER',
@@ -23,25 +30,43 @@ export const socialPlatformEnum = z.enum([
   'OTHER'
 ]);
 
-export const socialAccountSchema = z.object({
-  // If you strictly use CUID in Prisma, keep the next line as-is.
-  // If your DB might produce uuid/cuid2/other strings, use the union below.
-  // id: z.string().cuid().optional(),
-  id: z.union([z.string().cuid(), z.string().uuid(), z.string()]).optional(),
-
-  platform: socialPlatformEnum,
-
-  // Optional text fields ('' -> undefined so optional passes)
-  handle: emptyToUndef(z.string().min(1).max(100)).optional(),
-  url: emptyUrl.optional(),
-  label: emptyToUndef(z.string().max(50)).optional(),
-
-  isPublic: z.boolean().default(true).optional(),
-  sortOrder: z.number().int().min(0).default(0).optional()
-});
+export const socialAccountSchema = z
+  .object({
+    // If you strictly use CUID in Prisma, keep the next line as-is.
+    // If your DB might produce uuid/cuid2/other strings, use the union below.
+    // id: z.string().cuid().optional(),
+    id: z.union([z.string().cuid(), z.string().uuid(), z.string()]).optional(),
+
+    platform: socialPlatformEnum,
+
+    // Optional text fields ('' -> undefined so optional passes)
+    handle: emptyToUndef(z.string().min(1).max(100)).optional(),
+    url: emptyUrl.optional(),
+    label: emptyToUndef(z.string().max(50)).optional(),
+
+    isPublic: z.boolean().default(true).optional(),
+    sortOrder: z.number().int().min(0).default(0).optional()
+  })
+  .transform((s, ctx) => {
+    const normalized = normalizeSocialLink(s);
+    if (isSocialLinkViolation(normalized)) {
+      ctx.addIssue({
+        code: 'custom',
+        path: [normalized.field],
+        message: normalized.message,
+        params: { code: normalized.code }
+      });
+      return z.NEVER;
+    }
+    return {
+      ...s,
+      handle: normalized.handle ?? undefined,
+      url: normalized.url ?? undefined
+    };
+  });
 
 export const createDigitalCardSchema = z.object({
-  slug: z.string().min(3).max(64),
+  slug: zSlug,
   firstName: z.string().min(1),
   lastName: z.string().min(1),
   appName: z.string().min(1),
@@ -68,6 +93,11 @@ export const createDigitalCardSchema = z.object({
   bannerKey: emptyStr.optional(),
 
   publishStatus: z.enum(['DRAFT', 'PRIVATE', 'PUBLISHED']).default('DRAFT'),
+  publishAt: zScheduleAt,
+  unpublishAt: zScheduleAt,
+
+  // show the "send your details" form on the public card
+  leadCaptureEnabled: z.boolean().optional(),
 
   socials: z.array(socialAccountSchema).optional().default([])
 });
@@ -77,6 +107,14 @@ export type CreateDigitalCardInput = z.infer<typeof createDigitalCardSchema>;
 export const updateDigitalCardSchema = createDigitalCardSchema
   .partial()
   .extend({
+    // policy is checked in the controller, and only when the slug changes
+    // (existing slugs predating the policy can still be sent back unchanged)
+    slug: z.string().trim().min(1).max(120).optional(),
+
+    // no create-time defaults on PATCH: omitted means unchanged
+    publishStatus: z.enum(['DRAFT', 'PRIVATE', 'PUBLISHED']).optional(),
+    socials: z.array(socialAccountSchema).optional(),
+
     /**
      * If true, the server should replace existing socials with the provided array.
      * If false/undefined, the server may do a partial update/merge strategy.
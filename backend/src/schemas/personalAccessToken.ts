@@ -0,0 +1,11 @@
+// src/schemas/personalAccessToken.ts
+import { z } from 'zod';
+import { TOKEN_SCOPES } from '../config/scopes';
+
+export const createTokenSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(z.enum(TOKEN_SCOPES)).min(1),
+  // omit/null = never expires
+  expiresInDays: z.number().int().min(1).max(365).nullable().optional()
+});
+export type CreateTokenInput = z.infer<typeof createTokenSchema>;
@@ -1,5 +1,7 @@
 // src/schemas/portfolio.ts
 import { z } from 'zod';
+import { zSlug } from './_slug';
+import { zScheduleAt } from './_date';
 
 export const VIDEO_PLATFORMS = [
   'TWITTER',
@@ -75,7 +77,7 @@ const eduSchema = z.object({
 
 /** CREATE */
 export const createPortfolioSchema = z.object({
-  slug: z.string().min(1).max(120).optional(),
+  slug: zSlug.optional(),
   title: z.string().min(1).max(120),
   description: nullableToUndef(z.string().max(2000).optional()),
   mainImageKey: z.string().optional(),
@@ -84,6 +86,8 @@ export const createPortfolioSchema = z.object({
   videoLinks: z.array(videoLinkSchema).optional(),
   projects: z.array(projectSchema).optional(),
   publishStatus: z.optional(PublishStatus),
+  publishAt: zScheduleAt,
+  unpublishAt: zScheduleAt,
 
   about: aboutSchema,
   experiences: z.array(expSchema).optional(),
@@ -94,7 +98,8 @@ export const createPortfolioSchema = z.object({
 
 /** UPDATE */
 export const updatePortfolioSchema = z.object({
-  slug: z.string().min(1).max(120).optional(),
+  // policy checked in the controller when the slug changes
+  slug: z.string().trim().min(1).max(120).optional(),
   title: z.string().min(1).max(120).optional(),
   description: nullableToUndef(z.string().max(2000).optional()),
   mainImageKey: z.string().optional(),
@@ -103,6 +108,8 @@ export const updatePortfolioSchema = z.object({
   videoLinks: z.array(videoLinkSchema).optional(),
   projects: z.array(projectSchema).optional(),
   publishStatus: z.optional(PublishStatus),
+  publishAt: zScheduleAt,
+  unpublishAt: zScheduleAt,
 
   about: aboutSchema,
   experiences: z.array(expSchema).optional(),
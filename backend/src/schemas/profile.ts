@@ -7,7 +7,10 @@ const emptyToUndef = (v: unknown) =>
 /** optional trimmed string, '' -> undefined */
 const optTrimUndef = z.preprocess(emptyToUndef, z.string().trim().optional());
 
-/** username: optional, 3–30, a-z0-9_- */
+/**
+ * username: optional, 3–30, a-z0-9_-. Format only: the reserved/profanity policy
+ * runs in the controller, and only for a new handle.
+ */
 const usernameSchema = z.preprocess(
   emptyToUndef,
   z
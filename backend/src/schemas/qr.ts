@@ -0,0 +1,25 @@
+// src/schemas/qr.ts
+import { z } from 'zod';
+
+const hexColor = z
+  .string()
+  .regex(/^#?[0-9a-f]{6}$/i, 'Use a 6-digit hex colour')
+  .transform(v => `#${v.replace(/^#/, '').toLowerCase()}`);
+
+/** Query for GET .../qr — everything optional, sensible print defaults */
+export const qrQuerySchema = z.object({
+  format: z.enum(['svg', 'png']).default('svg'),
+  size: z.coerce.number().int().min(64).max(2048).default(512),
+  margin: z.coerce.number().int().min(0).max(16).default(4),
+  color: hexColor.default('#000000'),
+  background: hexColor.default('#ffffff'),
+  ecc: z
+    .enum(['L', 'M', 'Q', 'H', 'l', 'm', 'q', 'h'])
+    .transform(v => v.toUpperCase() as 'L' | 'M' | 'Q' | 'H')
+    .default('M'),
+  logo: z
+    .enum(['1', '0', 'true', 'false'])
+    .transform(v => v === '1' || v === 'true')
+    .default(false)
+});
+export type QrQuery = z.infer<typeof qrQuerySchema>;
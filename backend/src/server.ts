@@ -1,6 +1,9 @@
 import app from './app.js';
 import { env } from './config/env.js';
+import { startJobs } from './jobs/index.js';
 
 app.listen(env.PORT, () => {
   console.log(`✅ Backend running on http://localhost:${env.PORT}`);
 });
+
+if (env.JOBS_ENABLED) startJobs();
@@ -0,0 +1,239 @@
+// src/services/accountDeletionService.ts
+import { createClerkClient } from '@clerk/backend';
+import { Prisma } from '@prisma/client';
+import { env } from '../config/env.js';
+import { prisma } from '../config/prisma.js';
+import { stripe } from './stripeService.js';
+import { deleteUserObjects } from './s3UploadService.js';
+import { recordAudit } from './auditService.js';
+
+export const ACCOUNT_DELETION_GRACE_DAYS = 14;
+
+const clerk = createClerkClient({ secretKey: env.CLERK_SECRET_KEY });
+
+// Stripe statuses that still bill (or may bill) the customer
+const LIVE_STRIPE_STATUSES = new Set([
+  'active',
+  'trialing',
+  'past_due',
+  'unpaid',
+  'incomplete',
+  'paused'
+]);
+
+export type AccountDeletionStatus = {
+  requestedAt: Date | null;
+  scheduledFor: Date | null;
+};
+
+export async function getAccountDeletionStatus(
+  userId: string
+): Promise<AccountDeletionStatus> {
+  const u = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { deletionRequestedAt: true, deletionScheduledFor: true }
+  });
+  if (!u) throw new Error('NOT_FOUND');
+  return {
+    requestedAt: u.deletionRequestedAt,
+    scheduledFor: u.deletionScheduledFor
+  };
+}
+
+/**
+ * Schedule deletion after the grace window. Nothing is destroyed yet, so the
+ * user can still sign in and cancel. Requesting twice keeps the original date.
+ */
+export async function requestAccountDeletion(
+  userId: string,
+  meta: { ip?: string | null } = {}
+): Promise<AccountDeletionStatus> {
+  const current = await getAccountDeletionStatus(userId);
+  if (current.scheduledFor) return current;
+
+  const now = new Date();
+  const scheduledFor = new Date(
+    now.getTime() + ACCOUNT_DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000
+  );
+  await prisma.user.update({
+    where: { id: userId },
+    data: { deletionRequestedAt: now, deletionScheduledFor: scheduledFor }
+  });
+  await recordAudit({
+    actorId: userId,
+    action: 'account.deletion.requested',
+    targetUserId: userId,
+    ip: meta.ip,
+    metadata: { scheduledFor: scheduledFor.toISOString() }
+  });
+  return { requestedAt: now, scheduledFor };
+}
+
+/** Returns false when no deletion was pending */
+export async function cancelAccountDeletion(
+  userId: string,
+  meta: { ip?: string | null } = {}
+): Promise<boolean> {
+  const out = await prisma.user.updateMany({
+    where: { id: userId, deletionScheduledFor: { not: null } },
+    data: { deletionRequestedAt: null, deletionScheduledFor: null }
+  });
+  if (!out.count) return false;
+
+  await recordAudit({
+    actorId: userId,
+    action: 'account.deletion.canceled',
+    targetUserId: userId,
+    ip: meta.ip
+  });
+  return true;
+}
+
+async function cancelStripeSubscriptions(customerId: string) {
+  const subs = await stripe.subscriptions.list({
+    customer: customerId,
+    status: 'all',
+    limit: 100
+  });
+  for (const sub of subs.data) {
+    if (LIVE_STRIPE_STATUSES.has(sub.status)) {
+      await stripe.subscriptions.cancel(sub.id);
+    }
+  }
+}
+
+async function deleteClerkUser(clerkId: string) {
+  try {
+    await clerk.users.deleteUser(clerkId);
+  } catch (e: any) {
+    // already gone in Clerk (e.g. deleted there first)
+    if (e?.status !== 404) throw e;
+  }
+}
+
+/**
+ * The user's challenges holding other creators' work (their submissions, or
+ * payouts owed to them): those outlive the account instead of cascading away.
+ */
+async function challengesWithThirdParties(userId: string) {
+  const owned = await prisma.challenge.findMany({
+    where: { userId },
+    select: {
+      id: true,
+      submissions: {
+        where: {
+          OR: [{ submitterId: null }, { submitterId: { not: userId } }]
+        },
+        select: { id: true },
+        take: 1
+      }
+    }
+  });
+  const paid = await prisma.prizePayout.findMany({
+    where: { challengeId: { in: owned.map(c => c.id) } },
+    select: { challengeId: true },
+    distinct: ['challengeId']
+  });
+  const ids = new Set(paid.map(p => p.challengeId));
+  for (const c of owned) if (c.submissions.length) ids.add(c.id);
+  return [...ids];
+}
+
+/**
+ * Irreversibly delete the account. Safe to re-run: every step tolerates
+ * having already happened, so a failure part-way is retried by the job.
+ * - Stripe subscriptions cancelled, uploads under the user's prefixes removed
+ * - cards (+ socials), portfolios and their view analytics deleted;
+ *   own challenges too, unless other creators submitted to them: those are
+ *   detached, stripped of the brand's details, hidden and archived
+ * - submissions to other brands' challenges kept, but detached and scrubbed;
+ *   so are prize payouts to the user
+ */
+export async function finalizeAccountDeletion(userId: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, clerkId: true, stripeCustomerId: true }
+  });
+  if (!user) return false;
+
+  if (user.stripeCustomerId) {
+    await cancelStripeSubscriptions(user.stripeCustomerId);
+  }
+  const objectsDeleted = await deleteUserObjects(user.id);
+  await deleteClerkUser(user.clerkId);
+  const detached = await challengesWithThirdParties(user.id);
+
+  await prisma.$transaction([
+    // images and logo lived under the user's prefixes
+    prisma.challengeImage.deleteMany({
+      where: { challengeId: { in: detached } }
+    }),
+    prisma.challenge.updateMany({
+      where: { id: { in: detached } },
+      data: {
+        userId: null,
+        brandName: null,
+        brandLogoKey: null,
+        postingUrl: null,
+        publishStatus: 'PRIVATE',
+        publishAt: null,
+        unpublishAt: null,
+        status: 'ARCHIVED'
+      }
+    }),
+    prisma.challenge.deleteMany({ where: { userId } }),
+    prisma.socialAccount.deleteMany({ where: { card: { userId } } }),
+    prisma.portfolio.deleteMany({ where: { userId } }),
+    prisma.digitalNameCard.deleteMany({ where: { userId } }),
+    prisma.challengeSubmission.updateMany({
+      where: { submitterId: userId },
+      data: {
+        submitterId: null,
+        submitterName: null,
+        submitterPhone: null,
+        submitterSocials: Prisma.DbNull,
+        imageKey: null, // the object is gone
+        notes: null
+      }
+    }),
+    // retired slugs may contain the user's name; free them with the account
+    prisma.slugHistory.deleteMany({ where: { ownerId: userId } }),
+    prisma.viewEvent.deleteMany({ where: { ownerId: userId } }),
+    prisma.viewDailyStat.deleteMany({ where: { ownerId: userId } }),
+    prisma.viewDailyBreakdown.deleteMany({ where: { ownerId: userId } }),
+    prisma.socialClick.deleteMany({ where: { ownerId: userId } }),
+    prisma.prizePayout.updateMany({
+      where: { recipientId: userId },
+      data: { recipientId: null }
+    }),
+    prisma.user.delete({ where: { id: userId } })
+  ]);
+
+  await recordAudit({
+    actorId: userId,
+    action: 'account.deleted',
+    targetUserId: userId,
+    metadata: { objectsDeleted }
+  });
+  return true;
+}
+
+/** Finalize every deletion whose grace window has passed (called by the job) */
+export async function finalizeDueAccountDeletions(now = new Date()) {
+  const due = await prisma.user.findMany({
+    where: { deletionScheduledFor: { lte: now } },
+    select: { id: true },
+    take: 50
+  });
+
+  let finalized = 0;
+  for (const { id } of due) {
+    try {
+      if (await finalizeAccountDeletion(id)) finalized++;
+    } catch (e) {
+      // leave it scheduled; the next run retries
+      console.error(`[account-deletion] user ${id} failed:`, e);
+    }
+  }
+  return finalized;
+}
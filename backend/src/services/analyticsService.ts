@@ -0,0 +1,348 @@
+// src/services/analyticsService.ts
+// Lightweight view analytics for public cards and portfolios.
+// Raw ViewEvents are rolled up into daily stats by a job; owners only ever read the rollups.
+import { createHmac } from 'crypto';
+import type { Request } from 'express';
+import type {
+  AnalyticsEntityType,
+  Prisma,
+  SocialPlatform,
+  ViewDimension,
+  ViewSource
+} from '@prisma/client';
+import { prisma } from '../config/prisma.js';
+import { env } from '../config/env.js';
+import { deviceType } from '../utils/userAgent.js';
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+export const ANALYTICS_EVENT_RETENTION_DAYS = 90;
+export const ANALYTICS_MAX_RANGE_DAYS = 365;
+const TOP_N = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// set by CDNs / hosting platforms in front of the API
+const COUNTRY_HEADERS = [
+  'cf-ipcountry',
+  'cloudfront-viewer-country',
+  'x-vercel-ip-country',
+  'x-country-code'
+];
+
+export type ViewedEntity = {
+  entityType: AnalyticsEntityType;
+  entityId: string;
+  ownerId: string;
+};
+
+function utcDay(d: Date): Date {
+  return new Date(
+    Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate())
+  );
+}
+
+function isoDay(d: Date) {
+  return d.toISOString().slice(0, 10);
+}
+
+function one(v: unknown): string | undefined {
+  if (Array.isArray(v)) return one(v[0]);
+  return typeof v === 'string' && v ? v : undefined;
+}
+
+/** `?src=qr` (printed codes) / `?src=embed` (widgets); anything else is a plain link */
+function sourceOf(req: Request): ViewSource {
+  const src = one(req.query.src)?.toLowerCase();
+  if (src === 'qr') return 'QR';
+  if (src === 'embed') return 'EMBED';
+  return 'LINK';
+}
+
+function hostOf(url?: string): string | null {
+  if (!url) return null;
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '') || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The frontend forwards the page's document.referrer as `?ref=`, since the
+ * API call's own Referer is the frontend. Navigation inside the app counts as direct.
+ */
+function referrerOf(req: Request): string | null {
+  const host = hostOf(one(req.query.ref) ?? req.get('referer'));
+  if (!host || host === hostOf(env.PUBLIC_APP_URL)) return null;
+  return host.slice(0, 191);
+}
+
+function countryOf(req: Request): string | null {
+  for (const h of COUNTRY_HEADERS) {
+    const v = req.get(h)?.trim().toUpperCase();
+    // XX = unknown; Cloudflare's T1 (Tor) fails the pattern
+    if (v && /^[A-Z]{2}$/.test(v) && v !== 'XX') return v;
+  }
+  return null;
+}
+
+/** Same visitor + entity + UTC day → same hash; nothing links it across days or entities */
+function visitorHash(req: Request, entityId: string, now: Date) {
+  return createHmac('sha256', env.SESSION_SECRET)
+    .update(
+      `${isoDay(now)}|${req.ip ?? ''}|${
+        req.get('user-agent') ?? ''
+      }|${entityId}`
+    )
+    .digest('hex');
+}
+
+/** Record one public view. Bots and the owner looking at their own page are skipped. */
+export async function recordView(
+  req: Request,
+  entity: ViewedEntity,
+  now = new Date()
+): Promise<boolean> {
+  const device = deviceType(req.get('user-agent'));
+  if (device === 'bot') return false;
+  if (req.user?.uid === entity.ownerId) return false;
+
+  await prisma.viewEvent.create({
+    data: {
+      ...entity,
+      visitorHash: visitorHash(req, entity.entityId, now),
+      source: sourceOf(req),
+      referrer: referrerOf(req),
+      device,
+      country: countryOf(req),
+      createdAt: now
+    }
+  });
+  return true;
+}
+
+/** Fire-and-forget recordView for public handlers — never delays or fails the response */
+export function trackView(req: Request, entity: ViewedEntity) {
+  recordView(req, entity).catch(err =>
+    console.error(
+      `[analytics] view ${entity.entityType} ${entity.entityId}:`,
+      err
+    )
+  );
+}
+
+export type ClickedSocial = {
+  socialId: string;
+  cardId: string;
+  ownerId: string;
+  platform: SocialPlatform;
+};
+
+/**
+ * Record a click on a card's social link (same bot/owner rules as views).
+ * Counted once per visitor per link per day: repeat clicks are dropped, so
+ * reloading /go can't inflate the numbers.
+ */
+export async function recordSocialClick(
+  req: Request,
+  social: ClickedSocial,
+  now = new Date()
+): Promise<boolean> {
+  const device = deviceType(req.get('user-agent'));
+  if (device === 'bot') return false;
+  if (req.user?.uid === social.ownerId) return false;
+
+  const out = await prisma.socialClick.createMany({
+    data: {
+      ...social,
+      visitorHash: visitorHash(req, social.socialId, now),
+      device,
+      createdAt: now
+    },
+    skipDuplicates: true
+  });
+  return out.count > 0;
+}
+
+/** All-time click totals for a card, per platform */
+export async function getCardClickTotals(cardId: string) {
+  const groups = await prisma.socialClick.groupBy({
+    by: ['platform'],
+    where: { cardId },
+    _count: { _all: true }
+  });
+  const byPlatform = groups
+    .map(g => ({ platform: g.platform, clicks: g._count._all }))
+    .sort((a, b) => b.clicks - a.clicks);
+  return {
+    total: byPlatform.reduce((n, g) => n + g.clicks, 0),
+    byPlatform
+  };
+}
+
+// ---------------- Rollups ----------------
+
+const keyOf = (r: { entityType: AnalyticsEntityType; entityId: string }) =>
+  `${r.entityType}:${r.entityId}`;
+
+/** Rebuild the rollups for one UTC day from the raw events (idempotent) */
+export async function rollupDay(day: Date) {
+  const start = utcDay(day);
+  const where = {
+    createdAt: { gte: start, lt: new Date(start.getTime() + DAY_MS) }
+  };
+  const by = ['entityType', 'entityId', 'ownerId'] as const;
+
+  const visitors = await prisma.viewEvent.groupBy({
+    by: [...by, 'visitorHash'],
+    where,
+    _count: { _all: true }
+  });
+
+  const stats = new Map<string, Prisma.ViewDailyStatCreateManyInput>();
+  for (const v of visitors) {
+    const row = stats.get(keyOf(v)) ?? {
+      entityType: v.entityType,
+      entityId: v.entityId,
+      ownerId: v.ownerId,
+      day: start,
+      views: 0,
+      uniqueVisitors: 0
+    };
+    row.views! += v._count._all;
+    row.uniqueVisitors! += 1;
+    stats.set(keyOf(v), row);
+  }
+
+  const breakdowns: Prisma.ViewDailyBreakdownCreateManyInput[] = [];
+  const dimensions: Array<
+    [ViewDimension, 'source' | 'device' | 'country' | 'referrer']
+  > = [
+    ['SOURCE', 'source'],
+    ['DEVICE', 'device'],
+    ['COUNTRY', 'country'],
+    ['REFERRER', 'referrer']
+  ];
+  for (const [dimension, field] of dimensions) {
+    const groups = await prisma.viewEvent.groupBy({
+      by: [...by, field],
+      where,
+      _count: { _all: true }
+    });
+    for (const g of groups) {
+      const value = (g as Record<string, unknown>)[field];
+      // no country / direct traffic: implied by the totals
+      if (value === null || value === undefined) continue;
+      breakdowns.push({
+        entityType: g.entityType,
+        entityId: g.entityId,
+        ownerId: g.ownerId,
+        day: start,
+        dimension,
+        value: String(value),
+        views: g._count._all
+      });
+    }
+  }
+
+  await prisma.$transaction([
+    prisma.viewDailyStat.deleteMany({ where: { day: start } }),
+    prisma.viewDailyBreakdown.deleteMany({ where: { day: start } }),
+    prisma.viewDailyStat.createMany({ data: [...stats.values()] }),
+    prisma.viewDailyBreakdown.createMany({ data: breakdowns })
+  ]);
+  return { entities: stats.size, breakdowns: breakdowns.length };
+}
+
+/**
+ * Job: refresh today's and yesterday's rollups (late events near midnight),
+ * then drop raw events past retention.
+ */
+export async function runAnalyticsRollup(now = new Date()) {
+  const today = utcDay(now);
+  await rollupDay(new Date(today.getTime() - DAY_MS));
+  await rollupDay(today);
+
+  const cutoff = new Date(
+    today.getTime() - ANALYTICS_EVENT_RETENTION_DAYS * DAY_MS
+  );
+  const purged = await prisma.viewEvent.deleteMany({
+    where: { createdAt: { lt: cutoff } }
+  });
+  return { purged: purged.count };
+}
+
+/** Drop everything recorded for an entity (it is being deleted) */
+export async function deleteEntityAnalytics(
+  db: Db,
+  entityType: AnalyticsEntityType,
+  entityId: string
+) {
+  const where = { entityType, entityId };
+  await db.viewEvent.deleteMany({ where });
+  await db.viewDailyStat.deleteMany({ where });
+  await db.viewDailyBreakdown.deleteMany({ where });
+  if (entityType === 'CARD') {
+    await db.socialClick.deleteMany({ where: { cardId: entityId } });
+  }
+}
+
+// ---------------- Reporting ----------------
+
+/**
+ * Owner report for the last `days` UTC days (today included).
+ * Unique visitors are counted per day, so the range total is a sum of dailies.
+ */
+export async function getEntityAnalytics(
+  entityType: AnalyticsEntityType,
+  entityId: string,
+  opts: { days: number; now?: Date }
+) {
+  const days = Math.min(Math.max(opts.days, 1), ANALYTICS_MAX_RANGE_DAYS);
+  const to = utcDay(opts.now ?? new Date());
+  const from = new Date(to.getTime() - (days - 1) * DAY_MS);
+  const where = { entityType, entityId, day: { gte: from, lte: to } };
+
+  const [daily, groups] = await Promise.all([
+    prisma.viewDailyStat.findMany({ where, orderBy: { day: 'asc' } }),
+    prisma.viewDailyBreakdown.groupBy({
+      by: ['dimension', 'value'],
+      where,
+      _sum: { views: true }
+    })
+  ]);
+
+  const byDay = new Map(daily.map(d => [isoDay(d.day), d]));
+  const series = Array.from({ length: days }, (_, i) => {
+    const date = isoDay(new Date(from.getTime() + i * DAY_MS));
+    const d = byDay.get(date);
+    return {
+      date,
+      views: d?.views ?? 0,
+      uniqueVisitors: d?.uniqueVisitors ?? 0
+    };
+  });
+
+  const top = (dimension: ViewDimension, limit?: number) =>
+    groups
+      .filter(g => g.dimension === dimension)
+      .map(g => ({ value: g.value, views: g._sum.views ?? 0 }))
+      .sort((a, b) => b.views - a.views)
+      .slice(0, limit);
+
+  return {
+    range: { from: isoDay(from), to: isoDay(to), days },
+    totals: {
+      views: series.reduce((n, d) => n + d.views, 0),
+      uniqueVisitors: series.reduce((n, d) => n + d.uniqueVisitors, 0)
+    },
+    series,
+    sources: top('SOURCE'),
+    devices: top('DEVICE'),
+    countries: top('COUNTRY', TOP_N),
+    topReferrers: top('REFERRER', TOP_N).map(r => ({
+      referrer: r.value,
+      views: r.views
+    }))
+  };
+}
@@ -0,0 +1,28 @@
+// src/services/auditService.ts
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/prisma.js';
+
+export type AuditAction =
+  | 'impersonation.start'
+  | 'impersonation.stop'
+  | 'account.deletion.requested'
+  | 'account.deletion.canceled'
+  | 'account.deleted';
+
+export async function recordAudit(entry: {
+  actorId: string;
+  action: AuditAction;
+  targetUserId?: string | null;
+  ip?: string | null;
+  metadata?: Prisma.InputJsonValue;
+}) {
+  return prisma.auditLog.create({
+    data: {
+      actorId: entry.actorId,
+      action: entry.action,
+      targetUserId: entry.targetUserId ?? null,
+      ip: entry.ip ?? null,
+      metadata: entry.metadata ?? undefined
+    }
+  });
+}
@@ -0,0 +1,116 @@
+// src/services/cardLeadService.ts
+import type { CardLead } from '@prisma/client';
+import { prisma } from '../config/prisma.js';
+import type { CardContactInput } from '../schemas/cardLead.js';
+import { toCsv, type CsvColumn } from '../utils/csv.js';
+import { buildLeadVCard } from './vcardService.js';
+
+// exports are one-shot downloads; keep them bounded
+const EXPORT_MAX_ROWS = 5000;
+
+const CSV_COLUMNS: CsvColumn<CardLead>[] = [
+  { header: 'Name', value: l => l.name },
+  { header: 'Email', value: l => l.email },
+  { header: 'Phone', value: l => l.phone },
+  { header: 'Message', value: l => l.message },
+  { header: 'Received', value: l => l.createdAt },
+  { header: 'Read', value: l => (l.readAt ? 'yes' : 'no') }
+];
+
+export function serializeLead(l: CardLead) {
+  return {
+    id: l.id,
+    name: l.name,
+    email: l.email,
+    phone: l.phone,
+    message: l.message,
+    read: !!l.readAt,
+    readAt: l.readAt?.toISOString() ?? null,
+    createdAt: l.createdAt.toISOString()
+  };
+}
+
+/**
+ * Store a visitor's details for a published card that accepts them.
+ * Throws NOT_FOUND (no such published card) or LEAD_CAPTURE_DISABLED.
+ */
+export async function createCardLead(
+  card: { id: string; leadCaptureEnabled: boolean },
+  input: CardContactInput
+) {
+  if (!card.leadCaptureEnabled) throw new Error('LEAD_CAPTURE_DISABLED');
+  return prisma.cardLead.create({
+    data: {
+      cardId: card.id,
+      name: input.name,
+      email: input.email ?? null,
+      phone: input.phone ?? null,
+      message: input.message ?? null
+    }
+  });
+}
+
+/** The caller's card (id + slug) or null */
+export async function findOwnedCard(userId: string, cardId: string) {
+  return prisma.digitalNameCard.findFirst({
+    where: { id: cardId, userId },
+    select: { id: true, slug: true }
+  });
+}
+
+export async function listCardLeads(
+  cardId: string,
+  opts: { limit: number; cursor?: string; unreadOnly?: boolean }
+) {
+  const where = { cardId, ...(opts.unreadOnly ? { readAt: null } : {}) };
+  const [rows, unread] = await Promise.all([
+    prisma.cardLead.findMany({
+      where,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: opts.limit + 1,
+      ...(opts.cursor ? { skip: 1, cursor: { id: opts.cursor } } : {})
+    }),
+    prisma.cardLead.count({ where: { cardId, readAt: null } })
+  ]);
+
+  const hasMore = rows.length > opts.limit;
+  const items = hasMore ? rows.slice(0, opts.limit) : rows;
+  return {
+    items: items.map(serializeLead),
+    nextCursor: hasMore ? items[items.length - 1]?.id ?? null : null,
+    unread
+  };
+}
+
+/** Mark one lead read/unread; null when it isn't on this card */
+export async function setCardLeadRead(
+  cardId: string,
+  leadId: string,
+  read: boolean
+) {
+  const out = await prisma.cardLead.updateMany({
+    where: { id: leadId, cardId },
+    data: { readAt: read ? new Date() : null }
+  });
+  if (out.count === 0) return null;
+  const lead = await prisma.cardLead.findUnique({ where: { id: leadId } });
+  return lead ? serializeLead(lead) : null;
+}
+
+async function leadsForExport(cardId: string) {
+  return prisma.cardLead.findMany({
+    where: { cardId },
+    orderBy: { createdAt: 'desc' },
+    take: EXPORT_MAX_ROWS
+  });
+}
+
+export async function exportCardLeadsCsv(cardId: string) {
+  return toCsv(await leadsForExport(cardId), CSV_COLUMNS);
+}
+
+/** All leads as one multi-contact .vcf */
+export async function exportCardLeadsVCard(card: { id: string; slug: string }) {
+  const leads = await leadsForExport(card.id);
+  return leads.map(l => buildLeadVCard(l, card)).join('');
+}
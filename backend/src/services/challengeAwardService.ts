@@ -0,0 +1,177 @@
+// src/services/challengeAwardService.ts
+// Prize awards: while a challenge is CLOSED (judging) the owner assigns prize ranks
+// to APPROVED submissions; announcing the results locks them, makes the winners
+// public, moves the awarded submissions to WINNER and opens their prize payouts.
+import { prisma } from '../config/prisma.js';
+import { transitionSubmission } from './submissionStatusService.js';
+import { createPrizePayouts } from './prizePayoutService.js';
+
+export type PrizeAward = { rank: number; submissionId: string };
+
+export type AwardViolation = { field: 'awards'; message: string };
+
+/** What the caller may see of a winning entry */
+export const WINNER_SELECT = {
+  id: true,
+  submissionOrder: true,
+  submitterName: true,
+  platform: true,
+  linkUrl: true
+} as const;
+
+/** What the winner sees of their prize */
+export const PRIZE_BRIEF_SELECT = {
+  rank: true,
+  label: true,
+  amountCents: true
+} as const;
+
+/** The owner's challenge in a state that still takes award changes */
+async function findJudgingChallenge(ownerId: string, challengeId: string) {
+  const c = await prisma.challenge.findFirst({
+    where: { id: challengeId, userId: ownerId },
+    select: {
+      id: true,
+      status: true,
+      resultsAnnouncedAt: true,
+      prizes: { select: { id: true, rank: true, awardedSubmissionId: true } }
+    }
+  });
+  if (!c) throw new Error('NOT_FOUND');
+  if (c.resultsAnnouncedAt) throw new Error('RESULTS_ANNOUNCED');
+  if (c.status !== 'CLOSED') throw new Error('NOT_CLOSED');
+  return c;
+}
+
+/**
+ * Rules for a set of awards: every rank is a prize of the challenge,
+ * one submission per rank, one prize per submission, APPROVED entries only.
+ */
+function checkAwards(
+  awards: PrizeAward[],
+  ranks: Set<number>,
+  submissions: Map<string, { status: string }>
+): AwardViolation | null {
+  const seenRanks = new Set<number>();
+  const seenSubmissions = new Set<string>();
+  for (const a of awards) {
+    if (!ranks.has(a.rank)) {
+      return {
+        field: 'awards',
+        message: `There is no prize for rank ${a.rank}`
+      };
+    }
+    if (seenRanks.has(a.rank)) {
+      return {
+        field: 'awards',
+        message: `Rank ${a.rank} can only go to one submission`
+      };
+    }
+    if (seenSubmissions.has(a.submissionId)) {
+      return {
+        field: 'awards',
+        message: 'A submission can only win one prize'
+      };
+    }
+    const s = submissions.get(a.submissionId);
+    if (!s) {
+      return {
+        field: 'awards',
+        message: 'Awards must go to submissions of this challenge'
+      };
+    }
+    if (s.status !== 'APPROVED') {
+      return {
+        field: 'awards',
+        message: 'Only approved submissions can win a prize'
+      };
+    }
+    seenRanks.add(a.rank);
+    seenSubmissions.add(a.submissionId);
+  }
+  return null;
+}
+
+/**
+ * Replace the challenge's awards with `awards` (prizes left out lose theirs).
+ * Throws NOT_FOUND, NOT_CLOSED or RESULTS_ANNOUNCED; returns a violation for bad awards.
+ */
+export async function setPrizeAwards(
+  ownerId: string,
+  challengeId: string,
+  awards: PrizeAward[],
+  now = new Date()
+): Promise<{ ok: true } | { violation: AwardViolation }> {
+  const c = await findJudgingChallenge(ownerId, challengeId);
+
+  const submissions = await prisma.challengeSubmission.findMany({
+    where: {
+      challengeId,
+      id: { in: awards.map(a => a.submissionId) }
+    },
+    select: { id: true, status: true }
+  });
+  const violation = checkAwards(
+    awards,
+    new Set(c.prizes.map(p => p.rank)),
+    new Map(submissions.map(s => [s.id, s]))
+  );
+  if (violation) return { violation };
+
+  const byRank = new Map(awards.map(a => [a.rank, a.submissionId]));
+  // unchanged prizes keep their award time
+  const changed = c.prizes.filter(
+    p => (byRank.get(p.rank) ?? null) !== p.awardedSubmissionId
+  );
+  await prisma.$transaction(async tx => {
+    // clear first: the unique submission link would trip over swapped ranks
+    await tx.challengePrize.updateMany({
+      where: { id: { in: changed.map(p => p.id) } },
+      data: { awardedSubmissionId: null, awardedAt: null }
+    });
+    for (const p of changed) {
+      const submissionId = byRank.get(p.rank);
+      if (!submissionId) continue;
+      await tx.challengePrize.update({
+        where: { id: p.id },
+        data: { awardedSubmissionId: submissionId, awardedAt: now }
+      });
+    }
+  });
+  return { ok: true };
+}
+
+/**
+ * Publish the results: awarded submissions become WINNER (logged in their history),
+ * awards are locked and each paid prize gets a PENDING payout. Throws NOT_FOUND, NOT_CLOSED, RESULTS_ANNOUNCED, NO_AWARDS,
+ * or INVALID_TRANSITION when an awarded entry is no longer APPROVED.
+ */
+export async function announceResults(
+  ownerId: string,
+  challengeId: string,
+  now = new Date()
+) {
+  const c = await findJudgingChallenge(ownerId, challengeId);
+  const winners = c.prizes
+    .map(p => p.awardedSubmissionId)
+    .filter((id): id is string => !!id);
+  if (!winners.length) throw new Error('NO_AWARDS');
+
+  await prisma.$transaction(async tx => {
+    // guarded so two announce calls can't both go through
+    const out = await tx.challenge.updateMany({
+      where: { id: challengeId, resultsAnnouncedAt: null, status: 'CLOSED' },
+      data: { resultsAnnouncedAt: now }
+    });
+    if (out.count === 0) throw new Error('RESULTS_ANNOUNCED');
+    for (const submissionId of winners) {
+      await transitionSubmission(tx, {
+        challengeId,
+        submissionId,
+        actorId: ownerId,
+        to: 'WINNER'
+      });
+    }
+    await createPrizePayouts(tx, challengeId);
+  });
+}
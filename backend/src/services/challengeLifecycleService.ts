@@ -0,0 +1,147 @@
+// src/services/challengeLifecycleService.ts
+// Deadline-driven challenge lifecycle: OPEN until the deadline, then CLOSED (judging),
+// then ARCHIVED once the retention period has passed — unless prizes still wait
+// for their results to be announced. Every check takes `now` so callers and the
+// job agree on one clock.
+import type { ChallengeStatus } from '@prisma/client';
+import { prisma } from '../config/prisma.js';
+import { env } from '../config/env.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * What the owner sees:
+ * OPEN     – accepting submissions
+ * JUDGING  – deadline passed / closed, entries locked, winners can be picked
+ * ARCHIVED – retention over, read-only
+ */
+export type ChallengePhase = 'OPEN' | 'JUDGING' | 'ARCHIVED';
+
+export type LifecycleFields = {
+  status: ChallengeStatus;
+  deadline: Date | null;
+  closedAt: Date | null;
+  resultsAnnouncedAt?: Date | null;
+  prizes?: unknown[];
+};
+
+export type SubmissionDenial = 'CHALLENGE_NOT_OPEN' | 'DEADLINE_PASSED';
+
+export function archiveAfterMs() {
+  return env.CHALLENGE_ARCHIVE_AFTER_DAYS * DAY_MS;
+}
+
+export function isPastDeadline(
+  c: Pick<LifecycleFields, 'deadline'>,
+  now: Date
+) {
+  return !!c.deadline && c.deadline.getTime() <= now.getTime();
+}
+
+/** The phase right now — an OPEN challenge past its deadline is already judging, job or not */
+export function challengePhase(
+  c: LifecycleFields,
+  now = new Date()
+): ChallengePhase {
+  if (c.status === 'ARCHIVED') return 'ARCHIVED';
+  if (c.status === 'OPEN' && !isPastDeadline(c, now)) return 'OPEN';
+  return 'JUDGING';
+}
+
+/** Why a submission can't be accepted now, or null */
+export function submissionDenial(
+  c: LifecycleFields,
+  now = new Date()
+): SubmissionDenial | null {
+  if (c.status !== 'OPEN') return 'CHALLENGE_NOT_OPEN';
+  if (isPastDeadline(c, now)) return 'DEADLINE_PASSED';
+  return null;
+}
+
+/** Prizes but no results yet: judging stays open until the owner announces */
+function awaitsResults(c: LifecycleFields) {
+  return !!c.prizes?.length && !c.resultsAnnouncedAt;
+}
+
+/** When judging started: the recorded close, else the deadline that triggered it */
+function closedSince(c: LifecycleFields, now: Date): Date | null {
+  if (c.closedAt) return c.closedAt;
+  if (isPastDeadline(c, now)) return c.deadline;
+  return null;
+}
+
+/** Owner-facing lifecycle summary for the challenge serializer */
+export function describeLifecycle(c: LifecycleFields, now = new Date()) {
+  const phase = challengePhase(c, now);
+  const since = phase === 'JUDGING' ? closedSince(c, now) : null;
+  const waiting = phase === 'JUDGING' && awaitsResults(c);
+  const archivesAt =
+    since && !waiting ? new Date(since.getTime() + archiveAfterMs()) : null;
+  return {
+    phase,
+    acceptingSubmissions: phase === 'OPEN',
+    closesAt: phase === 'OPEN' ? c.deadline?.toISOString() ?? null : null,
+    judging:
+      phase === 'JUDGING'
+        ? {
+            startedAt: since?.toISOString() ?? null,
+            endsAt: archivesAt?.toISOString() ?? null,
+            awaitingResults: waiting
+          }
+        : null
+  };
+}
+
+/**
+ * The closedAt to write alongside an owner's status change:
+ * closing by hand starts the judging window now, reopening clears it.
+ */
+export function closedAtForStatus(
+  next: ChallengeStatus | undefined,
+  prev: ChallengeStatus,
+  now = new Date()
+): Date | null | undefined {
+  if (!next || next === prev) return undefined;
+  if (next === 'OPEN') return null;
+  if (next === 'CLOSED') return now;
+  return undefined;
+}
+
+/**
+ * Job: close OPEN challenges whose deadline has passed, then archive
+ * CLOSED ones whose judging window (CHALLENGE_ARCHIVE_AFTER_DAYS) is over.
+ * A challenge with prizes is only archived once its results are announced:
+ * awards can't be made on an archived challenge.
+ */
+export async function runChallengeLifecycle(now = new Date()) {
+  const due = await prisma.challenge.findMany({
+    where: { status: 'OPEN', deadline: { lte: now } },
+    select: { id: true, deadline: true }
+  });
+  let closed = 0;
+  for (const c of due) {
+    // guarded on status/deadline so an owner's concurrent edit wins;
+    // the window starts at the deadline, not whenever the job got to it
+    const out = await prisma.challenge.updateMany({
+      where: { id: c.id, status: 'OPEN', deadline: c.deadline },
+      data: { status: 'CLOSED', closedAt: c.deadline }
+    });
+    closed += out.count;
+  }
+
+  // closed before closedAt existed: their window starts now
+  await prisma.challenge.updateMany({
+    where: { status: 'CLOSED', closedAt: null },
+    data: { closedAt: now }
+  });
+
+  const archived = await prisma.challenge.updateMany({
+    where: {
+      status: 'CLOSED',
+      closedAt: { lte: new Date(now.getTime() - archiveAfterMs()) },
+      OR: [{ resultsAnnouncedAt: { not: null } }, { prizes: { none: {} } }]
+    },
+    data: { status: 'ARCHIVED' }
+  });
+  return { closed, archived: archived.count };
+}
@@ -0,0 +1,91 @@
+// src/services/clerkWebhookService.ts
+import { prisma } from '../config/prisma.js';
+import {
+  deactivateAndAnonymizeUser,
+  upsertUserFromClerk
+} from './userService.js';
+
+/** The subset of Clerk's webhook user JSON we read (snake_case, unlike the SDK) */
+type ClerkWebhookUser = {
+  id: string;
+  username?: string | null;
+  first_name?: string | null;
+  last_name?: string | null;
+  image_url?: string | null;
+  primary_email_address_id?: string | null;
+  email_addresses?: Array<{ id: string; email_address: string }>;
+  updated_at?: number; // ms
+};
+
+export type ClerkWebhookEvent = {
+  type: string;
+  data: Record<string, any>;
+};
+
+export type ClerkWebhookOutcome =
+  | 'synced'
+  | 'stale'
+  | 'deactivated'
+  | 'ignored';
+
+function primaryEmail(u: ClerkWebhookUser): string | undefined {
+  const list = u.email_addresses ?? [];
+  return (
+    list.find(e => e.id === u.primary_email_address_id)?.email_address ??
+    list[0]?.email_address ??
+    undefined
+  );
+}
+
+function displayNameOf(u: ClerkWebhookUser): string {
+  const full = `${u.first_name ?? ''} ${u.last_name ?? ''}`.trim();
+  return full || u.username || 'User';
+}
+
+export async function handleClerkEvent(
+  evt: ClerkWebhookEvent
+): Promise<ClerkWebhookOutcome> {
+  if (evt.type === 'user.created' || evt.type === 'user.updated') {
+    const u = evt.data as ClerkWebhookUser;
+    if (!u?.id) return 'ignored';
+
+    // a late update must not resurrect an anonymized row
+    const existing = await prisma.user.findUnique({
+      where: { clerkId: u.id },
+      select: { deactivatedAt: true, clerkUpdatedAt: true }
+    });
+    if (existing?.deactivatedAt) return 'ignored';
+
+    // Svix retries arrive out of order: an older snapshot never overwrites a newer one
+    const asOf = u.updated_at ? new Date(u.updated_at) : undefined;
+    if (asOf && existing?.clerkUpdatedAt && existing.clerkUpdatedAt > asOf) {
+      return 'stale';
+    }
+
+    await upsertUserFromClerk({
+      clerkId: u.id,
+      email: primaryEmail(u),
+      displayName: displayNameOf(u),
+      avatarUrl: u.image_url ?? undefined,
+      asOf
+    });
+    return 'synced';
+  }
+
+  if (evt.type === 'user.deleted') {
+    const clerkId = evt.data?.id as string | undefined;
+    if (!clerkId) return 'ignored';
+
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+      select: { id: true, deactivatedAt: true }
+    });
+    // never seen locally, or a redelivery
+    if (!user || user.deactivatedAt) return 'ignored';
+
+    await deactivateAndAnonymizeUser(user.id);
+    return 'deactivated';
+  }
+
+  return 'ignored';
+}
@@ -0,0 +1,273 @@
+// src/services/dataExportService.ts
+import type { DataExport } from '@prisma/client';
+import { prisma } from '../config/prisma.js';
+import { createZip } from '../utils/zip.js';
+import {
+  deleteObject,
+  getPresignedGetUrl,
+  makeExportArchiveKey,
+  putPrivateObject
+} from './s3UploadService.js';
+
+export const EXPORT_TTL_DAYS = 7;
+// a build that has been "processing" this long died with its process
+const STALE_PROCESSING_MS = 30 * 60 * 1000;
+
+type MediaRef = { key: string; source: string };
+
+function pushKey(
+  media: MediaRef[],
+  key: string | null | undefined,
+  source: string
+) {
+  if (key) media.push({ key, source });
+}
+
+/**
+ * Everything we hold about the user, one entry per archive file.
+ * Owner view: private fields that serializeProfile hides are included.
+ * Submissions others sent to the user's challenges are not (their data, not yours).
+ */
+async function collectUserData(userId: string) {
+  const [user, cards, portfolios, challenges, submissions, subscriptions] =
+    await Promise.all([
+      prisma.user.findUnique({
+        where: { id: userId },
+        include: {
+          industries: { include: { industry: true } },
+          usernameHistory: { orderBy: { changedAt: 'asc' } }
+        }
+      }),
+      prisma.digitalNameCard.findMany({
+        where: { userId },
+        include: { socials: { orderBy: { sortOrder: 'asc' } } },
+        orderBy: { createdAt: 'asc' }
+      }),
+      prisma.portfolio.findMany({
+        where: { userId },
+        include: {
+          subImages: { orderBy: { sortOrder: 'asc' } },
+          videoLinks: true,
+          projects: {
+            include: {
+              subImages: { orderBy: { sortOrder: 'asc' } },
+              videoLinks: true
+            },
+            orderBy: { createdAt: 'asc' }
+          },
+          experiences: { orderBy: { startDate: 'asc' } },
+          educations: { orderBy: { startDate: 'asc' } }
+        },
+        orderBy: { createdAt: 'asc' }
+      }),
+      prisma.challenge.findMany({
+        where: { userId },
+        include: {
+          images: { orderBy: { sortOrder: 'asc' } },
+          prizes: { orderBy: { rank: 'asc' } },
+          _count: { select: { submissions: true } }
+        },
+        orderBy: { createdAt: 'asc' }
+      }),
+      prisma.challengeSubmission.findMany({
+        where: { submitterId: userId },
+        include: {
+          challenge: { select: { id: true, slug: true, title: true } },
+          statusEvents: { orderBy: { createdAt: 'asc' } },
+          awardedPrize: true
+        },
+        orderBy: { createdAt: 'asc' }
+      }),
+      prisma.subscription.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'asc' }
+      })
+    ]);
+  if (!user) throw new Error('NOT_FOUND');
+
+  const media: MediaRef[] = [];
+  pushKey(media, user.avatarKey, 'profile.avatar');
+  pushKey(media, user.bannerKey, 'profile.banner');
+  for (const c of cards) {
+    pushKey(media, c.avatarKey, `card:${c.id}.avatar`);
+    pushKey(media, c.bannerKey, `card:${c.id}.banner`);
+  }
+  for (const p of portfolios) {
+    pushKey(media, p.mainImageKey, `portfolio:${p.id}.mainImage`);
+    p.subImages.forEach(i => pushKey(media, i.key, `portfolio:${p.id}.image`));
+    for (const pr of p.projects) {
+      pushKey(media, pr.mainImageKey, `project:${pr.id}.mainImage`);
+      pr.subImages.forEach(i =>
+        pushKey(media, i.key, `project:${pr.id}.image`)
+      );
+    }
+  }
+  for (const ch of challenges) {
+    pushKey(media, ch.brandLogoKey, `challenge:${ch.id}.brandLogo`);
+    ch.images.forEach(i => pushKey(media, i.key, `challenge:${ch.id}.image`));
+  }
+  for (const s of submissions) {
+    pushKey(media, s.imageKey, `submission:${s.id}.image`);
+  }
+
+  return {
+    files: {
+      'profile.json': user,
+      'digital-name-cards.json': cards,
+      'portfolios.json': portfolios,
+      'challenges.json': challenges,
+      'submissions.json': submissions,
+      'subscriptions.json': subscriptions
+    } as Record<string, unknown>,
+    media
+  };
+}
+
+async function buildArchive(exp: DataExport): Promise<Buffer> {
+  const { files, media } = await collectUserData(exp.userId);
+  const generatedAt = new Date();
+
+  const manifest = {
+    exportId: exp.id,
+    userId: exp.userId,
+    generatedAt: generatedAt.toISOString(),
+    files: Object.keys(files),
+    media
+  };
+
+  return createZip(
+    [
+      { name: 'manifest.json', data: JSON.stringify(manifest, null, 2) },
+      ...Object.entries(files).map(([name, data]) => ({
+        name,
+        data: JSON.stringify(data, null, 2)
+      }))
+    ],
+    generatedAt
+  );
+}
+
+/** Build one export. Claims the row first so two workers never build the same one. */
+export async function processDataExport(exportId: string) {
+  const claimed = await prisma.dataExport.updateMany({
+    where: { id: exportId, status: 'PENDING' },
+    data: { status: 'PROCESSING', startedAt: new Date() }
+  });
+  if (!claimed.count) return;
+
+  const exp = await prisma.dataExport.findUniqueOrThrow({
+    where: { id: exportId }
+  });
+  try {
+    const archive = await buildArchive(exp);
+    const key = makeExportArchiveKey(exp.userId, exp.id);
+    await putPrivateObject(key, archive, 'application/zip');
+
+    const now = new Date();
+    await prisma.dataExport.update({
+      where: { id: exp.id },
+      data: {
+        status: 'READY',
+        archiveKey: key,
+        sizeBytes: archive.length,
+        completedAt: now,
+        expiresAt: new Date(
+          now.getTime() + EXPORT_TTL_DAYS * 24 * 60 * 60 * 1000
+        )
+      }
+    });
+  } catch (e: any) {
+    await prisma.dataExport.update({
+      where: { id: exp.id },
+      data: {
+        status: 'FAILED',
+        error: String(e?.message ?? e).slice(0, 2000),
+        completedAt: new Date()
+      }
+    });
+  }
+}
+
+/**
+ * Queue an export and start building it right away (the job picks up
+ * anything left PENDING). An export already in flight is returned instead.
+ */
+export async function requestDataExport(
+  userId: string
+): Promise<{ export: DataExport; created: boolean }> {
+  const inFlight = await prisma.dataExport.findFirst({
+    where: { userId, status: { in: ['PENDING', 'PROCESSING'] } },
+    orderBy: { createdAt: 'desc' }
+  });
+  if (inFlight) return { export: inFlight, created: false };
+
+  const exp = await prisma.dataExport.create({ data: { userId } });
+  setImmediate(() => {
+    processDataExport(exp.id).catch(err =>
+      console.error(`[data-export] ${exp.id} failed:`, err)
+    );
+  });
+  return { export: exp, created: true };
+}
+
+export async function getDataExport(userId: string, exportId: string) {
+  return prisma.dataExport.findFirst({ where: { id: exportId, userId } });
+}
+
+export async function getLatestDataExport(userId: string) {
+  return prisma.dataExport.findFirst({
+    where: { userId },
+    orderBy: { createdAt: 'desc' }
+  });
+}
+
+/** Presigned link to the archive; throws NOT_FOUND | NOT_READY | EXPIRED */
+export async function getDataExportDownloadUrl(
+  userId: string,
+  exportId: string
+): Promise<string> {
+  const exp = await getDataExport(userId, exportId);
+  if (!exp) throw new Error('NOT_FOUND');
+  if (
+    exp.status === 'EXPIRED' ||
+    (exp.expiresAt && exp.expiresAt <= new Date())
+  ) {
+    throw new Error('EXPIRED');
+  }
+  if (exp.status !== 'READY' || !exp.archiveKey) throw new Error('NOT_READY');
+
+  const day = exp.createdAt.toISOString().slice(0, 10);
+  return getPresignedGetUrl(exp.archiveKey, `streakling-export-${day}.zip`);
+}
+
+/** Job: build queued exports, retry dead builds, delete archives past their TTL */
+export async function runDataExportMaintenance(now = new Date()) {
+  await prisma.dataExport.updateMany({
+    where: {
+      status: 'PROCESSING',
+      startedAt: { lt: new Date(now.getTime() - STALE_PROCESSING_MS) }
+    },
+    data: { status: 'PENDING', startedAt: null }
+  });
+
+  const pending = await prisma.dataExport.findMany({
+    where: { status: 'PENDING' },
+    orderBy: { createdAt: 'asc' },
+    select: { id: true },
+    take: 10
+  });
+  for (const { id } of pending) await processDataExport(id);
+
+  const expired = await prisma.dataExport.findMany({
+    where: { status: 'READY', expiresAt: { lte: now } },
+    select: { id: true, archiveKey: true },
+    take: 100
+  });
+  for (const exp of expired) {
+    if (exp.archiveKey) await deleteObject(exp.archiveKey);
+    await prisma.dataExport.update({
+      where: { id: exp.id },
+      data: { status: 'EXPIRED', archiveKey: null }
+    });
+  }
+}
@@ -0,0 +1,161 @@
+// src/services/entitlementService.ts
+import { prisma } from '../config/prisma.js';
+
+export type Plan = 'free' | 'basic' | 'pro' | 'ultimate';
+
+export type Entitlements = {
+  maxCards: number | null; // null = unlimited
+  maxPortfolios: number | null;
+  maxOpenChallenges: number | null;
+  maxImagesPerProject: number | null;
+  // choose your own portfolio/challenge slug (otherwise derived from title)
+  customSlug: boolean;
+};
+
+export type LimitKey =
+  | 'maxCards'
+  | 'maxPortfolios'
+  | 'maxOpenChallenges'
+  | 'maxImagesPerProject';
+export type FeatureKey = 'customSlug';
+
+/** Cheapest first — used to find the plan that unlocks a limit */
+export const PLAN_ORDER: Plan[] = ['free', 'basic', 'pro', 'ultimate'];
+
+export const PLAN_ENTITLEMENTS: Record<Plan, Entitlements> = {
+  free: {
+    maxCards: 1,
+    maxPortfolios: 1,
+    maxOpenChallenges: 1,
+    maxImagesPerProject: 3,
+    customSlug: false
+  },
+  basic: {
+    maxCards: 3,
+    maxPortfolios: 3,
+    maxOpenChallenges: 3,
+    maxImagesPerProject: 6,
+    customSlug: true
+  },
+  pro: {
+    maxCards: 10,
+    maxPortfolios: 10,
+    maxOpenChallenges: 10,
+    maxImagesPerProject: 12,
+    customSlug: true
+  },
+  ultimate: {
+    maxCards: null,
+    maxPortfolios: null,
+    maxOpenChallenges: null,
+    maxImagesPerProject: 24,
+    customSlug: true
+  }
+};
+
+const LIMIT_LABELS: Record<LimitKey, string> = {
+  maxCards: 'digital name cards',
+  maxPortfolios: 'portfolios',
+  maxOpenChallenges: 'open challenges',
+  maxImagesPerProject: 'images per project'
+};
+
+const FEATURE_LABELS: Record<FeatureKey, string> = {
+  customSlug: 'Custom slugs'
+};
+
+// Paid plans only count while the subscription is in good standing (past_due = grace)
+const PAID_STATUSES = new Set(['active', 'trialing', 'past_due']);
+
+/** Per-user counters for limits that are "how many do you already have" */
+const COUNTERS: Partial<Record<LimitKey, (userId: string) => Promise<number>>> =
+  {
+    maxCards: userId => prisma.digitalNameCard.count({ where: { userId } }),
+    maxPortfolios: userId => prisma.portfolio.count({ where: { userId } }),
+    maxOpenChallenges: userId =>
+      prisma.challenge.count({ where: { userId, status: 'OPEN' } })
+  };
+
+export type EntitlementDenial = {
+  code: 'PLAN_LIMIT_REACHED' | 'PLAN_FEATURE_UNAVAILABLE';
+  message: string;
+  plan: Plan;
+  limit?: LimitKey;
+  feature?: FeatureKey;
+  max?: number;
+  current?: number;
+  requiredPlan: Plan | null; // null = no plan unlocks it
+};
+
+function normalizePlan(plan?: string | null): Plan {
+  return plan === 'basic' || plan === 'pro' || plan === 'ultimate'
+    ? plan
+    : 'free';
+}
+
+export function entitlementsFor(plan: Plan): Entitlements {
+  return PLAN_ENTITLEMENTS[plan];
+}
+
+/** The plan a user is actually entitled to right now */
+export async function getEffectivePlan(userId: string): Promise<Plan> {
+  const u = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { plan: true, subscriptionStatus: true }
+  });
+  const plan = normalizePlan(u?.plan);
+  if (plan === 'free') return plan;
+  return PAID_STATUSES.has(u?.subscriptionStatus ?? '') ? plan : 'free';
+}
+
+function cheapestPlanWhere(pred: (e: Entitlements) => boolean): Plan | null {
+  return PLAN_ORDER.find(p => pred(PLAN_ENTITLEMENTS[p])) ?? null;
+}
+
+/**
+ * Would adding `adding` more items exceed the plan's limit?
+ * Pass `current` for limits that aren't a row count (e.g. images in a payload).
+ */
+export async function checkLimit(
+  userId: string,
+  limit: LimitKey,
+  opts: { current?: number; adding?: number } = {}
+): Promise<EntitlementDenial | null> {
+  const plan = await getEffectivePlan(userId);
+  const max = PLAN_ENTITLEMENTS[plan][limit];
+  if (max === null) return null;
+
+  const adding = opts.adding ?? 1;
+  const counter = COUNTERS[limit];
+  const current = opts.current ?? (counter ? await counter(userId) : 0);
+  if (current + adding <= max) return null;
+
+  const needed = current + adding;
+  return {
+    code: 'PLAN_LIMIT_REACHED',
+    message: `Your ${plan} plan allows up to ${max} ${LIMIT_LABELS[limit]}`,
+    plan,
+    limit,
+    max,
+    current,
+    requiredPlan: cheapestPlanWhere(
+      e => e[limit] === null || e[limit]! >= needed
+    )
+  };
+}
+
+export async function checkFeature(
+  userId: string,
+  feature: FeatureKey
+): Promise<EntitlementDenial | null> {
+  const plan = await getEffectivePlan(userId);
+  if (PLAN_ENTITLEMENTS[plan][feature]) return null;
+
+  return {
+    code: 'PLAN_FEATURE_UNAVAILABLE',
+    message: `${FEATURE_LABELS[feature]} are not included in the ${plan} plan`,
+    plan,
+    feature,
+    requiredPlan: cheapestPlanWhere(e => e[feature])
+  };
+}
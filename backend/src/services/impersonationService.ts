@@ -0,0 +1,133 @@
+// src/services/impersonationService.ts
+import type { Request, Response } from 'express';
+import { prisma } from '../config/prisma.js';
+import {
+  clearAccessCookie,
+  setSessionCookie,
+  type SessionPayload
+} from '../utils/sessionCookie.js';
+import { describeDevice } from '../utils/userAgent.js';
+import { buildSessionPayload } from './sessionService.js';
+import { recordAudit } from './auditService.js';
+
+export const IMPERSONATION_TTL_SECONDS = 30 * 60;
+const SWEEP_BATCH_SIZE = 100;
+
+type EndReason = 'stopped' | 'revoked' | 'expired';
+
+/** Write the session's impersonation.stop entry, once however it ended */
+async function recordEnd(
+  s: { id: string; userId: string; impersonatorId: string | null },
+  reason: EndReason,
+  ip?: string
+) {
+  if (!s.impersonatorId) return false;
+  const claimed = await prisma.session.updateMany({
+    where: { id: s.id, endRecordedAt: null },
+    data: { endRecordedAt: new Date() }
+  });
+  if (claimed.count === 0) return false;
+
+  await recordAudit({
+    actorId: s.impersonatorId,
+    action: 'impersonation.stop',
+    targetUserId: s.userId,
+    ip,
+    metadata: { sessionId: s.id, reason }
+  });
+  return true;
+}
+
+/**
+ * Swap the admin's access cookie for a short-lived one acting as `targetId`.
+ * The admin's refresh cookie is left alone, so once this session is stopped
+ * (or simply expires) the next request restores the admin's own session.
+ */
+export async function startImpersonation(
+  req: Request,
+  res: Response,
+  adminId: string,
+  targetId: string,
+  reason?: string | null
+) {
+  const target = await prisma.user.findUnique({ where: { id: targetId } });
+  if (!target) throw new Error('NOT_FOUND');
+  if (target.role === 'ADMIN') throw new Error('TARGET_IS_ADMIN');
+  if (target.bannedAt || target.deactivatedAt)
+    throw new Error('TARGET_INACTIVE');
+
+  const userAgent = (req.headers['user-agent'] ?? '').slice(0, 512) || null;
+  const expiresAt = new Date(Date.now() + IMPERSONATION_TTL_SECONDS * 1000);
+
+  const session = await prisma.session.create({
+    data: {
+      userId: target.id,
+      impersonatorId: adminId,
+      device: describeDevice(userAgent),
+      userAgent,
+      ip: req.ip ?? null,
+      expiresAt
+    }
+  });
+
+  const payload: SessionPayload = {
+    ...buildSessionPayload(target, session.id),
+    imp: adminId
+  };
+  setSessionCookie(res, payload, IMPERSONATION_TTL_SECONDS);
+
+  await recordAudit({
+    actorId: adminId,
+    action: 'impersonation.start',
+    targetUserId: target.id,
+    ip: req.ip,
+    metadata: { sessionId: session.id, reason: reason ?? null }
+  });
+
+  return { userId: target.id, sessionId: session.id, expiresAt };
+}
+
+/** End the current impersonation session (no-op for normal sessions) */
+export async function stopImpersonation(
+  req: Request,
+  res: Response,
+  sess: SessionPayload
+) {
+  if (!sess.imp || !sess.sid) return false;
+
+  await prisma.session.updateMany({
+    where: { id: sess.sid, revokedAt: null },
+    data: { revokedAt: new Date() }
+  });
+  clearAccessCookie(res);
+
+  await recordEnd(
+    { id: sess.sid, userId: sess.uid, impersonatorId: sess.imp },
+    'stopped',
+    req.ip
+  );
+  return true;
+}
+
+/**
+ * Job: audit impersonation sessions that ended without a stop — the 30 minutes
+ * ran out (the cookie just lapses) or the session was revoked (by the user,
+ * "sign out everywhere", a ban...).
+ */
+export async function recordEndedImpersonations(now = new Date()) {
+  const ended = await prisma.session.findMany({
+    where: {
+      impersonatorId: { not: null },
+      endRecordedAt: null,
+      OR: [{ revokedAt: { not: null } }, { expiresAt: { lte: now } }]
+    },
+    select: { id: true, userId: true, impersonatorId: true, revokedAt: true },
+    take: SWEEP_BATCH_SIZE
+  });
+
+  let recorded = 0;
+  for (const s of ended) {
+    if (await recordEnd(s, s.revokedAt ? 'revoked' : 'expired')) recorded += 1;
+  }
+  return { recorded };
+}
@@ -0,0 +1,341 @@
+// src/services/payoutProviders.ts
+// Where prize money actually moves. The payout service only talks to a PayoutProvider:
+// Stripe (Checkout to collect from the owner, Connect transfers to pay winners) in
+// production, an in-memory fake otherwise.
+import type Stripe from 'stripe';
+import { env } from '../config/env.js';
+import { stripe } from './stripeService.js';
+
+export type PayoutProviderName = 'stripe' | 'fake';
+
+export type ProviderAccount = {
+  payoutsEnabled: boolean;
+  detailsSubmitted: boolean;
+};
+
+export type ProviderPayoutStatus = {
+  status: 'PROCESSING' | 'PAID' | 'FAILED';
+  failureReason?: string | null;
+};
+
+export type ProviderFunding = {
+  status: 'OPEN' | 'PAID' | 'EXPIRED';
+  /** once PAID: what payouts are sent from */
+  sourceRef?: string | null;
+};
+
+export type PayoutProvider = {
+  name: PayoutProviderName;
+  /** A new receiving account for a creator */
+  createAccount(user: { id: string; email: string | null }): Promise<string>;
+  /** Hosted onboarding page for the account */
+  onboardingLink(
+    accountId: string,
+    urls: { returnUrl: string; refreshUrl: string }
+  ): Promise<string>;
+  getAccount(accountId: string): Promise<ProviderAccount>;
+  /** Hosted checkout where a challenge owner pays in prize money */
+  createFunding(input: {
+    amountCents: number;
+    currency: string;
+    description: string;
+    email: string | null;
+    idempotencyKey: string;
+    metadata: Record<string, string>;
+    successUrl: string;
+    cancelUrl: string;
+  }): Promise<{ reference: string; url: string }>;
+  getFunding(reference: string): Promise<ProviderFunding>;
+  /**
+   * Send money; the idempotency key makes a retried request a no-op.
+   * A definite decline resolves as FAILED (no reference); throws only when the
+   * outcome is unknown (network error, 5xx), so the caller retries with the same key.
+   */
+  sendPayout(input: {
+    accountId: string;
+    /** the paid funding's sourceRef: the money comes from there */
+    sourceRef: string;
+    amountCents: number;
+    currency: string;
+    idempotencyKey: string;
+    metadata: Record<string, string>;
+  }): Promise<{ reference: string | null } & ProviderPayoutStatus>;
+  getPayoutStatus(reference: string): Promise<ProviderPayoutStatus>;
+};
+
+// ---------------- Stripe Connect ----------------
+
+/** Stripe answered and refused (4xx); 409 and 429 mean "try again", not "no" */
+function isDecline(err: any) {
+  const code = err?.statusCode;
+  return (
+    typeof code === 'number' &&
+    code >= 400 &&
+    code < 500 &&
+    code !== 409 &&
+    code !== 429
+  );
+}
+
+/**
+ * The owner pays through Checkout; transfers to the creator's Express account are
+ * tied to that charge (`source_transaction`), so they never draw on the platform's
+ * own balance. A created transfer has already landed in their Stripe balance, so it
+ * counts as paid; Stripe pays it out to the bank on the account's own schedule.
+ */
+export function createStripeConnectProvider(
+  client: Stripe = stripe
+): PayoutProvider {
+  return {
+    name: 'stripe',
+
+    async createAccount(user) {
+      const account = await client.accounts.create({
+        type: 'express',
+        email: user.email ?? undefined,
+        capabilities: { transfers: { requested: true } },
+        metadata: { appUserId: user.id }
+      });
+      return account.id;
+    },
+
+    async onboardingLink(accountId, urls) {
+      const link = await client.accountLinks.create({
+        account: accountId,
+        type: 'account_onboarding',
+        return_url: urls.returnUrl,
+        refresh_url: urls.refreshUrl
+      });
+      return link.url;
+    },
+
+    async getAccount(accountId) {
+      const a = await client.accounts.retrieve(accountId);
+      return {
+        payoutsEnabled:
+          !!a.payouts_enabled && a.capabilities?.transfers === 'active',
+        detailsSubmitted: !!a.details_submitted
+      };
+    },
+
+    async createFunding(input) {
+      const session = await client.checkout.sessions.create(
+        {
+          mode: 'payment',
+          customer_email: input.email ?? undefined,
+          line_items: [
+            {
+              quantity: 1,
+              price_data: {
+                currency: input.currency,
+                unit_amount: input.amountCents,
+                product_data: { name: input.description }
+              }
+            }
+          ],
+          payment_intent_data: { metadata: input.metadata },
+          metadata: input.metadata,
+          success_url: input.successUrl,
+          cancel_url: input.cancelUrl
+        },
+        { idempotencyKey: input.idempotencyKey }
+      );
+      return { reference: session.id, url: session.url! };
+    },
+
+    async getFunding(reference) {
+      const session = await client.checkout.sessions.retrieve(reference, {
+        expand: ['payment_intent']
+      });
+      if (session.payment_status === 'paid') {
+        const pi = session.payment_intent as Stripe.PaymentIntent | null;
+        const charge = pi?.latest_charge;
+        return {
+          status: 'PAID',
+          sourceRef: typeof charge === 'string' ? charge : charge?.id ?? null
+        };
+      }
+      return { status: session.status === 'expired' ? 'EXPIRED' : 'OPEN' };
+    },
+
+    async sendPayout(input) {
+      try {
+        const transfer = await client.transfers.create(
+          {
+            amount: input.amountCents,
+            currency: input.currency,
+            destination: input.accountId,
+            source_transaction: input.sourceRef,
+            metadata: input.metadata
+          },
+          { idempotencyKey: input.idempotencyKey }
+        );
+        return { reference: transfer.id, status: 'PAID' };
+      } catch (err: any) {
+        if (!isDecline(err)) throw err;
+        return {
+          reference: null,
+          status: 'FAILED',
+          failureReason: String(err.message ?? err)
+        };
+      }
+    },
+
+    async getPayoutStatus(reference) {
+      const transfer = await client.transfers.retrieve(reference);
+      return transfer.reversed
+        ? { status: 'FAILED', failureReason: 'Transfer was reversed' }
+        : { status: 'PAID' };
+    }
+  };
+}
+
+// ---------------- In-memory fake ----------------
+
+export type FakePayoutProvider = PayoutProvider & {
+  /** Settle a PROCESSING payout the way the real provider eventually would */
+  settle(reference: string, outcome: ProviderPayoutStatus): void;
+  /** The owner completes (or abandons) a checkout */
+  payFunding(reference: string): void;
+  expireFunding(reference: string): void;
+  /** Make the next sendPayout come back FAILED (e.g. insufficient platform balance) */
+  declineNextPayout(message: string): void;
+  /**
+   * Make the next sendPayout throw as if the connection dropped; with
+   * `delivered` the payout went through before the answer was lost.
+   */
+  interruptNextPayout(message: string, opts?: { delivered?: boolean }): void;
+};
+
+/**
+ * Accounts are ready as soon as their onboarding link is created; fundings stay
+ * OPEN until paid; payouts are PROCESSING until settled, or until their status
+ * is first read back (then PAID).
+ */
+export function createFakePayoutProvider(): FakePayoutProvider {
+  const accounts = new Map<string, ProviderAccount>();
+  const fundings = new Map<string, ProviderFunding>();
+  const fundingByKey = new Map<string, string>();
+  const payouts = new Map<string, ProviderPayoutStatus>();
+  const byIdempotencyKey = new Map<string, string>();
+  let nextDecline: string | null = null;
+  let nextInterrupt: { message: string; delivered: boolean } | null = null;
+  let seq = 0;
+
+  return {
+    name: 'fake',
+
+    async createAccount() {
+      const id = `fake_acct_${++seq}`;
+      accounts.set(id, { payoutsEnabled: false, detailsSubmitted: false });
+      return id;
+    },
+
+    async onboardingLink(accountId, urls) {
+      if (!accounts.has(accountId)) throw new Error('FAKE_ACCOUNT_NOT_FOUND');
+      accounts.set(accountId, { payoutsEnabled: true, detailsSubmitted: true });
+      return urls.returnUrl;
+    },
+
+    async getAccount(accountId) {
+      const a = accounts.get(accountId);
+      if (!a) throw new Error('FAKE_ACCOUNT_NOT_FOUND');
+      return a;
+    },
+
+    async createFunding(input) {
+      let reference = fundingByKey.get(input.idempotencyKey);
+      if (!reference) {
+        reference = `fake_cs_${++seq}`;
+        fundings.set(reference, { status: 'OPEN' });
+        fundingByKey.set(input.idempotencyKey, reference);
+      }
+      return { reference, url: `${input.successUrl}#${reference}` };
+    },
+
+    async getFunding(reference) {
+      const f = fundings.get(reference);
+      if (!f) throw new Error('FAKE_FUNDING_NOT_FOUND');
+      return f;
+    },
+
+    async sendPayout(input) {
+      const seen = byIdempotencyKey.get(input.idempotencyKey);
+      if (seen) return { reference: seen, ...payouts.get(seen)! };
+      const paidIn = [...fundings.values()].some(
+        f => f.status === 'PAID' && f.sourceRef === input.sourceRef
+      );
+      if (!paidIn) {
+        return {
+          reference: null,
+          status: 'FAILED',
+          failureReason: 'FAKE_FUNDING_NOT_PAID'
+        };
+      }
+      if (nextDecline) {
+        const failureReason = nextDecline;
+        nextDecline = null;
+        return { reference: null, status: 'FAILED', failureReason };
+      }
+      if (!accounts.get(input.accountId)?.payoutsEnabled) {
+        return {
+          reference: null,
+          status: 'FAILED',
+          failureReason: 'FAKE_ACCOUNT_NOT_ENABLED'
+        };
+      }
+      const interrupt = nextInterrupt;
+      nextInterrupt = null;
+      if (interrupt && !interrupt.delivered) throw new Error(interrupt.message);
+
+      const reference = `fake_tr_${++seq}`;
+      payouts.set(reference, { status: 'PROCESSING' });
+      byIdempotencyKey.set(input.idempotencyKey, reference);
+      if (interrupt) throw new Error(interrupt.message);
+      return { reference, status: 'PROCESSING' };
+    },
+
+    async getPayoutStatus(reference) {
+      const p = payouts.get(reference);
+      if (!p) throw new Error('FAKE_PAYOUT_NOT_FOUND');
+      if (p.status !== 'PROCESSING') return p;
+      const paid: ProviderPayoutStatus = { status: 'PAID' };
+      payouts.set(reference, paid);
+      return paid;
+    },
+
+    settle(reference, outcome) {
+      payouts.set(reference, outcome);
+    },
+
+    payFunding(reference) {
+      fundings.set(reference, {
+        status: 'PAID',
+        sourceRef: `fake_ch_${++seq}`
+      });
+    },
+
+    expireFunding(reference) {
+      fundings.set(reference, { status: 'EXPIRED' });
+    },
+
+    declineNextPayout(message) {
+      nextDecline = message;
+    },
+
+    interruptNextPayout(message, opts = {}) {
+      nextInterrupt = { message, delivered: !!opts.delivered };
+    }
+  };
+}
+
+let configured: PayoutProvider | null = null;
+
+/** The provider picked by PAYOUT_PROVIDER (built once per process) */
+export function getPayoutProvider(): PayoutProvider {
+  configured ??=
+    env.PAYOUT_PROVIDER === 'fake'
+      ? createFakePayoutProvider()
+      : createStripeConnectProvider();
+  return configured;
+}
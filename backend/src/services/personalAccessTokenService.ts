@@ -0,0 +1,111 @@
+// src/services/personalAccessTokenService.ts
+import { randomBytes } from 'crypto';
+import type { User } from '@prisma/client';
+import { prisma } from '../config/prisma.js';
+import { hashToken } from './sessionService.js';
+import type { TokenScope } from '../config/scopes.js';
+
+// Recognisable prefix so leaked tokens are easy to grep for / secret-scan
+export const PAT_PREFIX = 'stk_pat_';
+export const MAX_ACTIVE_TOKENS = 25;
+
+// Don't write lastUsedAt on every request
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+const publicSelect = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  revokedAt: true,
+  createdAt: true
+} as const;
+
+export function isPersonalAccessToken(raw: string) {
+  return raw.startsWith(PAT_PREFIX);
+}
+
+export async function countActiveTokens(userId: string) {
+  return prisma.personalAccessToken.count({
+    where: {
+      userId,
+      revokedAt: null,
+      OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }]
+    }
+  });
+}
+
+/** Create a token. The raw value is returned once and never stored. */
+export async function createPersonalAccessToken(
+  userId: string,
+  input: { name: string; scopes: TokenScope[]; expiresInDays?: number | null }
+) {
+  const raw = `${PAT_PREFIX}${randomBytes(32).toString('base64url')}`;
+  const expiresAt = input.expiresInDays
+    ? new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000)
+    : null;
+
+  const token = await prisma.personalAccessToken.create({
+    data: {
+      userId,
+      name: input.name,
+      tokenHash: hashToken(raw),
+      prefix: raw.slice(0, PAT_PREFIX.length + 6),
+      scopes: Array.from(new Set(input.scopes)),
+      expiresAt
+    },
+    select: publicSelect
+  });
+  return { token, raw };
+}
+
+export async function listPersonalAccessTokens(userId: string) {
+  return prisma.personalAccessToken.findMany({
+    where: { userId, revokedAt: null },
+    orderBy: { createdAt: 'desc' },
+    select: publicSelect
+  });
+}
+
+/** Returns false if the token isn't the user's (or is already revoked) */
+export async function revokePersonalAccessToken(userId: string, id: string) {
+  const out = await prisma.personalAccessToken.updateMany({
+    where: { id, userId, revokedAt: null },
+    data: { revokedAt: new Date() }
+  });
+  return out.count > 0;
+}
+
+/**
+ * Resolve a bearer token to its user + scopes.
+ * Null when unknown, revoked, expired, or the user is banned/deactivated.
+ */
+export async function authenticatePersonalAccessToken(
+  raw: string
+): Promise<{ user: User; tokenId: string; scopes: TokenScope[] } | null> {
+  const row = await prisma.personalAccessToken.findUnique({
+    where: { tokenHash: hashToken(raw) },
+    include: { user: true }
+  });
+  if (!row || row.revokedAt) return null;
+  if (row.expiresAt && row.expiresAt <= new Date()) return null;
+  if (row.user.bannedAt || row.user.deactivatedAt) return null;
+
+  if (
+    !row.lastUsedAt ||
+    Date.now() - row.lastUsedAt.getTime() > TOUCH_INTERVAL_MS
+  ) {
+    await prisma.personalAccessToken.update({
+      where: { id: row.id },
+      data: { lastUsedAt: new Date() }
+    });
+  }
+
+  return {
+    user: row.user,
+    tokenId: row.id,
+    scopes: (Array.isArray(row.scopes) ? row.scopes : []) as TokenScope[]
+  };
+}
@@ -0,0 +1,455 @@
+// src/services/prizePayoutService.ts
+// One PrizePayout per awarded prize with an amount, created when results are announced.
+// Winners onboard a payout account; owners pay the prize money in, then send each
+// payout from it, and the job follows up.
+import type { Prisma, PrizeFunding, PrizePayout } from '@prisma/client';
+import { prisma } from '../config/prisma.js';
+import { env } from '../config/env.js';
+import { getPayoutProvider, type PayoutProvider } from './payoutProviders.js';
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+export const PAYOUT_CURRENCY = 'usd';
+const SYNC_BATCH_SIZE = 100;
+// a PROCESSING payout without a provider reference was interrupted mid-send
+const INTERRUPTED_AFTER_MS = 10 * 60 * 1000;
+
+export function serializePayout(p: PrizePayout) {
+  return {
+    id: p.id,
+    challengeId: p.challengeId,
+    submissionId: p.submissionId,
+    prize: { rank: p.prizeRank, label: p.prizeLabel },
+    amountCents: p.amountCents,
+    currency: p.currency,
+    status: p.status,
+    fundingId: p.fundingId,
+    failureReason: p.failureReason,
+    attempts: p.attempts,
+    paidAt: p.paidAt?.toISOString() ?? null,
+    createdAt: p.createdAt.toISOString(),
+    updatedAt: p.updatedAt.toISOString()
+  };
+}
+
+/** Payouts for the challenge's awarded prizes (call inside the announce transaction) */
+export async function createPrizePayouts(db: Db, challengeId: string) {
+  const prizes = await db.challengePrize.findMany({
+    where: {
+      challengeId,
+      awardedSubmissionId: { not: null },
+      amountCents: { gt: 0 }
+    },
+    select: {
+      id: true,
+      rank: true,
+      label: true,
+      amountCents: true,
+      awardedSubmission: { select: { id: true, submitterId: true } }
+    }
+  });
+  const out = await db.prizePayout.createMany({
+    data: prizes.map(p => ({
+      prizeId: p.id,
+      prizeRank: p.rank,
+      prizeLabel: p.label,
+      challengeId,
+      submissionId: p.awardedSubmission?.id ?? null,
+      recipientId: p.awardedSubmission?.submitterId ?? null,
+      amountCents: p.amountCents!,
+      currency: PAYOUT_CURRENCY
+    })),
+    skipDuplicates: true
+  });
+  return out.count;
+}
+
+// ---------------- Creator payout account ----------------
+
+function serializeAccount(
+  a: {
+    provider: string;
+    payoutsEnabled: boolean;
+    detailsSubmitted: boolean;
+  } | null
+) {
+  return {
+    connected: !!a,
+    provider: a?.provider ?? null,
+    payoutsEnabled: a?.payoutsEnabled ?? false,
+    detailsSubmitted: a?.detailsSubmitted ?? false
+  };
+}
+
+/** The user's account with the active provider (one from another provider doesn't count) */
+async function findPayoutAccount(userId: string, provider: PayoutProvider) {
+  const a = await prisma.payoutAccount.findUnique({ where: { userId } });
+  return a && a.provider === provider.name ? a : null;
+}
+
+/** Re-read onboarding state from the provider */
+async function refreshAccount(
+  a: { id: string; providerAccountId: string },
+  provider: PayoutProvider
+) {
+  const state = await provider.getAccount(a.providerAccountId);
+  return prisma.payoutAccount.update({
+    where: { id: a.id },
+    data: {
+      payoutsEnabled: state.payoutsEnabled,
+      detailsSubmitted: state.detailsSubmitted
+    }
+  });
+}
+
+export async function getPayoutAccountStatus(
+  userId: string,
+  opts: { refresh?: boolean } = {},
+  provider = getPayoutProvider()
+) {
+  let a = await findPayoutAccount(userId, provider);
+  if (a && opts.refresh) a = await refreshAccount(a, provider);
+  return serializeAccount(a);
+}
+
+/** Hosted onboarding URL, creating the provider account on first use */
+export async function startPayoutOnboarding(
+  userId: string,
+  provider = getPayoutProvider()
+) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, email: true }
+  });
+  if (!user) throw new Error('NOT_FOUND');
+
+  let a = await findPayoutAccount(user.id, provider);
+  if (!a) {
+    const providerAccountId = await provider.createAccount(user);
+    const data = {
+      provider: provider.name,
+      providerAccountId,
+      payoutsEnabled: false,
+      detailsSubmitted: false
+    };
+    a = await prisma.payoutAccount.upsert({
+      where: { userId: user.id },
+      create: { userId: user.id, ...data },
+      update: data
+    });
+  }
+  const page = `${env.PUBLIC_APP_URL}/settings/payouts`;
+  return provider.onboardingLink(a.providerAccountId, {
+    returnUrl: `${page}?onboarding=done`,
+    refreshUrl: `${page}?onboarding=retry`
+  });
+}
+
+// ---------------- Funding ----------------
+
+function serializeFunding(f: PrizeFunding) {
+  return {
+    id: f.id,
+    status: f.status,
+    amountCents: f.amountCents,
+    currency: f.currency,
+    checkoutUrl: f.status === 'OPEN' ? f.checkoutUrl : null,
+    paidAt: f.paidAt?.toISOString() ?? null
+  };
+}
+
+/** Re-read a checkout's state from the provider */
+async function refreshFunding(f: PrizeFunding, provider: PayoutProvider) {
+  const state = await provider.getFunding(f.providerRef);
+  if (state.status === f.status) return f;
+  return prisma.prizeFunding.update({
+    where: { id: f.id },
+    data: {
+      status: state.status,
+      sourceRef: state.sourceRef ?? null,
+      paidAt: state.status === 'PAID' ? new Date() : null
+    }
+  });
+}
+
+/**
+ * Checkout for the owner to pay in the money for every payout not covered yet.
+ * A checkout that is still open is handed out again instead of a second one.
+ * Throws NOT_FOUND or NOTHING_TO_FUND.
+ */
+export async function fundChallengePayouts(
+  ownerId: string,
+  challengeId: string,
+  provider = getPayoutProvider()
+) {
+  const c = await prisma.challenge.findFirst({
+    where: { id: challengeId, userId: ownerId },
+    select: { id: true, title: true, user: { select: { email: true } } }
+  });
+  if (!c) throw new Error('NOT_FOUND');
+
+  const open = await prisma.prizeFunding.findMany({
+    where: { challengeId, status: 'OPEN', provider: provider.name }
+  });
+  for (const f of open) {
+    const current = await refreshFunding(f, provider);
+    if (current.status === 'OPEN') return serializeFunding(current);
+  }
+
+  const unfunded = await prisma.prizePayout.findMany({
+    where: {
+      challengeId,
+      status: 'PENDING',
+      OR: [{ fundingId: null }, { funding: { status: 'EXPIRED' } }]
+    },
+    select: { id: true, amountCents: true }
+  });
+  if (!unfunded.length) throw new Error('NOTHING_TO_FUND');
+
+  const amountCents = unfunded.reduce((n, p) => n + p.amountCents, 0);
+  const previous = await prisma.prizeFunding.count({ where: { challengeId } });
+  const page = `${env.PUBLIC_APP_URL}/challenges/${challengeId}/payouts`;
+  const checkout = await provider.createFunding({
+    amountCents,
+    currency: PAYOUT_CURRENCY,
+    description: `Prize money: ${c.title}`,
+    email: c.user?.email ?? null,
+    idempotencyKey: `prize-funding:${challengeId}:${previous + 1}`,
+    metadata: { challengeId, ownerId },
+    successUrl: `${page}?funding=done`,
+    cancelUrl: `${page}?funding=cancelled`
+  });
+
+  const funding = await prisma.$transaction(async tx => {
+    // a concurrent request got the same checkout back (same idempotency key)
+    const f = await tx.prizeFunding.upsert({
+      where: { providerRef: checkout.reference },
+      create: {
+        challengeId,
+        ownerId,
+        amountCents,
+        currency: PAYOUT_CURRENCY,
+        provider: provider.name,
+        providerRef: checkout.reference,
+        checkoutUrl: checkout.url
+      },
+      update: {}
+    });
+    await tx.prizePayout.updateMany({
+      where: { id: { in: unfunded.map(p => p.id) } },
+      data: { fundingId: f.id }
+    });
+    return f;
+  });
+  return serializeFunding(funding);
+}
+
+/** What the payout is sent from: its funding's source once paid, else null */
+async function fundingSource(p: PrizePayout, provider: PayoutProvider) {
+  let f = p.fundingId
+    ? await prisma.prizeFunding.findUnique({ where: { id: p.fundingId } })
+    : null;
+  if (!f || f.provider !== provider.name) return null;
+  if (f.status === 'OPEN') f = await refreshFunding(f, provider);
+  return f.status === 'PAID' ? f.sourceRef : null;
+}
+
+// ---------------- Payouts ----------------
+
+/** Every payout of the owner's challenge; null when it isn't theirs */
+export async function listChallengePayouts(
+  ownerId: string,
+  challengeId: string
+) {
+  const c = await prisma.challenge.findFirst({
+    where: { id: challengeId, userId: ownerId },
+    select: { id: true }
+  });
+  if (!c) return null;
+  const rows = await prisma.prizePayout.findMany({
+    where: { challengeId },
+    orderBy: { prizeRank: 'asc' }
+  });
+  return rows.map(serializePayout);
+}
+
+/** Payouts the user has won, newest first */
+export async function listMyPayouts(userId: string) {
+  const rows = await prisma.prizePayout.findMany({
+    where: { recipientId: userId },
+    orderBy: { createdAt: 'desc' }
+  });
+  return rows.map(serializePayout);
+}
+
+/**
+ * Hand a claimed (PROCESSING) payout to the provider and store the outcome.
+ * The idempotency key is per attempt: when the outcome is unknown (the provider
+ * threw) the payout stays PROCESSING and the sync job resumes it with the same
+ * key, so it can't pay twice. Only a definite decline makes it FAILED, and a
+ * resend after that is a new attempt with a new key.
+ */
+async function deliver(
+  p: PrizePayout,
+  accountId: string,
+  sourceRef: string,
+  attempt: number,
+  provider: PayoutProvider
+) {
+  try {
+    const sent = await provider.sendPayout({
+      accountId,
+      sourceRef,
+      amountCents: p.amountCents,
+      currency: p.currency,
+      idempotencyKey: `prize-payout:${p.id}:${attempt}`,
+      metadata: {
+        payoutId: p.id,
+        challengeId: p.challengeId,
+        ...(p.prizeId ? { prizeId: p.prizeId } : {})
+      }
+    });
+    return prisma.prizePayout.update({
+      where: { id: p.id },
+      data: {
+        providerRef: sent.reference,
+        status: sent.status,
+        failureReason: sent.failureReason?.slice(0, 2000) ?? null,
+        paidAt: sent.status === 'PAID' ? new Date() : null
+      }
+    });
+  } catch (err) {
+    console.error(`[payouts] send ${p.id} (outcome unknown):`, err);
+    return prisma.prizePayout.findUniqueOrThrow({
+      where: { id: p.id }
+    });
+  }
+}
+
+/**
+ * Owner sends one PENDING or FAILED payout. Throws NOT_FOUND, ALREADY_SENT,
+ * RECIPIENT_GONE, RECIPIENT_NOT_ONBOARDED or NOT_FUNDED (the owner hasn't paid
+ * the prize money in: nothing ever leaves the platform's own balance). A provider decline is not thrown:
+ * it comes back as a FAILED payout with its reason; an unknown outcome comes
+ * back PROCESSING and is left to the sync job.
+ */
+export async function sendPrizePayout(
+  ownerId: string,
+  challengeId: string,
+  payoutId: string,
+  provider = getPayoutProvider()
+) {
+  const p = await prisma.prizePayout.findFirst({
+    where: { id: payoutId, challengeId }
+  });
+  const owned =
+    p &&
+    (await prisma.challenge.findFirst({
+      where: { id: challengeId, userId: ownerId },
+      select: { id: true }
+    }));
+  if (!p || !owned) throw new Error('NOT_FOUND');
+  if (p.status === 'PAID' || p.status === 'PROCESSING') {
+    throw new Error('ALREADY_SENT');
+  }
+  if (!p.recipientId) throw new Error('RECIPIENT_GONE');
+
+  let account = await findPayoutAccount(p.recipientId, provider);
+  if (account && !account.payoutsEnabled) {
+    account = await refreshAccount(account, provider);
+  }
+  if (!account?.payoutsEnabled) throw new Error('RECIPIENT_NOT_ONBOARDED');
+
+  const sourceRef = await fundingSource(p, provider);
+  if (!sourceRef) throw new Error('NOT_FUNDED');
+
+  // claim it, so a double click can't send twice
+  const claimed = await prisma.prizePayout.updateMany({
+    where: { id: p.id, status: { in: ['PENDING', 'FAILED'] } },
+    data: {
+      status: 'PROCESSING',
+      attempts: { increment: 1 },
+      provider: provider.name,
+      providerRef: null,
+      failureReason: null
+    }
+  });
+  if (claimed.count === 0) throw new Error('ALREADY_SENT');
+
+  const updated = await deliver(
+    p,
+    account.providerAccountId,
+    sourceRef,
+    p.attempts + 1,
+    provider
+  );
+  return serializePayout(updated);
+}
+
+/**
+ * Job: follow PROCESSING payouts until the provider settles them, and resume
+ * sends that were interrupted before the provider answered.
+ */
+export async function runPayoutSync(
+  now = new Date(),
+  provider = getPayoutProvider()
+) {
+  const rows = await prisma.prizePayout.findMany({
+    where: { status: 'PROCESSING', provider: provider.name },
+    orderBy: { updatedAt: 'asc' },
+    take: SYNC_BATCH_SIZE
+  });
+
+  let settled = 0;
+  let resumed = 0;
+  for (const p of rows) {
+    try {
+      if (!p.providerRef) {
+        if (now.getTime() - p.updatedAt.getTime() < INTERRUPTED_AFTER_MS) {
+          continue; // probably still in flight
+        }
+        const account = p.recipientId
+          ? await findPayoutAccount(p.recipientId, provider)
+          : null;
+        const sourceRef = await fundingSource(p, provider);
+        if (!account || !sourceRef) {
+          await prisma.prizePayout.update({
+            where: { id: p.id },
+            data: {
+              status: 'FAILED',
+              failureReason: account
+                ? 'Prize money was not paid in'
+                : 'Winner has no payout account'
+            }
+          });
+          continue;
+        }
+        // same attempt number → same idempotency key
+        await deliver(
+          p,
+          account.providerAccountId,
+          sourceRef,
+          p.attempts,
+          provider
+        );
+        resumed += 1;
+        continue;
+      }
+
+      const state = await provider.getPayoutStatus(p.providerRef);
+      if (state.status === 'PROCESSING') continue;
+      await prisma.prizePayout.updateMany({
+        where: { id: p.id, status: 'PROCESSING' },
+        data: {
+          status: state.status,
+          failureReason: state.failureReason ?? null,
+          paidAt: state.status === 'PAID' ? now : null
+        }
+      });
+      settled += 1;
+    } catch (err) {
+      console.error(`[payouts] sync ${p.id}:`, err);
+    }
+  }
+  return { settled, resumed };
+}
@@ -0,0 +1,289 @@
+// src/services/publishScheduleService.ts
+// Scheduled publish/unpublish for cards, portfolios and challenges.
+// Owners set publishAt/unpublishAt; the job flips publishStatus when they come due.
+import type { PublishStatus } from '@prisma/client';
+import { prisma } from '../config/prisma.js';
+
+export type PublishableType = 'CARD' | 'PORTFOLIO' | 'CHALLENGE';
+
+export type ScheduleFields = {
+  publishAt?: Date | null;
+  unpublishAt?: Date | null;
+};
+
+export type ScheduleViolation = {
+  field: 'publishStatus' | 'publishAt' | 'unpublishAt';
+  message: string;
+};
+
+// a little slack for clocks and slow forms
+const PAST_TOLERANCE_MS = 60_000;
+const BATCH_SIZE = 100;
+
+type Row = {
+  id: string;
+  publishStatus: PublishStatus;
+  publishedAt: Date | null;
+  publishAt: Date | null;
+  unpublishAt: Date | null;
+};
+
+// Prisma delegates differ per model; the job only needs these two calls
+type Delegate = {
+  findMany(args: any): Promise<Row[]>;
+  updateMany(args: any): Promise<{ count: number }>;
+};
+
+const MODELS: Record<
+  PublishableType,
+  {
+    delegate: () => Delegate;
+    // mirrors each controller: cards keep publishedAt when made PRIVATE,
+    // portfolios and challenges reset it whenever they stop being PUBLISHED
+    clearsPublishedAt: (next: PublishStatus) => boolean;
+  }
+> = {
+  CARD: {
+    delegate: () => prisma.digitalNameCard as unknown as Delegate,
+    clearsPublishedAt: next => next === 'DRAFT'
+  },
+  PORTFOLIO: {
+    delegate: () => prisma.portfolio as unknown as Delegate,
+    clearsPublishedAt: next => next !== 'PUBLISHED'
+  },
+  CHALLENGE: {
+    delegate: () => prisma.challenge as unknown as Delegate,
+    clearsPublishedAt: next => next !== 'PUBLISHED'
+  }
+};
+
+const ROW_SELECT = {
+  id: true,
+  publishStatus: true,
+  publishedAt: true,
+  publishAt: true,
+  unpublishAt: true
+};
+
+/**
+ * Schedule columns to write for a create/update, or the violation.
+ * A manual status change supersedes the matching pending schedule:
+ * publishing by hand drops publishAt, unpublishing by hand drops unpublishAt.
+ * Content a moderator took down can't be published, now or later.
+ */
+export function resolveSchedule(
+  input: ScheduleFields & { publishStatus?: PublishStatus },
+  existing:
+    | (Pick<Row, 'publishAt' | 'unpublishAt'> & { takenDownAt?: Date | null })
+    | null,
+  now = new Date()
+): { data: ScheduleFields } | { violation: ScheduleViolation } {
+  if (existing?.takenDownAt) {
+    const field =
+      input.publishStatus === 'PUBLISHED'
+        ? 'publishStatus'
+        : input.publishAt
+        ? 'publishAt'
+        : null;
+    if (field) {
+      return {
+        violation: {
+          field,
+          message: 'This was taken down by a moderator and cannot be published'
+        }
+      };
+    }
+  }
+
+  const data: ScheduleFields = {};
+  if (input.publishAt !== undefined) data.publishAt = input.publishAt;
+  if (input.unpublishAt !== undefined) data.unpublishAt = input.unpublishAt;
+
+  const earliest = now.getTime() - PAST_TOLERANCE_MS;
+  for (const field of ['publishAt', 'unpublishAt'] as const) {
+    const at = data[field];
+    if (at && at.getTime() < earliest) {
+      return { violation: { field, message: 'Pick a time in the future' } };
+    }
+  }
+
+  if (input.publishStatus === 'PUBLISHED' && data.publishAt === undefined) {
+    data.publishAt = null;
+  }
+  if (
+    input.publishStatus &&
+    input.publishStatus !== 'PUBLISHED' &&
+    data.unpublishAt === undefined
+  ) {
+    data.unpublishAt = null;
+  }
+
+  const publishAt =
+    data.publishAt !== undefined ? data.publishAt : existing?.publishAt ?? null;
+  const unpublishAt =
+    data.unpublishAt !== undefined
+      ? data.unpublishAt
+      : existing?.unpublishAt ?? null;
+  if (publishAt && unpublishAt && unpublishAt <= publishAt) {
+    return {
+      violation: {
+        field: 'unpublishAt',
+        message: 'Unpublish time must be after the publish time'
+      }
+    };
+  }
+  return { data };
+}
+
+// taken-down content and a banned or deactivated owner's content stay down;
+// a detached challenge (no owner) has nobody to publish it for
+const STILL_PUBLISHABLE = {
+  takenDownAt: null,
+  user: { deactivatedAt: null, bannedAt: null }
+};
+
+/** Publish everything whose publishAt has passed */
+async function applyDuePublishes(type: PublishableType, now: Date) {
+  const model = MODELS[type].delegate();
+  const due = await model.findMany({
+    where: { publishAt: { lte: now }, ...STILL_PUBLISHABLE },
+    select: ROW_SELECT,
+    orderBy: { publishAt: 'asc' },
+    take: BATCH_SIZE
+  });
+
+  let applied = 0;
+  for (const row of due) {
+    // guarded on publishAt so an owner's concurrent edit wins
+    const out = await model.updateMany({
+      where: {
+        id: row.id,
+        publishAt: row.publishAt,
+        ...STILL_PUBLISHABLE
+      },
+      data: {
+        publishAt: null,
+        publishStatus: 'PUBLISHED',
+        // first publication is when it was scheduled for, not when the job ran
+        publishedAt: row.publishedAt ?? row.publishAt
+      }
+    });
+    applied += out.count;
+  }
+  return applied;
+}
+
+/** Unpublish (to PRIVATE) everything whose unpublishAt has passed */
+async function applyDueUnpublishes(type: PublishableType, now: Date) {
+  const { delegate, clearsPublishedAt } = MODELS[type];
+  const model = delegate();
+  const due = await model.findMany({
+    where: { unpublishAt: { lte: now } },
+    select: ROW_SELECT,
+    orderBy: { unpublishAt: 'asc' },
+    take: BATCH_SIZE
+  });
+
+  let applied = 0;
+  for (const row of due) {
+    const wasPublished = row.publishStatus === 'PUBLISHED';
+    const out = await model.updateMany({
+      where: { id: row.id, unpublishAt: row.unpublishAt },
+      data: {
+        unpublishAt: null,
+        ...(wasPublished
+          ? {
+              publishStatus: 'PRIVATE',
+              ...(clearsPublishedAt('PRIVATE') ? { publishedAt: null } : {})
+            }
+          : {})
+      }
+    });
+    applied += out.count;
+  }
+  return applied;
+}
+
+/** Job: apply due schedules. Publishes run first, so a past window ends unpublished. */
+export async function runPublishSchedules(now = new Date()) {
+  const result: Record<string, { published: number; unpublished: number }> = {};
+  for (const type of Object.keys(MODELS) as PublishableType[]) {
+    result[type] = {
+      published: await applyDuePublishes(type, now),
+      unpublished: await applyDueUnpublishes(type, now)
+    };
+  }
+  return result;
+}
+
+/** Drop pending schedules on one of the user's items; false when it isn't theirs */
+export async function cancelSchedule(
+  type: PublishableType,
+  userId: string,
+  id: string,
+  which: 'publish' | 'unpublish' | 'all' = 'all'
+): Promise<boolean> {
+  const out = await MODELS[type].delegate().updateMany({
+    where: { id, userId },
+    data: {
+      ...(which !== 'unpublish' ? { publishAt: null } : {}),
+      ...(which !== 'publish' ? { unpublishAt: null } : {})
+    }
+  });
+  return out.count > 0;
+}
+
+/** Every pending schedule of a user, soonest first */
+export async function listPendingSchedules(
+  userId: string,
+  types: PublishableType[] = ['CARD', 'PORTFOLIO', 'CHALLENGE']
+) {
+  const pending = {
+    userId,
+    OR: [{ publishAt: { not: null } }, { unpublishAt: { not: null } }]
+  };
+  const select = { ...ROW_SELECT, slug: true };
+
+  const [cards, portfolios, challenges] = await Promise.all([
+    types.includes('CARD')
+      ? prisma.digitalNameCard.findMany({
+          where: pending,
+          select: { ...select, firstName: true, lastName: true }
+        })
+      : [],
+    types.includes('PORTFOLIO')
+      ? prisma.portfolio.findMany({
+          where: pending,
+          select: { ...select, title: true }
+        })
+      : [],
+    types.includes('CHALLENGE')
+      ? prisma.challenge.findMany({
+          where: pending,
+          select: { ...select, title: true }
+        })
+      : []
+  ]);
+
+  const item = (
+    type: PublishableType,
+    r: Row & { slug: string },
+    title: string
+  ) => ({
+    entityType: type,
+    id: r.id,
+    slug: r.slug,
+    title,
+    publishStatus: r.publishStatus,
+    publishAt: r.publishAt?.toISOString() ?? null,
+    unpublishAt: r.unpublishAt?.toISOString() ?? null
+  });
+  const next = (i: { publishAt: string | null; unpublishAt: string | null }) =>
+    [i.publishAt, i.unpublishAt].filter(Boolean).sort()[0] ?? '';
+
+  return [
+    ...cards.map(c => item('CARD', c, `${c.firstName} ${c.lastName}`.trim())),
+    ...portfolios.map(p => item('PORTFOLIO', p, p.title)),
+    ...challenges.map(c => item('CHALLENGE', c, c.title))
+  ].sort((a, b) => next(a).localeCompare(next(b)));
+}
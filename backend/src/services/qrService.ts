@@ -0,0 +1,199 @@
+// src/services/qrService.ts
+// QR codes for public cards, portfolios and challenges.
+// The encoded URL carries `src=qr` so the frontend can tell scans from clicks.
+import QRCode from 'qrcode';
+import sharp from 'sharp';
+import type { SlugEntityType } from '@prisma/client';
+import { prisma } from '../config/prisma.js';
+import { publicUrls } from '../config/publicUrls.js';
+import type { QrQuery } from '../schemas/qr.js';
+import { resolveRetiredSlug } from './slugHistoryService.js';
+import { getObjectBytes } from './s3UploadService.js';
+
+export const QR_TRACKING_PARAM = 'src';
+export const QR_TRACKING_VALUE = 'qr';
+
+// the logo covers at most this share of the code's width (H keeps ~30% recoverable)
+const LOGO_RATIO = 0.22;
+const LOGO_MAX_BYTES = 2 * 1024 * 1024;
+
+type QrTarget = {
+  id: string;
+  slug: string;
+  url: string;
+  logoKey: string | null;
+};
+
+export type QrImage = { contentType: string; body: string | Buffer };
+
+type Logo = { bytes: Buffer; contentType: string };
+
+function withTracking(url: string) {
+  const u = new URL(url);
+  u.searchParams.set(QR_TRACKING_PARAM, QR_TRACKING_VALUE);
+  return u.toString();
+}
+
+/** Published entity by current slug, falling back to a retired one */
+async function findPublished<T extends { id: string; slug: string }>(
+  entityType: SlugEntityType,
+  slug: string,
+  find: (where: { slug: string } | { id: string }) => Promise<T | null>
+): Promise<T | null> {
+  const hit = await find({ slug });
+  if (hit) return hit;
+  const id = await resolveRetiredSlug(entityType, slug);
+  return id ? find({ id }) : null;
+}
+
+export async function findCardQrTarget(slug: string): Promise<QrTarget | null> {
+  const card = await findPublished('CARD', slug, where =>
+    prisma.digitalNameCard.findFirst({
+      where: { ...where, publishStatus: 'PUBLISHED' },
+      select: { id: true, slug: true, avatarKey: true }
+    })
+  );
+  if (!card) return null;
+  return {
+    id: card.id,
+    slug: card.slug,
+    url: withTracking(publicUrls.card(card.slug)),
+    logoKey: card.avatarKey
+  };
+}
+
+export async function findPortfolioQrTarget(
+  slug: string
+): Promise<QrTarget | null> {
+  const p = await findPublished('PORTFOLIO', slug, where =>
+    prisma.portfolio.findFirst({
+      where: { ...where, publishStatus: 'PUBLISHED' },
+      select: {
+        id: true,
+        slug: true,
+        sourceCard: { select: { avatarKey: true } }
+      }
+    })
+  );
+  if (!p) return null;
+  return {
+    id: p.id,
+    slug: p.slug,
+    url: withTracking(publicUrls.portfolio(p.slug)),
+    logoKey: p.sourceCard?.avatarKey ?? null
+  };
+}
+
+export async function findChallengeQrTarget(
+  slug: string
+): Promise<QrTarget | null> {
+  const c = await findPublished('CHALLENGE', slug, where =>
+    prisma.challenge.findFirst({
+      where: { ...where, publishStatus: 'PUBLISHED' },
+      select: { id: true, slug: true, brandLogoKey: true }
+    })
+  );
+  if (!c) return null;
+  return {
+    id: c.id,
+    slug: c.slug,
+    url: withTracking(publicUrls.challenge(c.slug)),
+    logoKey: c.brandLogoKey
+  };
+}
+
+/** White plate + image centred on the code, as a data URI so the SVG stays self-contained */
+function overlayLogo(svg: string, logo: Logo, background: string) {
+  const viewBox = /viewBox="0 0 (\d+) (\d+)"/.exec(svg);
+  if (!viewBox) return svg;
+  const dim = Number(viewBox[1]);
+  const box = dim * LOGO_RATIO;
+  const pad = box * 0.1;
+  const at = (dim - box) / 2;
+  const href = `data:${logo.contentType};base64,${logo.bytes.toString(
+    'base64'
+  )}`;
+  const overlay =
+    `<rect x="${at - pad}" y="${at - pad}" width="${box + pad * 2}" height="${
+      box + pad * 2
+    }" fill="${background}"/>` +
+    `<image x="${at}" y="${at}" width="${box}" height="${box}" href="${href}" preserveAspectRatio="xMidYMid meet"/>`;
+  return svg.replace(/<\/svg>\s*$/, `${overlay}</svg>`);
+}
+
+/** Same plate + logo as overlayLogo, composited into the PNG; an undecodable logo is skipped */
+async function overlayLogoPng(png: Buffer, logo: Logo, background: string) {
+  const { width: dim } = await sharp(png).metadata();
+  if (!dim) return png;
+  const box = Math.round(dim * LOGO_RATIO);
+  const pad = Math.round(box * 0.1);
+  const at = Math.round((dim - box) / 2);
+  let image: Buffer;
+  try {
+    image = await sharp(logo.bytes)
+      .resize(box, box, {
+        fit: 'contain',
+        background: { r: 0, g: 0, b: 0, alpha: 0 }
+      })
+      .png()
+      .toBuffer();
+  } catch {
+    return png;
+  }
+  return sharp(png)
+    .composite([
+      {
+        input: {
+          create: {
+            width: box + pad * 2,
+            height: box + pad * 2,
+            channels: 4,
+            background
+          }
+        },
+        left: at - pad,
+        top: at - pad
+      },
+      { input: image, left: at, top: at }
+    ])
+    .png()
+    .toBuffer();
+}
+
+/**
+ * Render the QR for a target, with the target's logo centred on it when asked for.
+ * A missing/oversized logo is silently skipped.
+ */
+export async function renderQr(
+  target: QrTarget,
+  q: QrQuery,
+  loadLogo: (
+    key: string,
+    maxBytes: number
+  ) => Promise<Logo | null> = getObjectBytes
+): Promise<QrImage> {
+  const wantsLogo = q.logo && !!target.logoKey;
+  let logo: Logo | null = null;
+  if (wantsLogo) {
+    const found = await loadLogo(target.logoKey!, LOGO_MAX_BYTES);
+    if (found && found.contentType.startsWith('image/')) logo = found;
+  }
+
+  const opts = {
+    width: q.size,
+    margin: q.margin,
+    // a logo hides modules, so it needs the highest error correction
+    errorCorrectionLevel: wantsLogo ? ('H' as const) : q.ecc,
+    color: { dark: q.color, light: q.background }
+  };
+
+  if (q.format === 'png') {
+    let body = await QRCode.toBuffer(target.url, { ...opts, type: 'png' });
+    if (logo) body = await overlayLogoPng(body, logo, q.background);
+    return { contentType: 'image/png', body };
+  }
+
+  let svg = await QRCode.toString(target.url, { ...opts, type: 'svg' });
+  if (logo) svg = overlayLogo(svg, logo, q.background);
+  return { contentType: 'image/svg+xml; charset=utf-8', body: svg };
+}
@@ -1,4 +1,10 @@
-import { PutObjectCommand } from '@aws-sdk/client-s3';
+import {
+  DeleteObjectCommand,
+  DeleteObjectsCommand,
+  GetObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand
+} from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import { randomUUID } from 'crypto';
 import { s3, s3ObjectUrl } from '../config/s3.js';
@@ -8,6 +14,10 @@ import { env } from '../config/env.js';
 export type UploadCategory = 'digitalcard' | 'portfolio' | 'profile' | 'challenge';
 export type UploadPurpose = 'avatar' | 'banner' | 'cover' | 'media'; // extend as needed
 
+// keep in sync with the unions above (used to enumerate a user's prefixes)
+const UPLOAD_CATEGORIES: UploadCategory[] = ['digitalcard', 'portfolio', 'profile', 'challenge'];
+const UPLOAD_PURPOSES: UploadPurpose[] = ['avatar', 'banner', 'cover', 'media'];
+
 const ALLOWED_IMAGE_TYPES = new Set([
   'image/jpeg',
   'image/png',
@@ -65,3 +75,95 @@ export async function getPresignedPutUrl(params: {
 
   return { key, uploadUrl, url };
 }
+
+/**
+ * Server-generated data exports (never presigned for upload):
+ * streakling/export/archive/user_<uid>/<exportId>.zip
+ */
+export function makeExportArchiveKey(userId: string, exportId: string) {
+  return `${env.AWS_S3_BASE_PREFIX}/export/archive/user_${userId}/${exportId}.zip`;
+}
+
+export async function putPrivateObject(key: string, body: Buffer, contentType: string) {
+  await s3.send(
+    new PutObjectCommand({
+      Bucket: env.AWS_S3_BUCKET,
+      Key: key,
+      Body: body,
+      ContentType: contentType
+    })
+  );
+}
+
+/** Short-lived download link; `filename` sets Content-Disposition */
+export async function getPresignedGetUrl(key: string, filename?: string, expiresSeconds = 300) {
+  const cmd = new GetObjectCommand({
+    Bucket: env.AWS_S3_BUCKET,
+    Key: key,
+    ResponseContentDisposition: filename ? `attachment; filename="${filename}"` : undefined
+  });
+  return getSignedUrl(s3, cmd, { expiresIn: expiresSeconds });
+}
+
+/** Read a (small) object into memory; null when it doesn't exist or is larger than maxBytes */
+export async function getObjectBytes(key: string, maxBytes = 2 * 1024 * 1024) {
+  try {
+    const out = await s3.send(
+      new GetObjectCommand({ Bucket: env.AWS_S3_BUCKET, Key: key })
+    );
+    if (!out.Body || (out.ContentLength ?? 0) > maxBytes) return null;
+    const bytes = Buffer.from(await out.Body.transformToByteArray());
+    return { bytes, contentType: out.ContentType ?? 'application/octet-stream' };
+  } catch (e: any) {
+    if (e?.name === 'NoSuchKey') return null;
+    throw e;
+  }
+}
+
+export async function deleteObject(key: string) {
+  await s3.send(new DeleteObjectCommand({ Bucket: env.AWS_S3_BUCKET, Key: key }));
+}
+
+/** Every prefix a user's objects can live under (see makeObjectKey / makeExportArchiveKey) */
+export function userObjectPrefixes(userId: string): string[] {
+  return [
+    ...UPLOAD_CATEGORIES.flatMap(category =>
+      UPLOAD_PURPOSES.map(
+        purpose => `${env.AWS_S3_BASE_PREFIX}/${category}/${purpose}/user_${userId}/`
+      )
+    ),
+    `${env.AWS_S3_BASE_PREFIX}/export/archive/user_${userId}/`
+  ];
+}
+
+/** Delete every object uploaded by the user. Returns how many were removed. */
+export async function deleteUserObjects(userId: string): Promise<number> {
+  let deleted = 0;
+  for (const prefix of userObjectPrefixes(userId)) {
+    let token: string | undefined;
+    do {
+      const page = await s3.send(
+        new ListObjectsV2Command({
+          Bucket: env.AWS_S3_BUCKET,
+          Prefix: prefix,
+          ContinuationToken: token
+        })
+      );
+      const keys = (page.Contents ?? [])
+        .map(o => o.Key)
+        .filter((k): k is string => !!k);
+      if (keys.length) {
+        // ListObjectsV2 pages are <= 1000 keys, the DeleteObjects limit
+        await s3.send(
+          new DeleteObjectsCommand({
+            Bucket: env.AWS_S3_BUCKET,
+            Delete: { Objects: keys.map(Key => ({ Key })), Quiet: true }
+          })
+        );
+        deleted += keys.length;
+      }
+      token = page.IsTruncated ? page.NextContinuationToken : undefined;
+    } while (token);
+  }
+  return deleted;
+}
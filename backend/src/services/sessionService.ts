@@ -0,0 +1,262 @@
+// src/services/sessionService.ts
+import { createHash, randomBytes } from 'crypto';
+import type { Request, Response } from 'express';
+import type { Session, User, UserRole } from '@prisma/client';
+import { prisma } from '../config/prisma.js';
+import {
+  REFRESH_TTL_SECONDS,
+  setRefreshCookie,
+  setSessionCookie,
+  type SessionPayload
+} from '../utils/sessionCookie.js';
+import { describeDevice } from '../utils/userAgent.js';
+
+// Don't write lastSeenAt on every request
+const TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+// A token rotated this recently is a parallel request (second tab, concurrent
+// fetches) that lost the rotation race, not a replay
+const ROTATION_GRACE_MS = 30 * 1000;
+
+export function hashToken(raw: string): string {
+  return createHash('sha256').update(raw).digest('hex');
+}
+
+/** Session claims always come from the DB row, so role/username changes apply on renewal */
+export function buildSessionPayload(
+  user: User,
+  sessionId: string | null
+): SessionPayload {
+  return {
+    uid: user.id,
+    cid: user.clerkId,
+    sid: sessionId ?? undefined,
+    username: user.username ?? null,
+    email: user.email ?? null,
+    displayName: user.displayName,
+    avatarUrl: user.avatarUrl ?? null,
+    phone: user.phone ?? null,
+    religion: user.religion ?? null,
+    country: user.country ?? null,
+    role: user.role
+  };
+}
+
+function refreshExpiry() {
+  return new Date(Date.now() + REFRESH_TTL_SECONDS * 1000);
+}
+
+async function issueRefreshToken(sessionId: string) {
+  const raw = randomBytes(32).toString('base64url');
+  const row = await prisma.refreshToken.create({
+    data: {
+      sessionId,
+      tokenHash: hashToken(raw),
+      expiresAt: refreshExpiry()
+    },
+    select: { id: true }
+  });
+  return { raw, id: row.id };
+}
+
+function isActive(s: Pick<Session, 'revokedAt' | 'expiresAt'>) {
+  return !s.revokedAt && s.expiresAt > new Date();
+}
+
+type ActiveSession = Session & { user: { role: UserRole } };
+
+/** Fresh login: new Session row + access and refresh cookies */
+export async function startSession(res: Response, req: Request, user: User) {
+  const userAgent = (req.headers['user-agent'] ?? '').slice(0, 512) || null;
+  const session = await prisma.session.create({
+    data: {
+      userId: user.id,
+      device: describeDevice(userAgent),
+      userAgent,
+      ip: req.ip ?? null,
+      expiresAt: refreshExpiry()
+    }
+  });
+
+  const { raw } = await issueRefreshToken(session.id);
+  const payload = buildSessionPayload(user, session.id);
+  setSessionCookie(res, payload);
+  setRefreshCookie(res, raw);
+  return payload;
+}
+
+/**
+ * Look up the session behind an access cookie.
+ * Returns null when it was revoked, has expired or the user is banned;
+ * bumps lastSeenAt (throttled).
+ */
+export async function getActiveSession(
+  sessionId: string,
+  meta: { ip?: string | null } = {}
+): Promise<ActiveSession | null> {
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    include: { user: { select: { role: true, bannedAt: true } } }
+  });
+  if (!session || !isActive(session) || session.user.bannedAt) return null;
+
+  if (Date.now() - session.lastSeenAt.getTime() > TOUCH_INTERVAL_MS) {
+    await prisma.session.update({
+      where: { id: session.id },
+      data: { lastSeenAt: new Date(), ip: meta.ip ?? undefined }
+    });
+  }
+  return session;
+}
+
+function rotatedJustNow(
+  t: { revokedAt: Date | null; replacedById: string | null },
+  now: Date
+) {
+  return (
+    !!t.revokedAt &&
+    !!t.replacedById &&
+    now.getTime() - t.revokedAt.getTime() <= ROTATION_GRACE_MS
+  );
+}
+
+/**
+ * Exchange a refresh token for a new one (single use).
+ * Presenting an already-rotated token means it leaked: the whole session is revoked,
+ * unless it was rotated moments ago by a parallel request — then the caller is let
+ * through with `token: null` and keeps the successor that request set.
+ * Returns null when the token is unknown/expired, the session is gone or the user is gone.
+ */
+export async function rotateRefreshToken(
+  raw: string
+): Promise<{ user: User; sessionId: string; token: string | null } | null> {
+  const now = new Date();
+  const row = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashToken(raw) },
+    include: { session: { include: { user: true } } }
+  });
+  if (!row) return null;
+
+  if (row.revokedAt && !rotatedJustNow(row, now)) {
+    await revokeSessionById(row.sessionId);
+    return null;
+  }
+  if (
+    row.expiresAt <= now ||
+    !isActive(row.session) ||
+    row.session.user.bannedAt
+  ) {
+    return null;
+  }
+  const raced = {
+    user: row.session.user,
+    sessionId: row.sessionId,
+    token: null
+  };
+  if (row.revokedAt) return raced;
+
+  const next = await issueRefreshToken(row.sessionId);
+  // guard against two concurrent rotations of the same token
+  const claimed = await prisma.refreshToken.updateMany({
+    where: { id: row.id, revokedAt: null },
+    data: { revokedAt: now, replacedById: next.id }
+  });
+  if (claimed.count === 0) {
+    await prisma.refreshToken.delete({ where: { id: next.id } });
+    return raced;
+  }
+
+  // sliding window: an actively used session stays alive
+  await prisma.session.update({
+    where: { id: row.sessionId },
+    data: { lastSeenAt: now, expiresAt: refreshExpiry() }
+  });
+
+  return { user: row.session.user, sessionId: row.sessionId, token: next.raw };
+}
+
+/**
+ * Renew the cookies from a refresh token. Returns the new payload or null.
+ * After a lost rotation race only the access cookie is set: the refresh cookie
+ * the winning request set is the live one.
+ */
+export async function refreshSession(
+  res: Response,
+  rawRefresh: string
+): Promise<SessionPayload | null> {
+  const rotated = await rotateRefreshToken(rawRefresh);
+  if (!rotated) return null;
+  const payload = buildSessionPayload(rotated.user, rotated.sessionId);
+  setSessionCookie(res, payload);
+  if (rotated.token) setRefreshCookie(res, rotated.token);
+  return payload;
+}
+
+/** Re-issue the access cookie from the current DB row (sliding renewal) */
+export async function renewAccessCookie(
+  res: Response,
+  userId: string,
+  sessionId: string
+): Promise<SessionPayload | null> {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user) return null;
+  const payload = buildSessionPayload(user, sessionId);
+  setSessionCookie(res, payload);
+  return payload;
+}
+
+async function revokeSessionById(sessionId: string) {
+  await prisma.session.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date() }
+  });
+}
+
+/** Revoke one of the user's sessions. Returns false if it isn't theirs. */
+export async function revokeSession(
+  userId: string,
+  sessionId: string
+): Promise<boolean> {
+  const out = await prisma.session.updateMany({
+    where: { id: sessionId, userId, revokedAt: null },
+    data: { revokedAt: new Date() }
+  });
+  return out.count > 0;
+}
+
+/** "Sign out everywhere else" — returns how many sessions were revoked */
+export async function revokeOtherSessions(
+  userId: string,
+  keepSessionId?: string | null
+): Promise<number> {
+  const out = await prisma.session.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(keepSessionId ? { NOT: { id: keepSessionId } } : {})
+    },
+    data: { revokedAt: new Date() }
+  });
+  return out.count;
+}
+
+export async function listActiveSessions(userId: string) {
+  return prisma.session.findMany({
+    // an admin impersonating the user is not one of the user's own devices
+    where: {
+      userId,
+      impersonatorId: null,
+      revokedAt: null,
+      expiresAt: { gt: new Date() }
+    },
+    orderBy: { lastSeenAt: 'desc' },
+    select: {
+      id: true,
+      device: true,
+      ip: true,
+      userAgent: true,
+      createdAt: true,
+      lastSeenAt: true,
+      expiresAt: true
+    }
+  });
+}
@@ -0,0 +1,68 @@
+// src/services/slugHistoryService.ts
+import type { Prisma, SlugEntityType } from '@prisma/client';
+import { prisma } from '../config/prisma.js';
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+/** True when `slug` was retired by someone other than `userId` (blocked for them) */
+export async function isSlugRetiredByOther(
+  entityType: SlugEntityType,
+  slug: string,
+  userId: string,
+  db: Db = prisma
+): Promise<boolean> {
+  const row = await db.slugHistory.findUnique({
+    where: { entityType_slug: { entityType, slug } },
+    select: { ownerId: true }
+  });
+  return !!row && row.ownerId !== userId;
+}
+
+/**
+ * Record a slug change: the old slug now points at the entity,
+ * and the new one stops being "retired" if the owner is taking it back.
+ */
+export async function recordSlugChange(
+  db: Db,
+  params: {
+    entityType: SlugEntityType;
+    entityId: string;
+    ownerId: string;
+    from: string;
+    to: string;
+  }
+) {
+  const { entityType, entityId, ownerId, from, to } = params;
+  await db.slugHistory.deleteMany({ where: { entityType, slug: to, ownerId } });
+  await retireSlug(db, { entityType, entityId, ownerId, slug: from });
+}
+
+/** Hold a slug for its owner, e.g. the current slug of an entity being deleted */
+export async function retireSlug(
+  db: Db,
+  params: {
+    entityType: SlugEntityType;
+    entityId: string;
+    ownerId: string;
+    slug: string;
+  }
+) {
+  const { entityType, entityId, ownerId, slug } = params;
+  await db.slugHistory.upsert({
+    where: { entityType_slug: { entityType, slug } },
+    create: { entityType, entityId, ownerId, slug },
+    update: { entityId, ownerId, retiredAt: new Date() }
+  });
+}
+
+/** Entity id a retired slug points at, or null */
+export async function resolveRetiredSlug(
+  entityType: SlugEntityType,
+  slug: string
+): Promise<string | null> {
+  const row = await prisma.slugHistory.findUnique({
+    where: { entityType_slug: { entityType, slug } },
+    select: { entityId: true }
+  });
+  return row?.entityId ?? null;
+}
@@ -116,3 +116,131 @@ export async function getOrCreateStripeCustomerId({
 
   return customer.id;
 }
+
+// ---- Subscription → plan resolution (shared by finalize + webhook) ----
+export type PaidPlan = 'basic' | 'pro' | 'ultimate';
+
+// Subscriptions in these states no longer grant a paid plan
+const ENDED_STATUSES = new Set<Stripe.Subscription.Status>([
+  'canceled',
+  'incomplete_expired',
+  'unpaid'
+]);
+
+/** Determine plan from lookup_key / metadata / env fallback */
+export function resolvePlanFromSubscription(
+  sub: Stripe.Subscription,
+  extraMetadata?: Stripe.Metadata | null
+): PaidPlan | undefined {
+  const price = sub.items?.data?.[0]?.price;
+
+  const lookup = (price as any)?.lookup_key as string | undefined;
+  if (lookup === PLAN_LOOKUP_KEYS.basic) return 'basic';
+  if (lookup === PLAN_LOOKUP_KEYS.pro) return 'pro';
+  if (lookup === PLAN_LOOKUP_KEYS.ultimate) return 'ultimate';
+
+  const metaPlan = (sub.metadata?.plan || extraMetadata?.plan) as any;
+  if (metaPlan === 'basic' || metaPlan === 'pro' || metaPlan === 'ultimate') {
+    return metaPlan;
+  }
+
+  const priceId = price?.id;
+  if (priceId === env.STRIPE_PRICE_BASIC) return 'basic';
+  if (priceId === env.STRIPE_PRICE_PRO) return 'pro';
+  if (priceId === env.STRIPE_PRICE_ULTIMATE) return 'ultimate';
+  return undefined;
+}
+
+/** Newer API versions moved current_period_end from the subscription onto its items */
+export function subscriptionPeriodEnd(sub: Stripe.Subscription): Date | null {
+  // ⚠️ Cast only at the access site to avoid Prisma Subscription collisions
+  const sec =
+    (sub as unknown as { current_period_end?: number }).current_period_end ??
+    sub.items?.data?.[0]?.current_period_end;
+  return typeof sec === 'number' ? new Date(sec * 1000) : null;
+}
+
+/**
+ * Persist a Stripe subscription into `Subscription` and mirror plan/status onto `User`.
+ * Owner lookup order: subscription metadata → extra metadata (e.g. checkout session)
+ * → stripeCustomerId → fallbackUserId. Returns null when no owner can be found.
+ *
+ * `asOf` is when Stripe's snapshot was taken (an event's `created`; defaults to
+ * now for a freshly retrieved subscription). Webhooks arrive out of order, so a
+ * snapshot older than the one already stored is skipped and reported `stale`.
+ */
+export async function syncSubscriptionFromStripe(
+  sub: Stripe.Subscription,
+  opts: {
+    metadata?: Stripe.Metadata | null;
+    fallbackUserId?: string | null;
+    asOf?: Date;
+  } = {}
+): Promise<{
+  userId: string;
+  plan: PaidPlan | 'free' | undefined;
+  stale?: boolean;
+} | null> {
+  let appUserId: string | null =
+    (sub.metadata?.appUserId as string | undefined) ||
+    (opts.metadata?.appUserId as string | undefined) ||
+    null;
+
+  const customerId =
+    typeof sub.customer === 'string' ? sub.customer : sub.customer?.id;
+  if (!appUserId && customerId) {
+    const owner = await prisma.user.findFirst({
+      where: { stripeCustomerId: customerId },
+      select: { id: true }
+    });
+    appUserId = owner?.id ?? null;
+  }
+
+  if (!appUserId) appUserId = opts.fallbackUserId ?? null;
+  if (!appUserId) return null;
+
+  const price = sub.items?.data?.[0]?.price;
+  const periodEnd = subscriptionPeriodEnd(sub);
+  const plan = ENDED_STATUSES.has(sub.status)
+    ? 'free'
+    : resolvePlanFromSubscription(sub, opts.metadata);
+
+  const asOf = opts.asOf ?? new Date();
+  const fields = {
+    stripePriceId: price?.id ?? '',
+    status: sub.status,
+    currentPeriodEnd: periodEnd,
+    stripeStateAt: asOf
+  };
+
+  // conditional write, so two deliveries racing can't land old-over-new
+  const applied = await prisma.subscription.updateMany({
+    where: {
+      stripeSubId: sub.id,
+      OR: [{ stripeStateAt: null }, { stripeStateAt: { lte: asOf } }]
+    },
+    data: fields
+  });
+  if (applied.count === 0) {
+    const known = await prisma.subscription.findUnique({
+      where: { stripeSubId: sub.id },
+      select: { id: true }
+    });
+    if (known) return { userId: appUserId, plan: undefined, stale: true };
+
+    await prisma.subscription.create({
+      data: { stripeSubId: sub.id, userId: appUserId, ...fields }
+    });
+  }
+
+  await prisma.user.update({
+    where: { id: appUserId },
+    data: {
+      plan: plan ?? undefined,
+      subscriptionStatus: sub.status,
+      currentPeriodEnd: periodEnd
+    }
+  });
+
+  return { userId: appUserId, plan };
+}
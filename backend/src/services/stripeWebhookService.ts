@@ -0,0 +1,111 @@
+// src/services/stripeWebhookService.ts
+import Stripe from 'stripe';
+import { prisma } from '../config/prisma.js';
+import { stripe, syncSubscriptionFromStripe } from './stripeService.js';
+
+export type WebhookOutcome = 'processed' | 'duplicate' | 'stale' | 'ignored';
+
+async function retrieveSubscription(subId: string) {
+  return stripe.subscriptions.retrieve(subId, {
+    expand: ['items.data.price']
+  });
+}
+
+/** Invoices point at their subscription via `parent` on newer API versions */
+function invoiceSubscriptionId(inv: Stripe.Invoice): string | null {
+  const fromParent = inv.parent?.subscription_details?.subscription;
+  const legacy = (inv as unknown as { subscription?: unknown }).subscription;
+  const ref = fromParent ?? legacy;
+  if (!ref) return null;
+  if (typeof ref === 'string') return ref;
+  return (ref as { id?: string }).id ?? null;
+}
+
+/**
+ * Route a verified event to the subscription sync. Returns 'ignored' if we
+ * don't handle it, 'stale' if newer subscription state was already stored.
+ */
+async function dispatch(
+  event: Stripe.Event
+): Promise<'processed' | 'stale' | 'ignored'> {
+  if (event.type === 'checkout.session.completed') {
+    const session = event.data.object as Stripe.Checkout.Session;
+    if (session.mode !== 'subscription' || !session.subscription) {
+      return 'processed';
+    }
+
+    const subId =
+      typeof session.subscription === 'string'
+        ? session.subscription
+        : session.subscription.id;
+    const sub = await retrieveSubscription(subId);
+    await syncSubscriptionFromStripe(sub, { metadata: session.metadata });
+    return 'processed';
+  }
+
+  if (event.type.startsWith('customer.subscription.')) {
+    // the payload is a snapshot from when the event was created
+    const sub = event.data.object as Stripe.Subscription;
+    const out = await syncSubscriptionFromStripe(sub, {
+      asOf: new Date(event.created * 1000)
+    });
+    return out?.stale ? 'stale' : 'processed';
+  }
+
+  if (event.type.startsWith('invoice.')) {
+    const inv = event.data.object as Stripe.Invoice;
+    const subId = invoiceSubscriptionId(inv);
+    if (!subId) return 'processed'; // one-off invoice, nothing to mirror
+
+    // Re-read the subscription so status/period reflect the invoice outcome
+    const sub = await retrieveSubscription(subId);
+    await syncSubscriptionFromStripe(sub);
+    return 'processed';
+  }
+
+  return 'ignored';
+}
+
+/**
+ * Store the event, then process it once.
+ * - Already processed → 'duplicate' (Stripe retries are acknowledged and skipped)
+ * - Previously failed → processed again
+ * - Older than the subscription state already stored → 'stale', not applied
+ * - Errors are recorded on the row and re-thrown so Stripe retries later
+ */
+export async function recordAndProcessStripeEvent(
+  event: Stripe.Event
+): Promise<WebhookOutcome> {
+  const existing = await prisma.stripeWebhookEvent.findUnique({
+    where: { id: event.id },
+    select: { processedAt: true }
+  });
+  if (existing?.processedAt) return 'duplicate';
+
+  await prisma.stripeWebhookEvent.upsert({
+    where: { id: event.id },
+    create: {
+      id: event.id,
+      type: event.type,
+      livemode: event.livemode,
+      payload: event as unknown as object,
+      attempts: 1
+    },
+    update: { attempts: { increment: 1 } }
+  });
+
+  try {
+    const outcome = await dispatch(event);
+    await prisma.stripeWebhookEvent.update({
+      where: { id: event.id },
+      data: { processedAt: new Date(), lastError: null }
+    });
+    return outcome;
+  } catch (err: any) {
+    await prisma.stripeWebhookEvent.update({
+      where: { id: event.id },
+      data: { lastError: String(err?.message ?? err).slice(0, 2000) }
+    });
+    throw err;
+  }
+}
@@ -0,0 +1,144 @@
+// src/services/submissionStatusService.ts
+// Submission moderation as a small state machine. Every move is recorded as a
+// SubmissionStatusEvent, visible to the challenge owner and the submitter.
+import type {
+  Prisma,
+  SubmissionStatus,
+  SubmissionStatusEvent
+} from '@prisma/client';
+import { prisma } from '../config/prisma.js';
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+/** Allowed moves; anything else is INVALID_TRANSITION */
+export const SUBMISSION_TRANSITIONS: Record<
+  SubmissionStatus,
+  readonly SubmissionStatus[]
+> = {
+  PENDING: ['APPROVED', 'REJECTED'],
+  APPROVED: ['WINNER', 'REJECTED', 'PENDING'],
+  REJECTED: ['PENDING'],
+  // set by announcing the results (challengeAwardService), final after that
+  WINNER: []
+};
+
+/** Moves that must say why */
+const REASON_REQUIRED: readonly SubmissionStatus[] = ['REJECTED'];
+
+export function canTransition(from: SubmissionStatus, to: SubmissionStatus) {
+  return SUBMISSION_TRANSITIONS[from].includes(to);
+}
+
+export function requiresReason(to: SubmissionStatus) {
+  return REASON_REQUIRED.includes(to);
+}
+
+export function serializeStatusEvent(e: SubmissionStatusEvent) {
+  return {
+    id: e.id,
+    fromStatus: e.fromStatus,
+    toStatus: e.toStatus,
+    reason: e.reason,
+    createdAt: e.createdAt.toISOString()
+  };
+}
+
+/** History entry for a fresh submission (call inside the create transaction) */
+export async function recordSubmitted(
+  db: Db,
+  submissionId: string,
+  actorId: string
+) {
+  await db.submissionStatusEvent.create({
+    data: { submissionId, fromStatus: null, toStatus: 'PENDING', actorId }
+  });
+}
+
+/**
+ * Move a submission of `challengeId` to `to` and log it.
+ * Throws NOT_FOUND, INVALID_TRANSITION, REASON_REQUIRED,
+ * or STALE when someone else changed the status meanwhile.
+ */
+export async function transitionSubmission(
+  db: Db,
+  args: {
+    challengeId: string;
+    submissionId: string;
+    actorId: string;
+    to: SubmissionStatus;
+    reason?: string | null;
+  }
+) {
+  const reason = args.reason?.trim() || null;
+  const current = await db.challengeSubmission.findFirst({
+    where: { id: args.submissionId, challengeId: args.challengeId },
+    select: { id: true, status: true }
+  });
+  if (!current) throw new Error('NOT_FOUND');
+  if (!canTransition(current.status, args.to)) {
+    throw new Error('INVALID_TRANSITION');
+  }
+  if (requiresReason(args.to) && !reason) throw new Error('REASON_REQUIRED');
+
+  // guarded on the status we validated against
+  const out = await db.challengeSubmission.updateMany({
+    where: { id: current.id, status: current.status },
+    data: {
+      status: args.to,
+      statusReason: requiresReason(args.to) ? reason : null
+    }
+  });
+  if (out.count === 0) throw new Error('STALE');
+
+  // a drafted prize only goes to approved entries
+  if (current.status === 'APPROVED' && args.to !== 'WINNER') {
+    await db.challengePrize.updateMany({
+      where: { awardedSubmissionId: current.id },
+      data: { awardedSubmissionId: null, awardedAt: null }
+    });
+  }
+
+  await db.submissionStatusEvent.create({
+    data: {
+      submissionId: current.id,
+      fromStatus: current.status,
+      toStatus: args.to,
+      reason,
+      actorId: args.actorId
+    }
+  });
+  return { from: current.status, to: args.to };
+}
+
+/**
+ * Status history of a submission, oldest first, for its challenge's owner
+ * or its submitter (as far as `as` allows); null for anyone else.
+ */
+export async function getSubmissionHistory(
+  userId: string,
+  challengeId: string,
+  submissionId: string,
+  as: { owner: boolean; submitter: boolean } = { owner: true, submitter: true }
+) {
+  const viewers: Prisma.ChallengeSubmissionWhereInput[] = [];
+  if (as.submitter) viewers.push({ submitterId: userId });
+  if (as.owner) viewers.push({ challenge: { userId } });
+  if (!viewers.length) return null;
+
+  const s = await prisma.challengeSubmission.findFirst({
+    where: { id: submissionId, challengeId, OR: viewers },
+    select: {
+      id: true,
+      status: true,
+      statusReason: true,
+      statusEvents: { orderBy: { createdAt: 'asc' } }
+    }
+  });
+  if (!s) return null;
+  return {
+    submissionId: s.id,
+    status: s.status,
+    statusReason: s.statusReason,
+    events: s.statusEvents.map(serializeStatusEvent)
+  };
+}
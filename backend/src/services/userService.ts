@@ -12,6 +12,8 @@ function clean(s?: string | null): string | undefined {
  * Create user on first login.
  * On subsequent logins, only refresh Clerk-owned fields (email, displayName, avatarUrl).
  * Username is managed exclusively by our /username flow (not here).
+ * `asOf` is Clerk's updated_at for the data: webhooks can arrive late, so data
+ * older than what's stored is not written.
  */
 export async function upsertUserFromClerk(input: {
   clerkId: string;
@@ -23,7 +25,9 @@ export async function upsertUserFromClerk(input: {
   country?: string | null;
   phone?: string | null;
   religion?: string | null;
+  asOf?: Date;
 }): Promise<User> {
+  const asOf = input.asOf ?? new Date();
   const existing = await prisma.user.findUnique({
     where: { clerkId: input.clerkId }
   });
@@ -38,7 +42,8 @@ export async function upsertUserFromClerk(input: {
         avatarUrl: clean(input.avatarUrl),
         country: clean(input.country),
         phone: clean(input.phone),
-        religion: clean(input.religion)
+        religion: clean(input.religion),
+        clerkUpdatedAt: asOf
         // username intentionally omitted here
       }
     });
@@ -46,13 +51,76 @@ export async function upsertUserFromClerk(input: {
 
   // SUBSEQUENT LOGINS → refresh only Clerk-owned fields.
   // Username remains untouched here (set via /username API).
-  return prisma.user.update({
-    where: { id: existing.id },
+  await prisma.user.updateMany({
+    where: {
+      id: existing.id,
+      OR: [{ clerkUpdatedAt: null }, { clerkUpdatedAt: { lte: asOf } }]
+    },
     data: {
       email: clean(input.email),
       displayName: clean(input.displayName) ?? existing.displayName,
-      avatarUrl: clean(input.avatarUrl)
+      avatarUrl: clean(input.avatarUrl),
+      clerkUpdatedAt: asOf
       // no username changes here
     }
   });
+  return prisma.user.findUniqueOrThrow({ where: { id: existing.id } });
+}
+
+/**
+ * Deactivate a user whose identity is gone (e.g. deleted in Clerk).
+ * Personal fields are wiped, public content is hidden and every session revoked.
+ * The row itself stays so submissions/challenges keep their foreign keys.
+ */
+export async function deactivateAndAnonymizeUser(userId: string) {
+  const now = new Date();
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: {
+        deactivatedAt: now,
+        username: null,
+        usernameKey: null,
+        email: null,
+        displayName: 'Deleted user',
+        avatarKey: null,
+        avatarUrl: null,
+        bannerKey: null,
+        country: null,
+        religion: null,
+        dateOfBirth: null,
+        phone: null,
+        showEmail: false,
+        showReligion: false,
+        showDateOfBirth: false,
+        showPhone: false,
+        showCountry: false
+      }
+    }),
+    prisma.digitalNameCard.updateMany({
+      where: { userId, publishStatus: 'PUBLISHED' },
+      data: { publishStatus: 'PRIVATE' }
+    }),
+    prisma.portfolio.updateMany({
+      where: { userId, publishStatus: 'PUBLISHED' },
+      data: { publishStatus: 'PRIVATE' }
+    }),
+    // pending schedules too, or the job would publish it all again
+    prisma.digitalNameCard.updateMany({
+      where: { userId },
+      data: { publishAt: null, unpublishAt: null }
+    }),
+    prisma.portfolio.updateMany({
+      where: { userId },
+      data: { publishAt: null, unpublishAt: null }
+    }),
+    prisma.challenge.updateMany({
+      where: { userId },
+      data: { publishAt: null }
+    }),
+    prisma.session.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: now }
+    })
+  ]);
 }
@@ -0,0 +1,177 @@
+// src/services/usernameService.ts
+import { prisma } from '../config/prisma.js';
+
+// an old handle stays reserved for its previous owner this long
+export const USERNAME_HOLD_DAYS = 90;
+// at most `max` changes in any rolling `windowDays`
+export const USERNAME_CHANGE_LIMIT = { max: 2, windowDays: 30 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type UsernameChangeDenial = {
+  code: 'USERNAME_TAKEN' | 'USERNAME_HELD' | 'USERNAME_CHANGE_RATE_LIMITED';
+  message: string;
+  retryAt?: string; // ISO — when the next change is allowed / hold ends
+};
+
+/** What handles are compared on: `Ada` and `ada` are the same handle */
+export function usernameKey(handle: string) {
+  return handle.toLowerCase();
+}
+
+function sameHandle(a?: string | null, b?: string | null) {
+  return !!a && !!b && usernameKey(a) === usernameKey(b);
+}
+
+// rows written before usernameKey existed match on the raw handle until
+// backfillUsernameKeys reaches them
+function matchHandle(handle: string) {
+  return {
+    OR: [
+      { usernameKey: usernameKey(handle) },
+      { usernameKey: null, username: handle }
+    ]
+  };
+}
+
+/** A real change moves away from an existing handle (casing-only edits don't count) */
+export function isUsernameChange(
+  current: string | null | undefined,
+  next: string | null | undefined
+): next is string {
+  return !!next && !!current && !sameHandle(current, next);
+}
+
+/**
+ * Can `userId` take `next` right now?
+ * - not someone else's current handle
+ * - not someone else's recently released handle (still held)
+ * - the user is within the change rate limit (first-time set is free)
+ */
+export async function checkUsernameChange(
+  userId: string,
+  current: string | null | undefined,
+  next: string,
+  now = new Date()
+): Promise<UsernameChangeDenial | null> {
+  if (sameHandle(current, next)) return null;
+
+  const taken = await prisma.user.findFirst({
+    where: { ...matchHandle(next), NOT: { id: userId } },
+    select: { id: true }
+  });
+  if (taken) {
+    return { code: 'USERNAME_TAKEN', message: 'Username is already taken' };
+  }
+
+  const held = await prisma.usernameHistory.findFirst({
+    where: {
+      ...matchHandle(next),
+      userId: { not: userId },
+      heldUntil: { gt: now }
+    },
+    orderBy: { heldUntil: 'desc' },
+    select: { heldUntil: true }
+  });
+  if (held) {
+    return {
+      code: 'USERNAME_HELD',
+      message: 'This username was recently used by someone else',
+      retryAt: held.heldUntil.toISOString()
+    };
+  }
+
+  if (!current) return null;
+
+  const since = new Date(
+    now.getTime() - USERNAME_CHANGE_LIMIT.windowDays * DAY_MS
+  );
+  const recent = await prisma.usernameHistory.findMany({
+    where: { userId, changedAt: { gt: since } },
+    orderBy: { changedAt: 'asc' },
+    select: { changedAt: true }
+  });
+  if (recent.length >= USERNAME_CHANGE_LIMIT.max) {
+    const oldest = recent[recent.length - USERNAME_CHANGE_LIMIT.max];
+    return {
+      code: 'USERNAME_CHANGE_RATE_LIMITED',
+      message: `You can change your username ${USERNAME_CHANGE_LIMIT.max} times every ${USERNAME_CHANGE_LIMIT.windowDays} days`,
+      retryAt: new Date(
+        oldest.changedAt.getTime() + USERNAME_CHANGE_LIMIT.windowDays * DAY_MS
+      ).toISOString()
+    };
+  }
+  return null;
+}
+
+/** Nested write for prisma.user.update: remember the handle being released */
+export function usernameHistoryCreate(previous: string, now = new Date()) {
+  return {
+    create: {
+      username: previous,
+      usernameKey: usernameKey(previous),
+      changedAt: now,
+      heldUntil: new Date(now.getTime() + USERNAME_HOLD_DAYS * DAY_MS)
+    }
+  };
+}
+
+/**
+ * Where does an old handle point now? Returns the current username of its
+ * most recent previous owner, unless someone has since claimed it.
+ */
+export async function resolveFormerUsername(
+  username: string
+): Promise<{ userId: string; username: string } | null> {
+  const owner = await prisma.user.findFirst({
+    where: matchHandle(username),
+    select: { id: true }
+  });
+  if (owner) return null; // it's somebody's current handle
+
+  const row = await prisma.usernameHistory.findFirst({
+    where: matchHandle(username),
+    orderBy: { changedAt: 'desc' },
+    select: {
+      user: { select: { id: true, username: true, deactivatedAt: true } }
+    }
+  });
+  const u = row?.user;
+  if (!u?.username || u.deactivatedAt) return null;
+  return { userId: u.id, username: u.username };
+}
+
+const BACKFILL_BATCH = 500;
+
+/** Job: fill usernameKey on users and history rows written before it existed */
+export async function backfillUsernameKeys() {
+  let filled = 0;
+
+  const users = await prisma.user.findMany({
+    where: { usernameKey: null, username: { not: null } },
+    select: { id: true, username: true },
+    take: BACKFILL_BATCH
+  });
+  for (const u of users) {
+    await prisma.user.update({
+      where: { id: u.id },
+      data: { usernameKey: usernameKey(u.username!) }
+    });
+    filled++;
+  }
+
+  const history = await prisma.usernameHistory.findMany({
+    where: { usernameKey: null },
+    select: { id: true, username: true },
+    take: BACKFILL_BATCH
+  });
+  for (const h of history) {
+    await prisma.usernameHistory.update({
+      where: { id: h.id },
+      data: { usernameKey: usernameKey(h.username) }
+    });
+    filled++;
+  }
+
+  return { filled };
+}
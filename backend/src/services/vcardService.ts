@@ -0,0 +1,133 @@
+// src/services/vcardService.ts
+import { s3ObjectUrl } from '../config/s3.js';
+import {
+  buildVCard,
+  escapeText,
+  structured,
+  type VCardProperty
+} from '../utils/vcard.js';
+
+// SocialPlatform → X-SOCIALPROFILE type (PERSONAL/OTHER are plain URLs)
+const SOCIAL_PROFILE_TYPES: Record<string, string> = {
+  TWITTER: 'twitter',
+  INSTAGRAM: 'instagram',
+  FACEBOOK: 'facebook',
+  LINKEDIN: 'linkedin',
+  TIKTOK: 'tiktok',
+  YOUTUBE: 'youtube',
+  GITHUB: 'github'
+};
+
+/** 2024-05-01T10:00:00.000Z → 20240501T100000Z */
+function timestamp(d: Date): string {
+  return d
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+}
+
+/**
+ * vCard for a card's PUBLIC view (output of serializeCard with isOwner: false):
+ * phone/company/country are already null when hidden, and socials are public-only.
+ */
+export function buildCardVCard(card: any, opts: { source?: string } = {}) {
+  const fullName = `${card.firstName ?? ''} ${card.lastName ?? ''}`.trim();
+  const props: VCardProperty[] = [
+    { name: 'KIND', value: 'individual' },
+    { name: 'FN', value: escapeText(fullName || card.slug) },
+    {
+      name: 'N',
+      value: structured([card.lastName, card.firstName, '', '', ''])
+    }
+  ];
+
+  if (card.role) props.push({ name: 'TITLE', value: escapeText(card.role) });
+  if (card.company) {
+    props.push({ name: 'ORG', value: structured([card.company]) });
+  }
+  if (card.phone) {
+    props.push({
+      name: 'TEL',
+      params: { VALUE: 'uri', TYPE: 'cell' },
+      value: `tel:${String(card.phone).replace(/[^\d+]/g, '')}`
+    });
+  }
+  if (card.country) {
+    props.push({
+      name: 'ADR',
+      value: structured(['', '', '', '', '', '', card.country])
+    });
+  }
+  if (card.shortBio) {
+    props.push({ name: 'NOTE', value: escapeText(card.shortBio) });
+  }
+  if (card.avatarKey) {
+    // linked, not embedded: keeps the file small and the photo current
+    props.push({ name: 'PHOTO', value: s3ObjectUrl(card.avatarKey) });
+  }
+
+  for (const s of card.socials ?? []) {
+    if (!s.url) continue;
+    const type = SOCIAL_PROFILE_TYPES[s.platform];
+    if (type) {
+      // Apple Contacts reads X-SOCIALPROFILE; most other clients only URL
+      props.push({
+        name: 'X-SOCIALPROFILE',
+        params: { TYPE: type, 'X-USER': s.handle ?? undefined },
+        value: s.url
+      });
+    }
+    props.push({
+      name: 'URL',
+      params: { TYPE: type ?? undefined, LABEL: s.label ?? undefined },
+      value: s.url
+    });
+  }
+
+  if (opts.source) props.push({ name: 'SOURCE', value: opts.source });
+  props.push({ name: 'UID', value: `urn:streakling:card:${card.id}` });
+  if (card.updatedAt) {
+    props.push({ name: 'REV', value: timestamp(new Date(card.updatedAt)) });
+  }
+
+  return buildVCard(props);
+}
+
+/** vCard for a lead left on a card (owner export) */
+export function buildLeadVCard(
+  lead: {
+    id: string;
+    name: string;
+    email: string | null;
+    phone: string | null;
+    message: string | null;
+    createdAt: Date;
+  },
+  card: { slug: string }
+) {
+  const props: VCardProperty[] = [
+    { name: 'KIND', value: 'individual' },
+    { name: 'FN', value: escapeText(lead.name) }
+  ];
+  if (lead.email) {
+    props.push({ name: 'EMAIL', value: escapeText(lead.email) });
+  }
+  if (lead.phone) {
+    props.push({
+      name: 'TEL',
+      params: { VALUE: 'uri' },
+      value: `tel:${lead.phone.replace(/[^\d+]/g, '')}`
+    });
+  }
+  props.push({
+    name: 'NOTE',
+    value: escapeText(
+      [lead.message, `Sent via your card /${card.slug}`]
+        .filter(Boolean)
+        .join('\n\n')
+    )
+  });
+  props.push({ name: 'UID', value: `urn:streakling:lead:${lead.id}` });
+  props.push({ name: 'REV', value: timestamp(lead.createdAt) });
+  return buildVCard(props);
+}
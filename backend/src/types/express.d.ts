@@ -1,8 +1,18 @@
 // Tell TS that req.user exists (populated by our session middleware)
 import type { SessionPayload } from '../utils/sessionCookie';
+import type { Permission } from '../config/permissions';
+import type { TokenScope } from '../config/scopes';
 
 declare module 'express-serve-static-core' {
   interface Request {
-    user?: SessionPayload | null;
+    // permissions are resolved from the role once per request
+    user?:
+      | (SessionPayload & {
+          permissions?: readonly Permission[];
+          // 'pat' = Authorization: Bearer personal access token
+          authType?: 'session' | 'pat';
+          scopes?: readonly TokenScope[];
+        })
+      | null;
   }
 }
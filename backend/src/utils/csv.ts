@@ -0,0 +1,20 @@
+// src/utils/csv.ts
+// RFC 4180 CSV. Cells that a spreadsheet would run as a formula are prefixed with '
+// (phone numbers like "+44 20 7946 0000" are left alone).
+
+export type CsvColumn<T> = { header: string; value: (row: T) => unknown };
+
+function cell(v: unknown): string {
+  if (v === null || v === undefined) return '';
+  let s = v instanceof Date ? v.toISOString() : String(v);
+  if (/^[=+\-@\t\r]/.test(s) && !/^\+[\d\s().-]+$/.test(s)) s = `'${s}`;
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function toCsv<T>(rows: T[], columns: CsvColumn<T>[]): string {
+  const lines = [
+    columns.map(c => cell(c.header)).join(','),
+    ...rows.map(r => columns.map(c => cell(c.value(r))).join(','))
+  ];
+  return lines.join('\r\n') + '\r\n';
+}
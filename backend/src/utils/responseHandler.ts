@@ -37,6 +37,12 @@ export const sendBadRequest = (
 export const sendUnauthorized = (res: Response, message = 'Unauthorized') =>
   res.status(401).json({ status: 'fail', message });
 
+export const sendPaymentRequired = (
+  res: Response,
+  message = 'Upgrade required',
+  errors?: any
+) => res.status(402).json({ status: 'fail', message, errors });
+
 export const sendForbidden = (res: Response, message = 'Forbidden') =>
   res.status(403).json({ status: 'fail', message });
 
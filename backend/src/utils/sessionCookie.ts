@@ -1,10 +1,13 @@
 import jwt from 'jsonwebtoken';
 import type { CookieOptions, Response, Request } from 'express';
+import type { UserRole } from '@prisma/client';
 import { env } from '../config/env.js';
 
 export type SessionPayload = {
   uid: string; // local user id
   cid: string; // clerk user id
+  sid?: string; // Session row id (server-side registry)
+  imp?: string; // impersonating admin's user id (support sessions only)
   username?: string | null;
   email?: string | null;
   displayName: string;
@@ -12,9 +15,17 @@ export type SessionPayload = {
   phone?: string | null; // sensitive (opt-in)
   religion?: string | null; // sensitive (opt-in)
   country?: string | null;
-  role?: 'ADMIN' | 'USER';
+  role?: UserRole;
+  // set by jwt.sign — present on decoded cookies only
+  iat?: number;
+  exp?: number;
 };
 
+export const ACCESS_TTL_SECONDS = 60 * 60; // 1 hour
+// re-issue the access cookie when it has less than this left
+export const RENEW_WITHIN_SECONDS = 15 * 60;
+export const REFRESH_TTL_SECONDS = 30 * 24 * 60 * 60; // 30 days
+
 const COOKIE_NAME = env.SESSION_COOKIE_NAME;
 const COOKIE_OPTIONS: CookieOptions = {
   httpOnly: true,
@@ -22,21 +33,47 @@ const COOKIE_OPTIONS: CookieOptions = {
   sameSite: env.COOKIE_SAMESITE,
   domain: env.COOKIE_DOMAIN,
   path: '/',
-  maxAge: 60 * 60 * 1000 // 1 hour
+  maxAge: ACCESS_TTL_SECONDS * 1000
+};
+
+// Refresh cookie is only ever sent to the session endpoints + middleware renewals
+const REFRESH_COOKIE_NAME = `${COOKIE_NAME}_rt`;
+const REFRESH_COOKIE_OPTIONS: CookieOptions = {
+  ...COOKIE_OPTIONS,
+  path: '/api',
+  maxAge: REFRESH_TTL_SECONDS * 1000
 };
 
-export function setSessionCookie(res: Response, payload: SessionPayload) {
-  const token = jwt.sign(payload, env.SESSION_SECRET, {
+export function setSessionCookie(
+  res: Response,
+  payload: SessionPayload,
+  ttlSeconds = ACCESS_TTL_SECONDS
+) {
+  // strip registered claims from a previously decoded payload
+  const { iat: _iat, exp: _exp, ...claims } = payload;
+  const token = jwt.sign(claims, env.SESSION_SECRET, {
     algorithm: 'HS256',
-    expiresIn: '1h'
+    expiresIn: ttlSeconds
+  });
+  res.cookie(COOKIE_NAME, token, {
+    ...COOKIE_OPTIONS,
+    maxAge: ttlSeconds * 1000
   });
-  res.cookie(COOKIE_NAME, token, COOKIE_OPTIONS);
 }
 
-export function clearSessionCookie(res: Response) {
+/** Access cookie only — the refresh cookie (if any) can restore the real session */
+export function clearAccessCookie(res: Response) {
   res.clearCookie(COOKIE_NAME, { ...COOKIE_OPTIONS, maxAge: undefined });
 }
 
+export function clearSessionCookie(res: Response) {
+  clearAccessCookie(res);
+  res.clearCookie(REFRESH_COOKIE_NAME, {
+    ...REFRESH_COOKIE_OPTIONS,
+    maxAge: undefined
+  });
+}
+
 export function readSessionCookie(req: Request): SessionPayload | null {
   const raw = req.cookies?.[COOKIE_NAME];
   if (!raw) return null;
@@ -46,3 +83,29 @@ export function readSessionCookie(req: Request): SessionPayload | null {
     return null;
   }
 }
+
+export function setRefreshCookie(res: Response, token: string) {
+  res.cookie(REFRESH_COOKIE_NAME, token, REFRESH_COOKIE_OPTIONS);
+}
+
+export function readRefreshCookie(req: Request): string | null {
+  const raw = req.cookies?.[REFRESH_COOKIE_NAME];
+  return typeof raw === 'string' && raw.length ? raw : null;
+}
+
+// CSRF secret for the double-submit check (see middlewares/csrf.ts).
+// httpOnly: the SPA gets the token from GET /session/csrf, not by reading cookies.
+const CSRF_COOKIE_NAME = `${COOKIE_NAME}_csrf`;
+const CSRF_COOKIE_OPTIONS: CookieOptions = {
+  ...COOKIE_OPTIONS,
+  maxAge: REFRESH_TTL_SECONDS * 1000
+};
+
+export function setCsrfCookie(res: Response, token: string) {
+  res.cookie(CSRF_COOKIE_NAME, token, CSRF_COOKIE_OPTIONS);
+}
+
+export function readCsrfCookie(req: Request): string | null {
+  const raw = req.cookies?.[CSRF_COOKIE_NAME];
+  return typeof raw === 'string' && raw.length ? raw : null;
+}
@@ -0,0 +1,145 @@
+// src/utils/slugPolicy.ts
+// One policy for every public handle: usernames and card/portfolio/challenge slugs.
+import {
+  PROFANITY_SUBSTRINGS,
+  PROFANITY_WORDS,
+  RESERVED_SLUGS
+} from '../config/slugPolicy.js';
+
+export type HandleKind = 'username' | 'slug';
+
+export type SlugPolicyViolation = {
+  code:
+    | 'HANDLE_TOO_SHORT'
+    | 'HANDLE_TOO_LONG'
+    | 'HANDLE_INVALID_FORMAT'
+    | 'HANDLE_RESERVED'
+    | 'HANDLE_PROFANITY';
+  message: string;
+};
+
+const RULES: Record<
+  HandleKind,
+  { min: number; max: number; pattern: RegExp; format: string }
+> = {
+  username: {
+    min: 3,
+    max: 30,
+    pattern: /^[a-z0-9_-]+$/i,
+    format: 'Use letters, numbers, underscore or dash'
+  },
+  slug: {
+    min: 3,
+    max: 64,
+    pattern: /^[a-z0-9]+(?:-[a-z0-9]+)*$/,
+    format: 'Use lowercase letters and numbers separated by single dashes'
+  }
+};
+
+// Leetspeak digits read as the letter they imitate. Other lookalikes (Cyrillic,
+// Greek, symbols) never get this far: the format rules only allow ASCII.
+const LEETSPEAK: Record<string, string> = {
+  '0': 'o',
+  '3': 'e',
+  '4': 'a',
+  '5': 's',
+  '7': 't',
+  '8': 'b',
+  '9': 'g'
+};
+
+/**
+ * Canonical "skeleton" used for reserved/profanity checks: lowercase with
+ * leetspeak folded (callers also try it without separators). The plain
+ * lowercase form is kept too, and "1" is ambiguous (i / l), so every reading
+ * is returned.
+ */
+function skeletons(value: string): string[] {
+  const lower = value.toLowerCase();
+  const folded = Array.from(lower)
+    .map(ch => LEETSPEAK[ch] ?? ch)
+    .join('');
+  return [lower, folded.replace(/1/g, 'i'), folded.replace(/1/g, 'l')];
+}
+
+function segments(skeleton: string): string[] {
+  return skeleton.split(/[-_.\s]+/).filter(Boolean);
+}
+
+function isReserved(value: string): boolean {
+  return skeletons(value).some(s => {
+    const joined = s.replace(/[-_.\s]+/g, '');
+    return RESERVED_SLUGS.has(s) || RESERVED_SLUGS.has(joined);
+  });
+}
+
+function isProfane(value: string): boolean {
+  return skeletons(value).some(s => {
+    const joined = s.replace(/[-_.\s]+/g, '');
+    if (PROFANITY_SUBSTRINGS.some(w => joined.includes(w))) return true;
+    return segments(s).some(seg => PROFANITY_WORDS.includes(seg));
+  });
+}
+
+/** null when `value` is acceptable as a handle of this kind */
+export function checkHandle(
+  value: string,
+  kind: HandleKind
+): SlugPolicyViolation | null {
+  const rule = RULES[kind];
+  const label = kind === 'username' ? 'Username' : 'Slug';
+
+  if (value.length < rule.min) {
+    return {
+      code: 'HANDLE_TOO_SHORT',
+      message: `${label} must be at least ${rule.min} characters`
+    };
+  }
+  if (value.length > rule.max) {
+    return {
+      code: 'HANDLE_TOO_LONG',
+      message: `${label} must be at most ${rule.max} characters`
+    };
+  }
+  if (!rule.pattern.test(value)) {
+    return { code: 'HANDLE_INVALID_FORMAT', message: rule.format };
+  }
+  if (isReserved(value)) {
+    return {
+      code: 'HANDLE_RESERVED',
+      message: `This ${label.toLowerCase()} is reserved`
+    };
+  }
+  if (isProfane(value)) {
+    return {
+      code: 'HANDLE_PROFANITY',
+      message: `This ${label.toLowerCase()} is not allowed`
+    };
+  }
+  return null;
+}
+
+/** "My Cool Title!" → "my-cool-title" (may still violate the policy) */
+export function slugify(input: string): string {
+  return input
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/(^-|-$)+/g, '')
+    .slice(0, RULES.slug.max)
+    .replace(/-$/, '');
+}
+
+/** "my-slug" + 2 → "my-slug-2", trimmed so the result stays within the max length */
+export function suffixSlug(base: string, n: number): string {
+  const suffix = `-${n}`;
+  return `${base
+    .slice(0, RULES.slug.max - suffix.length)
+    .replace(/-$/, '')}${suffix}`;
+}
+
+/** Slug derived from free text (e.g. a title), falling back when it isn't allowed */
+export function deriveSlug(input: string, fallback: string): string {
+  const slug = slugify(input);
+  return checkHandle(slug, 'slug') ? fallback : slug;
+}
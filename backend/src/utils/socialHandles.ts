@@ -0,0 +1,276 @@
+// src/utils/socialHandles.ts
+// Per-platform handle/URL normalization for social links, so "@john", "john" and
+// "https://instagram.com/john/" all end up as the same handle + canonical URL.
+import type { SocialPlatform } from '@prisma/client';
+
+export type SocialLinkInput = {
+  platform: SocialPlatform;
+  handle?: string | null;
+  url?: string | null;
+};
+
+export type NormalizedSocialLink = {
+  handle: string | null;
+  url: string | null;
+};
+
+export type SocialLinkViolation = {
+  code:
+    | 'SOCIAL_HANDLE_INVALID'
+    | 'SOCIAL_URL_INVALID'
+    | 'SOCIAL_PLATFORM_MISMATCH'
+    | 'SOCIAL_HANDLE_URL_MISMATCH';
+  field: 'handle' | 'url';
+  message: string;
+};
+
+type PlatformRule = {
+  label: string;
+  domains: string[];
+  handle: RegExp;
+  format: string;
+  toUrl: (handle: string) => string;
+  /** Handle from a URL path on one of the domains; null = valid link, no handle (e.g. a post) */
+  fromPath: (segments: string[], url: URL) => string | null;
+};
+
+/** First path segment, unless it's one of the platform's own pages */
+const firstSegment =
+  (reserved: string[]) =>
+  (segments: string[]): string | null => {
+    const first = segments[0];
+    return first && !reserved.includes(first.toLowerCase()) ? first : null;
+  };
+
+/** "@name" segment (TikTok, YouTube) */
+const atSegment = (segments: string[]): string | null => {
+  const at = segments.find(s => s.startsWith('@'));
+  return at ? at.slice(1) : null;
+};
+
+// PERSONAL / OTHER have no rules: any http(s) URL, handle kept as typed
+const RULES: Partial<Record<SocialPlatform, PlatformRule>> = {
+  TWITTER: {
+    label: 'Twitter/X',
+    domains: ['twitter.com', 'x.com'],
+    handle: /^[A-Za-z0-9_]{1,15}$/,
+    format: 'up to 15 letters, numbers or underscores',
+    toUrl: h => `https://x.com/${h}`,
+    fromPath: firstSegment([
+      'home',
+      'i',
+      'intent',
+      'search',
+      'share',
+      'explore',
+      'hashtag',
+      'settings'
+    ])
+  },
+  INSTAGRAM: {
+    label: 'Instagram',
+    domains: ['instagram.com', 'instagr.am'],
+    handle: /^(?!.*\.\.)(?!\.)(?!.*\.$)[A-Za-z0-9._]{1,30}$/,
+    format: 'up to 30 letters, numbers, periods or underscores',
+    toUrl: h => `https://www.instagram.com/${h}/`,
+    fromPath: firstSegment([
+      'p',
+      'reel',
+      'reels',
+      'stories',
+      'explore',
+      'accounts',
+      'direct',
+      'tv'
+    ])
+  },
+  FACEBOOK: {
+    label: 'Facebook',
+    domains: ['facebook.com', 'fb.com', 'fb.me'],
+    // vanity name, or the numeric id of a profile without one
+    handle: /^(?:[A-Za-z0-9.]{5,50}|\d{5,20})$/,
+    format: 'at least 5 letters, numbers or periods',
+    toUrl: h =>
+      /^\d+$/.test(h)
+        ? `https://www.facebook.com/profile.php?id=${h}`
+        : `https://www.facebook.com/${h}`,
+    fromPath: (segments, url) =>
+      segments[0] === 'profile.php'
+        ? url.searchParams.get('id')
+        : firstSegment([
+            'groups',
+            'events',
+            'watch',
+            'marketplace',
+            'share',
+            'sharer',
+            'story.php',
+            'permalink.php'
+          ])(segments)
+  },
+  LINKEDIN: {
+    label: 'LinkedIn',
+    domains: ['linkedin.com'],
+    handle: /^[A-Za-z0-9-]{3,100}$/,
+    format: '3-100 letters, numbers or dashes',
+    toUrl: h => `https://www.linkedin.com/in/${h}`,
+    // company/school pages are valid links, but not personal handles
+    fromPath: segments => (segments[0] === 'in' ? segments[1] ?? null : null)
+  },
+  TIKTOK: {
+    label: 'TikTok',
+    domains: ['tiktok.com'],
+    handle: /^(?!.*\.$)[A-Za-z0-9_.]{2,24}$/,
+    format: '2-24 letters, numbers, periods or underscores',
+    toUrl: h => `https://www.tiktok.com/@${h}`,
+    fromPath: atSegment
+  },
+  YOUTUBE: {
+    label: 'YouTube',
+    domains: ['youtube.com', 'youtu.be'],
+    handle: /^[A-Za-z0-9_.-]{3,30}$/,
+    format: '3-30 letters, numbers, periods, dashes or underscores',
+    toUrl: h => `https://www.youtube.com/@${h}`,
+    // /channel/UC…, /c/… and videos stay URL-only
+    fromPath: atSegment
+  },
+  GITHUB: {
+    label: 'GitHub',
+    domains: ['github.com'],
+    handle: /^[A-Za-z0-9](?:[A-Za-z0-9]|-(?=[A-Za-z0-9])){0,38}$/,
+    format: 'up to 39 letters, numbers or single dashes',
+    toUrl: h => `https://github.com/${h}`,
+    fromPath: firstSegment([
+      'orgs',
+      'settings',
+      'features',
+      'topics',
+      'explore',
+      'marketplace',
+      'sponsors',
+      'login'
+    ])
+  }
+};
+
+function hostMatches(host: string, domains: string[]) {
+  return domains.some(d => host === d || host.endsWith(`.${d}`));
+}
+
+/** The platform a URL belongs to (for "that's a TikTok link" messages) */
+function platformOfHost(host: string): SocialPlatform | null {
+  for (const [platform, rule] of Object.entries(RULES)) {
+    if (hostMatches(host, rule!.domains)) return platform as SocialPlatform;
+  }
+  return null;
+}
+
+function parseHttpUrl(raw: string): URL | null {
+  const withScheme = /^[a-z][a-z0-9+.-]*:/i.test(raw) ? raw : `https://${raw}`;
+  try {
+    const u = new URL(withScheme);
+    if (u.protocol !== 'http:' && u.protocol !== 'https:') return null;
+    return u.hostname.includes('.') ? u : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Something pasted into the handle field that is really a link */
+function looksLikeUrl(value: string) {
+  return /^https?:\/\//i.test(value) || /^[\w-]+(\.[\w-]+)+\//.test(value);
+}
+
+const sameHandle = (a: string, b: string) =>
+  a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Normalize one social link: strip "@", validate the handle for the platform,
+ * derive the canonical URL from a handle or pull the handle out of a pasted URL.
+ * Returns the violation instead when the link can't belong to the platform.
+ */
+export function normalizeSocialLink(
+  input: SocialLinkInput
+): NormalizedSocialLink | SocialLinkViolation {
+  let handle = input.handle?.trim() || null;
+  let rawUrl = input.url?.trim() || null;
+
+  if (handle && looksLikeUrl(handle)) {
+    if (!rawUrl) rawUrl = handle;
+    handle = null;
+  }
+
+  let url: URL | null = null;
+  if (rawUrl) {
+    url = parseHttpUrl(rawUrl);
+    if (!url) {
+      return {
+        code: 'SOCIAL_URL_INVALID',
+        field: 'url',
+        message: 'Enter a valid http(s) link'
+      };
+    }
+  }
+
+  const rule = RULES[input.platform];
+  if (!rule) return { handle, url: url ? url.toString() : null };
+
+  if (handle) {
+    handle = handle.replace(/^@+/, '');
+    if (!rule.handle.test(handle)) {
+      return {
+        code: 'SOCIAL_HANDLE_INVALID',
+        field: 'handle',
+        message: `${rule.label} handles are ${rule.format}`
+      };
+    }
+  }
+
+  if (url) {
+    const host = url.hostname.toLowerCase();
+    if (!hostMatches(host, rule.domains)) {
+      const other = platformOfHost(host);
+      return {
+        code: 'SOCIAL_PLATFORM_MISMATCH',
+        field: 'url',
+        message: other
+          ? `That is a ${RULES[other]!.label} link, not ${rule.label}`
+          : `Enter a ${rule.label} link (${rule.domains[0]})`
+      };
+    }
+
+    const segments = url.pathname
+      .split('/')
+      .filter(Boolean)
+      .map(s => {
+        try {
+          return decodeURIComponent(s);
+        } catch {
+          return s;
+        }
+      });
+    const fromUrl = rule.fromPath(segments, url)?.replace(/^@+/, '') ?? null;
+    if (fromUrl && rule.handle.test(fromUrl)) {
+      if (handle && !sameHandle(handle, fromUrl)) {
+        return {
+          code: 'SOCIAL_HANDLE_URL_MISMATCH',
+          field: 'handle',
+          message: `The handle @${handle} doesn't match the link (@${fromUrl})`
+        };
+      }
+      // a profile link: store the canonical form
+      return { handle: handle ?? fromUrl, url: rule.toUrl(handle ?? fromUrl) };
+    }
+    // a valid link that isn't a profile (post, company page…): keep it as given
+    url.protocol = 'https:';
+    return { handle, url: url.toString() };
+  }
+
+  return { handle, url: handle ? rule.toUrl(handle) : null };
+}
+
+export function isSocialLinkViolation(
+  r: NormalizedSocialLink | SocialLinkViolation
+): r is SocialLinkViolation {
+  return 'code' in r;
+}
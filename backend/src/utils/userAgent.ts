@@ -0,0 +1,41 @@
+// src/utils/userAgent.ts
+// Coarse user-agent parsing — good enough for labels, not for feature detection.
+
+export type DeviceType = 'mobile' | 'tablet' | 'desktop' | 'bot' | 'unknown';
+
+export function deviceType(ua?: string | null): DeviceType {
+  if (!ua) return 'unknown';
+  if (/bot|crawler|spider|slurp|facebookexternalhit|preview/i.test(ua))
+    return 'bot';
+  if (/ipad|tablet|kindle|silk/i.test(ua)) return 'tablet';
+  if (/android(?!.*mobile)/i.test(ua)) return 'tablet';
+  if (/mobi|iphone|ipod|android/i.test(ua)) return 'mobile';
+  return 'desktop';
+}
+
+function browserName(ua: string): string | null {
+  if (/edg\//i.test(ua)) return 'Edge';
+  if (/opr\/|opera/i.test(ua)) return 'Opera';
+  if (/firefox|fxios/i.test(ua)) return 'Firefox';
+  if (/chrome|crios/i.test(ua)) return 'Chrome';
+  if (/safari/i.test(ua)) return 'Safari';
+  return null;
+}
+
+function osName(ua: string): string | null {
+  if (/iphone|ipad|ipod/i.test(ua)) return 'iOS';
+  if (/android/i.test(ua)) return 'Android';
+  if (/windows/i.test(ua)) return 'Windows';
+  if (/mac os x|macintosh/i.test(ua)) return 'macOS';
+  if (/linux/i.test(ua)) return 'Linux';
+  return null;
+}
+
+/** e.g. "Chrome on macOS", "Safari on iOS", "Unknown device" */
+export function describeDevice(ua?: string | null): string {
+  if (!ua) return 'Unknown device';
+  const browser = browserName(ua);
+  const os = osName(ua);
+  if (browser && os) return `${browser} on ${os}`;
+  return browser ?? os ?? 'Unknown device';
+}
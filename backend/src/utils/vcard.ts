@@ -0,0 +1,62 @@
+// src/utils/vcard.ts
+// vCard 4.0 (RFC 6350) writer: text escaping, CRLF line endings, 75-octet folding.
+
+export type VCardProperty = {
+  name: string; // "FN", "TEL", "X-SOCIALPROFILE", ...
+  params?: Record<string, string | undefined>;
+  value: string; // already escaped/structured — see escapeText / structured
+};
+
+/** Escape a TEXT value (RFC 6350 §3.4) */
+export function escapeText(v: string): string {
+  return v
+    .replace(/\\/g, '\\\\')
+    .replace(/,/g, '\\,')
+    .replace(/;/g, '\\;')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+/** Structured value (e.g. N, ADR): components escaped, joined by ";" */
+export function structured(parts: Array<string | null | undefined>): string {
+  return parts.map(p => escapeText(p ?? '')).join(';');
+}
+
+function paramValue(v: string): string {
+  // quote when the value contains characters that end a parameter
+  return /[;:,"]/.test(v) ? `"${v.replace(/"/g, "'")}"` : v;
+}
+
+/** Fold to lines of at most 75 octets without splitting a UTF-8 sequence (§3.2) */
+export function foldLine(line: string): string {
+  const bytes = Buffer.from(line, 'utf8');
+  if (bytes.length <= 75) return line;
+
+  const out: string[] = [];
+  let start = 0;
+  let limit = 75; // continuation lines lose one octet to the leading space
+  while (start < bytes.length) {
+    let end = Math.min(start + limit, bytes.length);
+    // back off continuation bytes (10xxxxxx) so characters stay whole
+    while (end < bytes.length && (bytes[end] & 0xc0) === 0x80) end--;
+    out.push(bytes.subarray(start, end).toString('utf8'));
+    start = end;
+    limit = 74;
+  }
+  return out.join('\r\n ');
+}
+
+export function buildVCard(props: VCardProperty[]): string {
+  const lines = [
+    'BEGIN:VCARD',
+    'VERSION:4.0',
+    ...props.map(p => {
+      const params = Object.entries(p.params ?? {})
+        .filter(([, v]) => v !== undefined && v !== '')
+        .map(([k, v]) => `;${k.toUpperCase()}=${paramValue(v!)}`)
+        .join('');
+      return `${p.name.toUpperCase()}${params}:${p.value}`;
+    }),
+    'END:VCARD'
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,220 @@
+import './helpers/env';
+import { beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createFakePrisma } from './helpers/fakePrisma';
+import {
+  closedAtForStatus,
+  describeLifecycle,
+  runChallengeLifecycle,
+  submissionDenial,
+  type LifecycleFields
+} from '../src/services/challengeLifecycleService';
+
+const db = createFakePrisma({
+  challenge: {
+    relations: {
+      prizes: {
+        model: 'challengePrize',
+        from: 'id',
+        to: 'challengeId',
+        many: true
+      }
+    },
+    defaults: () => ({ closedAt: null, resultsAnnouncedAt: null })
+  },
+  challengePrize: {}
+});
+
+const MS = 1;
+const DAY = 24 * 60 * 60 * 1000;
+// CHALLENGE_ARCHIVE_AFTER_DAYS defaults to 30
+const WINDOW = 30 * DAY;
+const NOW = new Date('2026-03-01T12:00:00.000Z');
+
+const at = (offset: number) => new Date(NOW.getTime() + offset);
+
+function challenge(fields: Partial<LifecycleFields>): LifecycleFields {
+  return { status: 'OPEN', deadline: null, closedAt: null, ...fields };
+}
+
+describe('submissionDenial', () => {
+  test('accepts entries on an OPEN challenge before its deadline', () => {
+    assert.equal(submissionDenial(challenge({ deadline: at(MS) }), NOW), null);
+    assert.equal(submissionDenial(challenge({ deadline: null }), NOW), null);
+  });
+
+  test('refuses entries from the deadline itself on, job or not', () => {
+    assert.equal(
+      submissionDenial(challenge({ deadline: NOW }), NOW),
+      'DEADLINE_PASSED'
+    );
+    assert.equal(
+      submissionDenial(challenge({ deadline: at(-DAY) }), NOW),
+      'DEADLINE_PASSED'
+    );
+  });
+
+  test('refuses entries once the challenge is no longer OPEN', () => {
+    for (const status of ['CLOSED', 'ARCHIVED'] as const) {
+      assert.equal(
+        submissionDenial(challenge({ status, deadline: at(DAY) }), NOW),
+        'CHALLENGE_NOT_OPEN'
+      );
+    }
+  });
+});
+
+describe('describeLifecycle', () => {
+  test('an OPEN challenge closes at its deadline', () => {
+    assert.deepEqual(describeLifecycle(challenge({ deadline: at(DAY) }), NOW), {
+      phase: 'OPEN',
+      acceptingSubmissions: true,
+      closesAt: at(DAY).toISOString(),
+      judging: null
+    });
+  });
+
+  test('judging starts at a passed deadline before the job has closed it', () => {
+    const out = describeLifecycle(challenge({ deadline: at(-DAY) }), NOW);
+    assert.equal(out.phase, 'JUDGING');
+    assert.equal(out.acceptingSubmissions, false);
+    assert.equal(out.closesAt, null);
+    assert.deepEqual(out.judging, {
+      startedAt: at(-DAY).toISOString(),
+      endsAt: at(WINDOW - DAY).toISOString(),
+      awaitingResults: false
+    });
+  });
+
+  test('a CLOSED challenge is judged for the window after closedAt', () => {
+    const out = describeLifecycle(
+      challenge({ status: 'CLOSED', deadline: at(DAY), closedAt: NOW }),
+      NOW
+    );
+    assert.equal(out.phase, 'JUDGING');
+    assert.deepEqual(out.judging, {
+      startedAt: NOW.toISOString(),
+      endsAt: at(WINDOW).toISOString(),
+      awaitingResults: false
+    });
+  });
+
+  test('judging has no end while prizes wait for their results', () => {
+    const c = challenge({ status: 'CLOSED', closedAt: NOW, prizes: [{}] });
+    assert.deepEqual(describeLifecycle(c, NOW).judging, {
+      startedAt: NOW.toISOString(),
+      endsAt: null,
+      awaitingResults: true
+    });
+
+    const announced = { ...c, resultsAnnouncedAt: at(DAY) };
+    assert.equal(
+      describeLifecycle(announced, NOW).judging?.endsAt,
+      at(WINDOW).toISOString()
+    );
+  });
+
+  test('an ARCHIVED challenge is neither open nor judging', () => {
+    assert.deepEqual(
+      describeLifecycle(challenge({ status: 'ARCHIVED', closedAt: NOW }), NOW),
+      {
+        phase: 'ARCHIVED',
+        acceptingSubmissions: false,
+        closesAt: null,
+        judging: null
+      }
+    );
+  });
+});
+
+describe('closedAtForStatus', () => {
+  test('leaves closedAt alone when the status does not change', () => {
+    assert.equal(closedAtForStatus(undefined, 'OPEN', NOW), undefined);
+    assert.equal(closedAtForStatus('CLOSED', 'CLOSED', NOW), undefined);
+  });
+
+  test('closing starts the window now, reopening clears it', () => {
+    assert.equal(closedAtForStatus('CLOSED', 'OPEN', NOW), NOW);
+    assert.equal(closedAtForStatus('OPEN', 'CLOSED', NOW), null);
+  });
+
+  test('archiving keeps the recorded close', () => {
+    assert.equal(closedAtForStatus('ARCHIVED', 'CLOSED', NOW), undefined);
+  });
+});
+
+describe('runChallengeLifecycle', () => {
+  beforeEach(() => db.install());
+
+  const statusOf = (id: string) => db.rows('challenge').find(c => c.id === id)!;
+
+  test('closes OPEN challenges from their deadline on, as of the deadline', async () => {
+    db.seed('challenge', { id: 'due', status: 'OPEN', deadline: NOW });
+    db.seed('challenge', { id: 'late', status: 'OPEN', deadline: at(-DAY) });
+    db.seed('challenge', { id: 'early', status: 'OPEN', deadline: at(MS) });
+    db.seed('challenge', { id: 'open', status: 'OPEN', deadline: null });
+
+    const out = await runChallengeLifecycle(NOW);
+
+    assert.deepEqual(out, { closed: 2, archived: 0 });
+    assert.equal(statusOf('due').status, 'CLOSED');
+    assert.deepEqual(statusOf('due').closedAt, NOW);
+    assert.deepEqual(statusOf('late').closedAt, at(-DAY));
+    assert.equal(statusOf('early').status, 'OPEN');
+    assert.equal(statusOf('open').status, 'OPEN');
+  });
+
+  test('archives CLOSED challenges once the judging window is over', async () => {
+    db.seed('challenge', {
+      id: 'over',
+      status: 'CLOSED',
+      closedAt: at(-WINDOW)
+    });
+    db.seed('challenge', {
+      id: 'judging',
+      status: 'CLOSED',
+      closedAt: at(-WINDOW + MS)
+    });
+
+    const out = await runChallengeLifecycle(NOW);
+
+    assert.deepEqual(out, { closed: 0, archived: 1 });
+    assert.equal(statusOf('over').status, 'ARCHIVED');
+    assert.equal(statusOf('judging').status, 'CLOSED');
+  });
+
+  test('starts the window now for CLOSED challenges without closedAt', async () => {
+    db.seed('challenge', { id: 'legacy', status: 'CLOSED', closedAt: null });
+
+    assert.deepEqual(await runChallengeLifecycle(NOW), {
+      closed: 0,
+      archived: 0
+    });
+    assert.deepEqual(statusOf('legacy').closedAt, NOW);
+
+    await runChallengeLifecycle(at(WINDOW));
+    assert.equal(statusOf('legacy').status, 'ARCHIVED');
+  });
+
+  test('keeps a challenge with prizes in judging until results are announced', async () => {
+    db.seed('challenge', {
+      id: 'unannounced',
+      status: 'CLOSED',
+      closedAt: at(-2 * WINDOW)
+    });
+    db.seed('challengePrize', { challengeId: 'unannounced', rank: 1 });
+    db.seed('challenge', {
+      id: 'announced',
+      status: 'CLOSED',
+      closedAt: at(-2 * WINDOW),
+      resultsAnnouncedAt: at(-WINDOW)
+    });
+    db.seed('challengePrize', { challengeId: 'announced', rank: 1 });
+
+    const out = await runChallengeLifecycle(NOW);
+
+    assert.equal(out.archived, 1);
+    assert.equal(statusOf('unannounced').status, 'CLOSED');
+    assert.equal(statusOf('announced').status, 'ARCHIVED');
+  });
+});
@@ -0,0 +1,357 @@
+import './helpers/env';
+import { beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Request, Response } from 'express';
+import { createFakePrisma } from './helpers/fakePrisma';
+import { signSvixPayload, verifySvixSignature } from '../src/utils/svix';
+import { handleClerkWebhook } from '../src/controllers/clerkWebhookController';
+import { handleClerkEvent } from '../src/services/clerkWebhookService';
+import { env } from '../src/config/env';
+
+const db = createFakePrisma({
+  user: {
+    unique: ['clerkId'],
+    defaults: () => ({ deactivatedAt: null, clerkUpdatedAt: null })
+  },
+  session: {},
+  digitalNameCard: {},
+  portfolio: {},
+  challenge: {}
+});
+
+const SECRET = env.CLERK_WEBHOOK_SECRET!;
+// a fixed clock, so the fixtures never go stale
+const TS = 1767225600;
+const ID = 'msg_2abc';
+
+function clerkUser(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'user_clerk_1',
+    username: 'ada',
+    first_name: 'Ada',
+    last_name: 'Lovelace',
+    image_url: 'https://img.clerk.com/ada.png',
+    primary_email_address_id: 'idn_2',
+    email_addresses: [
+      { id: 'idn_1', email_address: 'old@example.com' },
+      { id: 'idn_2', email_address: 'ada@example.com' }
+    ],
+    ...overrides
+  };
+}
+
+function signed(body: string, timestamp = TS) {
+  return {
+    id: ID,
+    timestamp: String(timestamp),
+    signature: `v1,${signSvixPayload(SECRET, ID, timestamp, body)}`
+  };
+}
+
+describe('verifySvixSignature', () => {
+  const body = JSON.stringify({ type: 'user.created', data: clerkUser() });
+
+  test('accepts a payload signed with the secret', () => {
+    assert.doesNotThrow(() =>
+      verifySvixSignature({
+        payload: body,
+        headers: signed(body),
+        secret: SECRET,
+        nowSeconds: TS + 60
+      })
+    );
+  });
+
+  test('accepts any matching entry of a multi-signature header', () => {
+    const headers = signed(body);
+    headers.signature = `v1,bm90LXRoaXMtb25l ${headers.signature}`;
+    assert.doesNotThrow(() =>
+      verifySvixSignature({
+        payload: body,
+        headers,
+        secret: SECRET,
+        nowSeconds: TS
+      })
+    );
+  });
+
+  test('rejects a signature made with another secret', () => {
+    const forged = `v1,${signSvixPayload('whsec_b3RoZXI=', ID, TS, body)}`;
+    assert.throws(
+      () =>
+        verifySvixSignature({
+          payload: body,
+          headers: { ...signed(body), signature: forged },
+          secret: SECRET,
+          nowSeconds: TS
+        }),
+      /No matching signature/
+    );
+  });
+
+  test('rejects a body that was changed after signing', () => {
+    assert.throws(
+      () =>
+        verifySvixSignature({
+          payload: body.replace('Ada', 'Eve'),
+          headers: signed(body),
+          secret: SECRET,
+          nowSeconds: TS
+        }),
+      /No matching signature/
+    );
+  });
+
+  test('rejects a timestamp outside the five minute tolerance', () => {
+    for (const now of [TS + 301, TS - 301]) {
+      assert.throws(
+        () =>
+          verifySvixSignature({
+            payload: body,
+            headers: signed(body),
+            secret: SECRET,
+            nowSeconds: now
+          }),
+        /Timestamp outside tolerance/
+      );
+    }
+  });
+
+  test('rejects missing headers', () => {
+    assert.throws(
+      () =>
+        verifySvixSignature({
+          payload: body,
+          headers: { id: ID, timestamp: String(TS) },
+          secret: SECRET,
+          nowSeconds: TS
+        }),
+      /Missing svix headers/
+    );
+  });
+});
+
+describe('handleClerkEvent', () => {
+  beforeEach(() => db.install());
+
+  const user = () => db.rows('user')[0];
+
+  test('user.created creates the user from the primary email', async () => {
+    const outcome = await handleClerkEvent({
+      type: 'user.created',
+      data: clerkUser()
+    });
+
+    assert.equal(outcome, 'synced');
+    assert.equal(db.rows('user').length, 1);
+    assert.equal(user().clerkId, 'user_clerk_1');
+    assert.equal(user().email, 'ada@example.com');
+    assert.equal(user().displayName, 'Ada Lovelace');
+    assert.equal(user().avatarUrl, 'https://img.clerk.com/ada.png');
+    // usernames are claimed in-app, never taken from Clerk
+    assert.equal(user().username ?? null, null);
+  });
+
+  test('user.updated refreshes the Clerk-owned fields', async () => {
+    db.seed('user', {
+      id: 'u1',
+      clerkId: 'user_clerk_1',
+      username: 'ada',
+      email: 'old@example.com',
+      displayName: 'Ada'
+    });
+
+    const outcome = await handleClerkEvent({
+      type: 'user.updated',
+      data: clerkUser({ first_name: 'Augusta', last_name: 'King' })
+    });
+
+    assert.equal(outcome, 'synced');
+    assert.equal(db.rows('user').length, 1);
+    assert.equal(user().displayName, 'Augusta King');
+    assert.equal(user().email, 'ada@example.com');
+    assert.equal(user().username, 'ada');
+  });
+
+  test('a delayed older user.updated does not overwrite a newer one', async () => {
+    const t = TS * 1000;
+    const newer = await handleClerkEvent({
+      type: 'user.updated',
+      data: clerkUser({ first_name: 'Augusta', updated_at: t + 60_000 })
+    });
+    const older = await handleClerkEvent({
+      type: 'user.updated',
+      data: clerkUser({
+        first_name: 'Ada',
+        email_addresses: [{ id: 'idn_2', email_address: 'old@example.com' }],
+        updated_at: t
+      })
+    });
+
+    assert.equal(newer, 'synced');
+    assert.equal(older, 'stale');
+    assert.equal(user().displayName, 'Augusta Lovelace');
+    assert.equal(user().email, 'ada@example.com');
+    assert.deepEqual(user().clerkUpdatedAt, new Date(t + 60_000));
+
+    // an equally fresh or newer one still applies
+    assert.equal(
+      await handleClerkEvent({
+        type: 'user.updated',
+        data: clerkUser({ first_name: 'Grace', updated_at: t + 120_000 })
+      }),
+      'synced'
+    );
+    assert.equal(user().displayName, 'Grace Lovelace');
+  });
+
+  test('user.updated leaves a deactivated user anonymized', async () => {
+    db.seed('user', {
+      id: 'u1',
+      clerkId: 'user_clerk_1',
+      displayName: 'Deleted user',
+      email: null,
+      deactivatedAt: new Date()
+    });
+
+    const outcome = await handleClerkEvent({
+      type: 'user.updated',
+      data: clerkUser()
+    });
+
+    assert.equal(outcome, 'ignored');
+    assert.equal(user().displayName, 'Deleted user');
+    assert.equal(user().email, null);
+  });
+
+  test('user.deleted anonymizes the user and signs them out', async () => {
+    db.seed('user', {
+      id: 'u1',
+      clerkId: 'user_clerk_1',
+      username: 'ada',
+      email: 'ada@example.com',
+      displayName: 'Ada Lovelace'
+    });
+    db.seed('session', { id: 's1', userId: 'u1', revokedAt: null });
+    db.seed('digitalNameCard', {
+      id: 'card1',
+      userId: 'u1',
+      publishStatus: 'PUBLISHED'
+    });
+    db.seed('portfolio', {
+      id: 'pf1',
+      userId: 'u1',
+      publishStatus: 'DRAFT',
+      publishAt: new Date(Date.now() + 60_000)
+    });
+
+    const outcome = await handleClerkEvent({
+      type: 'user.deleted',
+      data: { id: 'user_clerk_1', deleted: true }
+    });
+
+    assert.equal(outcome, 'deactivated');
+    assert.ok(user().deactivatedAt);
+    assert.equal(user().username, null);
+    assert.equal(user().email, null);
+    assert.equal(user().displayName, 'Deleted user');
+    assert.ok(db.rows('session')[0].revokedAt);
+    assert.equal(db.rows('digitalNameCard')[0].publishStatus, 'PRIVATE');
+    // nothing left for the scheduler to publish again
+    assert.equal(db.rows('portfolio')[0].publishAt, null);
+
+    // redelivery is a no-op
+    assert.equal(
+      await handleClerkEvent({
+        type: 'user.deleted',
+        data: { id: 'user_clerk_1' }
+      }),
+      'ignored'
+    );
+  });
+
+  test('user.deleted for an unknown user and other event types are ignored', async () => {
+    assert.equal(
+      await handleClerkEvent({ type: 'user.deleted', data: { id: 'nope' } }),
+      'ignored'
+    );
+    assert.equal(
+      await handleClerkEvent({ type: 'session.created', data: { id: 'x' } }),
+      'ignored'
+    );
+    assert.equal(db.rows('user').length, 0);
+  });
+});
+
+describe('handleClerkWebhook', () => {
+  beforeEach(() => db.install());
+
+  function fakeRes() {
+    const res = {
+      statusCode: 200,
+      body: undefined as any,
+      status(code: number) {
+        res.statusCode = code;
+        return res;
+      },
+      json(body: unknown) {
+        res.body = body;
+        return res;
+      }
+    };
+    return res;
+  }
+
+  async function deliver(body: string, headers: Record<string, string>) {
+    const req = {
+      body: Buffer.from(body),
+      headers: {
+        'svix-id': headers.id,
+        'svix-timestamp': headers.timestamp,
+        'svix-signature': headers.signature
+      }
+    };
+    const res = fakeRes();
+    await handleClerkWebhook(
+      req as unknown as Request,
+      res as unknown as Response
+    );
+    return res;
+  }
+
+  test('processes a correctly signed event', async () => {
+    const body = JSON.stringify({ type: 'user.created', data: clerkUser() });
+    const now = Math.floor(Date.now() / 1000);
+
+    const res = await deliver(body, signed(body, now));
+
+    assert.equal(res.statusCode, 200);
+    assert.deepEqual(res.body.data, {
+      type: 'user.created',
+      outcome: 'synced'
+    });
+    assert.equal(db.rows('user').length, 1);
+  });
+
+  test('answers 400 and changes nothing for a bad signature', async () => {
+    const body = JSON.stringify({ type: 'user.created', data: clerkUser() });
+    const now = Math.floor(Date.now() / 1000);
+    const headers = signed(body, now);
+
+    const res = await deliver(body.replace('Ada', 'Eve'), headers);
+
+    assert.equal(res.statusCode, 400);
+    assert.match(res.body.message, /Invalid signature/);
+    assert.equal(db.rows('user').length, 0);
+  });
+
+  test('answers 400 for a replayed (stale) delivery', async () => {
+    const body = JSON.stringify({ type: 'user.created', data: clerkUser() });
+
+    const res = await deliver(body, signed(body, TS));
+
+    assert.equal(res.statusCode, 400);
+    assert.match(res.body.message, /Timestamp outside tolerance/);
+    assert.equal(db.rows('user').length, 0);
+  });
+});
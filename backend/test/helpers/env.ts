@@ -0,0 +1,23 @@
+// test/helpers/env.ts
+// Import first: config/env validates process.env when it's loaded.
+const defaults: Record<string, string> = {
+  NODE_ENV: 'test',
+  JOBS_ENABLED: 'false',
+  CORS_ORIGIN: 'http://localhost:3000',
+  DATABASE_URL: 'mysql://test@localhost:3306/test',
+  CLERK_PUBLISHABLE_KEY: 'pk_test',
+  CLERK_SECRET_KEY: 'sk_test',
+  CLERK_WEBHOOK_SECRET: 'whsec_dGVzdC1zaWduaW5nLXNlY3JldA==',
+  SESSION_COOKIE_NAME: 'sid',
+  SESSION_SECRET: 'test-session-secret',
+  STRIPE_SECRET_KEY: 'sk_test_stripe',
+  STRIPE_PUBLISHABLE_KEY: 'pk_test_stripe',
+  STRIPE_PRICE_BASIC: 'price_basic',
+  STRIPE_PRICE_PRO: 'price_pro',
+  STRIPE_PRICE_ULTIMATE: 'price_ultimate',
+  AWS_REGION: 'us-east-1',
+  AWS_S3_BUCKET: 'test-bucket',
+  PAYOUT_PROVIDER: 'fake'
+};
+
+for (const [k, v] of Object.entries(defaults)) process.env[k] ??= v;
@@ -0,0 +1,349 @@
+// test/helpers/fakePrisma.ts
+// In-memory stand-in for the Prisma delegates a test touches. It understands the
+// subset of the query API the services use: equality/null/comparison filters,
+// AND/OR/NOT, relation filters (some/none/every, is/isNot), select/include of
+// declared relations, orderBy on scalar fields, take/skip and counters
+// ({ increment }). Anything else is a test bug, so it throws.
+import { prisma } from '../../src/config/prisma';
+
+type Row = Record<string, any>;
+
+export type Relation = {
+  model: string;
+  /** field on this row */
+  from: string;
+  /** field on the related rows */
+  to: string;
+  many?: boolean;
+};
+
+export type FakeModel = {
+  relations?: Record<string, Relation>;
+  /** unique fields or field tuples (besides id), enforced on create */
+  unique?: (string | string[])[];
+  /** column defaults applied on create */
+  defaults?: () => Row;
+};
+
+const COMPARATORS = new Set([
+  'equals',
+  'not',
+  'in',
+  'notIn',
+  'lt',
+  'lte',
+  'gt',
+  'gte',
+  'contains',
+  'startsWith',
+  'endsWith',
+  'mode'
+]);
+
+function value(v: any) {
+  return v instanceof Date ? v.getTime() : v ?? null;
+}
+
+function isFilterObject(cond: any) {
+  return (
+    cond !== null &&
+    typeof cond === 'object' &&
+    !(cond instanceof Date) &&
+    !Array.isArray(cond)
+  );
+}
+
+function fieldMatches(v: any, cond: any): boolean {
+  if (!isFilterObject(cond)) return value(v) === value(cond);
+  const insensitive = cond.mode === 'insensitive';
+  const norm = (x: any) =>
+    insensitive && typeof x === 'string' ? x.toLowerCase() : value(x);
+  for (const [op, arg] of Object.entries(cond)) {
+    if (!COMPARATORS.has(op)) throw new Error(`fakePrisma: filter ${op}`);
+    if (arg === undefined) continue;
+    const a = norm(v);
+    switch (op) {
+      case 'equals':
+        if (a !== norm(arg)) return false;
+        break;
+      case 'not':
+        if (fieldMatches(v, arg)) return false;
+        break;
+      case 'in':
+        if (!(arg as any[]).some(x => norm(x) === a)) return false;
+        break;
+      case 'notIn':
+        if ((arg as any[]).some(x => norm(x) === a)) return false;
+        break;
+      case 'lt':
+        if (a === null || !(a < norm(arg))) return false;
+        break;
+      case 'lte':
+        if (a === null || !(a <= norm(arg))) return false;
+        break;
+      case 'gt':
+        if (a === null || !(a > norm(arg))) return false;
+        break;
+      case 'gte':
+        if (a === null || !(a >= norm(arg))) return false;
+        break;
+      case 'contains':
+        if (typeof a !== 'string' || !a.includes(norm(arg))) return false;
+        break;
+      case 'startsWith':
+        if (typeof a !== 'string' || !a.startsWith(norm(arg))) return false;
+        break;
+      case 'endsWith':
+        if (typeof a !== 'string' || !a.endsWith(norm(arg))) return false;
+        break;
+    }
+  }
+  return true;
+}
+
+export function createFakePrisma(schema: Record<string, FakeModel>) {
+  const tables = new Map<string, Row[]>();
+  let seq = 0;
+
+  const table = (model: string) => {
+    if (!schema[model]) throw new Error(`fakePrisma: unknown model ${model}`);
+    if (!tables.has(model)) tables.set(model, []);
+    return tables.get(model)!;
+  };
+
+  function related(model: string, row: Row, rel: Relation) {
+    const key = row[rel.from];
+    if (key === null || key === undefined) return [];
+    return table(rel.model).filter(r => value(r[rel.to]) === value(key));
+  }
+
+  function matches(model: string, row: Row, where: Row | undefined): boolean {
+    for (const [k, cond] of Object.entries(where ?? {})) {
+      if (cond === undefined) continue;
+      if (k === 'AND') {
+        const all = Array.isArray(cond) ? cond : [cond];
+        if (!all.every(w => matches(model, row, w))) return false;
+        continue;
+      }
+      if (k === 'OR') {
+        if (!(cond as Row[]).some(w => matches(model, row, w))) return false;
+        continue;
+      }
+      if (k === 'NOT') {
+        const all = Array.isArray(cond) ? cond : [cond];
+        if (all.some(w => matches(model, row, w))) return false;
+        continue;
+      }
+      // compound unique selector, e.g. { entityType_slug: { entityType, slug } }
+      if (
+        schema[model].unique?.some(u => Array.isArray(u) && u.join('_') === k)
+      ) {
+        if (!matches(model, row, cond)) return false;
+        continue;
+      }
+      const rel = schema[model].relations?.[k];
+      if (!rel) {
+        if (!fieldMatches(row[k], cond)) return false;
+        continue;
+      }
+      const rows = related(model, row, rel);
+      if (rel.many) {
+        if (cond.some && !rows.some(r => matches(rel.model, r, cond.some)))
+          return false;
+        if (cond.none && rows.some(r => matches(rel.model, r, cond.none)))
+          return false;
+        if (cond.every && !rows.every(r => matches(rel.model, r, cond.every)))
+          return false;
+        continue;
+      }
+      const one = rows[0] ?? null;
+      if (cond === null || cond.is === null) {
+        if (one) return false;
+      } else if (cond.isNot === null) {
+        if (!one) return false;
+      } else if (!one || !matches(rel.model, one, cond.is ?? cond)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  function sort(rows: Row[], orderBy: any) {
+    const keys: Row[] = orderBy
+      ? Array.isArray(orderBy)
+        ? orderBy
+        : [orderBy]
+      : [];
+    return [...rows].sort((a, b) => {
+      for (const o of keys) {
+        const [field, dir] = Object.entries(o)[0];
+        if (typeof dir !== 'string') continue; // relation ordering: ignored
+        const x = value(a[field]);
+        const y = value(b[field]);
+        if (x === y) continue;
+        const lt = x === null ? true : y === null ? false : x < y;
+        return (lt ? -1 : 1) * (dir === 'desc' ? -1 : 1);
+      }
+      return 0;
+    });
+  }
+
+  function page(rows: Row[], args: Row) {
+    let out = sort(rows, args.orderBy);
+    if (args.skip) out = out.slice(args.skip);
+    if (args.take !== undefined) out = out.slice(0, args.take);
+    return out;
+  }
+
+  function project(model: string, row: Row, args: Row): Row {
+    const relations = schema[model].relations ?? {};
+    const pick = args.select ?? args.include;
+    const out: Row = args.select ? {} : { ...row };
+    for (const [k, spec] of Object.entries(pick ?? {})) {
+      if (!spec || k === '_count') continue;
+      const rel = relations[k];
+      if (!rel) {
+        out[k] = row[k] ?? null;
+        continue;
+      }
+      const nested = spec === true ? {} : (spec as Row);
+      const rows = related(model, row, rel).filter(r =>
+        matches(rel.model, r, nested.where)
+      );
+      out[k] = rel.many
+        ? page(rows, nested).map(r => project(rel.model, r, nested))
+        : rows[0]
+        ? project(rel.model, rows[0], nested)
+        : null;
+    }
+    return out;
+  }
+
+  function applyData(row: Row, data: Row) {
+    for (const [k, v] of Object.entries(data)) {
+      if (v === undefined) continue;
+      if (isFilterObject(v) && 'increment' in v)
+        row[k] = (row[k] ?? 0) + v.increment;
+      else if (isFilterObject(v) && 'decrement' in v)
+        row[k] = (row[k] ?? 0) - v.decrement;
+      else if (isFilterObject(v) && 'set' in v) row[k] = v.set;
+      else row[k] = v;
+    }
+    return row;
+  }
+
+  function insert(model: string, data: Row, skipDuplicates = false) {
+    const now = new Date();
+    const row = applyData(
+      {
+        id: `${model}_${++seq}`,
+        createdAt: now,
+        updatedAt: now,
+        ...(schema[model].defaults?.() ?? {})
+      },
+      data
+    );
+    const rows = table(model);
+    for (const key of ['id', ...(schema[model].unique ?? [])]) {
+      const fields = Array.isArray(key) ? key : [key];
+      if (fields.some(f => row[f] === null || row[f] === undefined)) continue;
+      if (rows.some(r => fields.every(f => value(r[f]) === value(row[f])))) {
+        if (skipDuplicates) return null;
+        throw new Error(`fakePrisma: unique ${model}.${fields.join('+')}`);
+      }
+    }
+    rows.push(row);
+    return row;
+  }
+
+  function delegate(model: string) {
+    const find = (args: Row = {}) =>
+      page(
+        table(model).filter(r => matches(model, r, args.where)),
+        args
+      );
+    const one = (args: Row = {}) => {
+      const row = find(args)[0];
+      return row ? project(model, row, args) : null;
+    };
+    const orThrow = (args: Row) => {
+      const row = one(args);
+      if (!row) throw new Error(`fakePrisma: no ${model} found`);
+      return row;
+    };
+
+    return {
+      findMany: async (args: Row = {}) =>
+        find(args).map(r => project(model, r, args)),
+      findFirst: async (args: Row = {}) => one(args),
+      findUnique: async (args: Row) => one(args),
+      findFirstOrThrow: async (args: Row) => orThrow(args),
+      findUniqueOrThrow: async (args: Row) => orThrow(args),
+      count: async (args: Row = {}) => find(args).length,
+      create: async (args: Row) =>
+        project(model, insert(model, args.data)!, args),
+      createMany: async (args: Row) => {
+        const data = Array.isArray(args.data) ? args.data : [args.data];
+        const made = data.filter(d => insert(model, d, args.skipDuplicates));
+        return { count: made.length };
+      },
+      update: async (args: Row) => {
+        const row = find({ where: args.where })[0];
+        if (!row) throw new Error(`fakePrisma: no ${model} to update`);
+        applyData(row, { updatedAt: new Date(), ...args.data });
+        return project(model, row, args);
+      },
+      updateMany: async (args: Row) => {
+        const rows = find({ where: args.where });
+        for (const row of rows) {
+          applyData(row, { updatedAt: new Date(), ...args.data });
+        }
+        return { count: rows.length };
+      },
+      upsert: async (args: Row) => {
+        const row = find({ where: args.where })[0];
+        if (row) {
+          applyData(row, { updatedAt: new Date(), ...args.update });
+          return project(model, row, args);
+        }
+        return project(model, insert(model, args.create)!, args);
+      },
+      delete: async (args: Row) => {
+        const row = find({ where: args.where })[0];
+        if (!row) throw new Error(`fakePrisma: no ${model} to delete`);
+        tables.set(
+          model,
+          table(model).filter(r => r !== row)
+        );
+        return project(model, row, args);
+      },
+      deleteMany: async (args: Row = {}) => {
+        const gone = new Set(find({ where: args.where }));
+        tables.set(
+          model,
+          table(model).filter(r => !gone.has(r))
+        );
+        return { count: gone.size };
+      }
+    };
+  }
+
+  return {
+    /** Swap the models into the shared client (call in beforeEach) */
+    install() {
+      tables.clear();
+      const client = prisma as any;
+      for (const model of Object.keys(schema)) client[model] = delegate(model);
+      // interactive and batch transactions both run against the fake
+      client.$transaction = async (arg: any) =>
+        typeof arg === 'function' ? arg(client) : Promise.all(arg);
+    },
+    /** The live rows of a model (mutate to set up or age data) */
+    rows(model: string) {
+      return table(model);
+    },
+    seed(model: string, data: Row) {
+      return insert(model, data)!;
+    }
+  };
+}
@@ -0,0 +1,139 @@
+import './helpers/env';
+import { beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Request, Response } from 'express';
+import { createFakePrisma } from './helpers/fakePrisma';
+import type { SessionPayload } from '../src/utils/sessionCookie';
+import {
+  recordEndedImpersonations,
+  stopImpersonation
+} from '../src/services/impersonationService';
+import { listActiveSessions } from '../src/services/sessionService';
+import sessionRoutes from '../src/routes/sessionRoutes';
+
+const db = createFakePrisma({
+  session: {
+    defaults: () => ({
+      impersonatorId: null,
+      revokedAt: null,
+      endRecordedAt: null
+    })
+  },
+  auditLog: {}
+});
+
+const MINUTE = 60 * 1000;
+const NOW = new Date('2026-03-01T12:00:00.000Z');
+
+function impersonation(id: string, fields: Record<string, unknown> = {}) {
+  db.seed('session', {
+    id,
+    userId: 'target',
+    impersonatorId: 'admin',
+    expiresAt: new Date(NOW.getTime() + 30 * MINUTE),
+    ...fields
+  });
+}
+
+const stops = () =>
+  db.rows('auditLog').filter(a => a.action === 'impersonation.stop');
+
+describe('impersonation stop audit', () => {
+  beforeEach(() => db.install());
+
+  test('records sessions that ran out or were revoked, once each', async () => {
+    impersonation('expired', { expiresAt: NOW });
+    impersonation('revoked', { revokedAt: new Date(NOW.getTime() - MINUTE) });
+    impersonation('live');
+    db.seed('session', {
+      id: 'own',
+      userId: 'target',
+      expiresAt: NOW,
+      revokedAt: NOW
+    });
+
+    assert.deepEqual(await recordEndedImpersonations(NOW), { recorded: 2 });
+    assert.deepEqual(
+      stops().map(a => [a.actorId, a.targetUserId, a.metadata]),
+      [
+        ['admin', 'target', { sessionId: 'expired', reason: 'expired' }],
+        ['admin', 'target', { sessionId: 'revoked', reason: 'revoked' }]
+      ]
+    );
+
+    assert.deepEqual(await recordEndedImpersonations(NOW), { recorded: 0 });
+    assert.equal(stops().length, 2);
+  });
+
+  test('an explicit stop is recorded once and not again by the sweep', async () => {
+    impersonation('imp1');
+    const res = { clearCookie: () => res };
+
+    await stopImpersonation(
+      { ip: '203.0.113.7' } as Request,
+      res as unknown as Response,
+      { uid: 'target', sid: 'imp1', imp: 'admin' } as SessionPayload
+    );
+
+    assert.ok(db.rows('session')[0].revokedAt);
+    assert.equal(stops().length, 1);
+    assert.deepEqual(stops()[0].metadata, {
+      sessionId: 'imp1',
+      reason: 'stopped'
+    });
+    assert.deepEqual(await recordEndedImpersonations(NOW), { recorded: 0 });
+  });
+});
+
+describe("impersonation and the target's sessions", () => {
+  beforeEach(() => db.install());
+
+  test("the impersonation session isn't listed as one of the user's own", async () => {
+    impersonation('imp1', { expiresAt: new Date(Date.now() + 30 * MINUTE) });
+    db.seed('session', {
+      id: 'own',
+      userId: 'target',
+      expiresAt: new Date(Date.now() + 30 * MINUTE),
+      lastSeenAt: new Date()
+    });
+
+    const rows = await listActiveSessions('target');
+    assert.deepEqual(
+      rows.map(r => r.id),
+      ['own']
+    );
+  });
+
+  test('refreshing while impersonating stops the impersonation', async () => {
+    impersonation('imp1', { expiresAt: new Date(Date.now() + 30 * MINUTE) });
+
+    const layer = (sessionRoutes as any).stack.find(
+      (l: any) => l.route?.path === '/session/refresh'
+    );
+    const res: any = {
+      statusCode: 200,
+      status(code: number) {
+        res.statusCode = code;
+        return res;
+      },
+      json: () => res,
+      clearCookie: () => res,
+      cookie: () => res
+    };
+    await layer.route.stack[0].handle(
+      {
+        ip: '203.0.113.7',
+        cookies: {},
+        signedCookies: {},
+        user: { uid: 'target', sid: 'imp1', imp: 'admin' }
+      },
+      res
+    );
+
+    assert.ok(db.rows('session')[0].revokedAt);
+    assert.deepEqual(
+      stops().map(a => a.metadata),
+      [{ sessionId: 'imp1', reason: 'stopped' }]
+    );
+  });
+});
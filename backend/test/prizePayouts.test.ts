@@ -0,0 +1,366 @@
+import './helpers/env';
+import { beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createFakePrisma } from './helpers/fakePrisma';
+import { announceResults } from '../src/services/challengeAwardService';
+import {
+  createFakePayoutProvider,
+  type FakePayoutProvider
+} from '../src/services/payoutProviders';
+import {
+  fundChallengePayouts,
+  runPayoutSync,
+  sendPrizePayout,
+  startPayoutOnboarding
+} from '../src/services/prizePayoutService';
+
+const db = createFakePrisma({
+  user: {},
+  challenge: {
+    relations: {
+      user: { model: 'user', from: 'userId', to: 'id' },
+      prizes: {
+        model: 'challengePrize',
+        from: 'id',
+        to: 'challengeId',
+        many: true
+      }
+    }
+  },
+  challengePrize: {
+    unique: ['awardedSubmissionId'],
+    relations: {
+      awardedSubmission: {
+        model: 'challengeSubmission',
+        from: 'awardedSubmissionId',
+        to: 'id'
+      }
+    }
+  },
+  challengeSubmission: {},
+  submissionStatusEvent: {},
+  payoutAccount: { unique: ['userId', 'providerAccountId'] },
+  prizePayout: {
+    unique: ['prizeId', 'providerRef'],
+    relations: {
+      funding: { model: 'prizeFunding', from: 'fundingId', to: 'id' }
+    },
+    defaults: () => ({
+      fundingId: null,
+      status: 'PENDING',
+      attempts: 0,
+      provider: null,
+      providerRef: null,
+      failureReason: null,
+      paidAt: null
+    })
+  },
+  prizeFunding: {
+    unique: ['providerRef'],
+    defaults: () => ({ status: 'OPEN', sourceRef: null, paidAt: null })
+  }
+});
+
+const MINUTE = 60 * 1000;
+
+let provider: FakePayoutProvider;
+let keys: string[];
+
+beforeEach(() => {
+  db.install();
+  provider = createFakePayoutProvider();
+  keys = [];
+  const send = provider.sendPayout;
+  provider.sendPayout = input => {
+    keys.push(input.idempotencyKey);
+    return send(input);
+  };
+
+  db.seed('user', { id: 'owner', email: 'brand@example.com' });
+  db.seed('user', { id: 'winner', email: 'winner@example.com' });
+  db.seed('challenge', {
+    id: 'c1',
+    title: 'Spring launch',
+    userId: 'owner',
+    status: 'CLOSED',
+    resultsAnnouncedAt: null
+  });
+  db.seed('challengeSubmission', {
+    id: 's1',
+    challengeId: 'c1',
+    submitterId: 'winner',
+    status: 'APPROVED'
+  });
+  db.seed('challengeSubmission', {
+    id: 's2',
+    challengeId: 'c1',
+    submitterId: 'runner-up',
+    status: 'APPROVED'
+  });
+  db.seed('challengePrize', {
+    id: 'p1',
+    challengeId: 'c1',
+    rank: 1,
+    label: 'Grand prize',
+    amountCents: 50000,
+    awardedSubmissionId: 's1'
+  });
+  // no amount: a winner, but nothing to pay
+  db.seed('challengePrize', {
+    id: 'p2',
+    challengeId: 'c1',
+    rank: 2,
+    label: 'Shout-out',
+    amountCents: null,
+    awardedSubmissionId: 's2'
+  });
+});
+
+/** Announce and return the single payout it opened */
+async function announce() {
+  await announceResults('owner', 'c1');
+  const [payout] = db.rows('prizePayout');
+  return payout;
+}
+
+/** Announce, and the owner pays the prize money in */
+async function announceFunded() {
+  const payout = await announce();
+  const funding = await fundChallengePayouts('owner', 'c1', provider);
+  provider.payFunding(db.rows('prizeFunding')[0].providerRef);
+  return { payout, funding };
+}
+
+async function onboardWinner() {
+  await startPayoutOnboarding('winner', provider);
+}
+
+describe('announcing results', () => {
+  test('opens a PENDING payout per awarded prize with an amount', async () => {
+    await announceResults('owner', 'c1');
+
+    const payouts = db.rows('prizePayout');
+    assert.equal(payouts.length, 1);
+    assert.equal(payouts[0].prizeId, 'p1');
+    assert.equal(payouts[0].prizeRank, 1);
+    assert.equal(payouts[0].prizeLabel, 'Grand prize');
+    assert.equal(payouts[0].recipientId, 'winner');
+    assert.equal(payouts[0].submissionId, 's1');
+    assert.equal(payouts[0].amountCents, 50000);
+    assert.equal(payouts[0].status, 'PENDING');
+
+    const statuses = db.rows('challengeSubmission').map(s => s.status);
+    assert.deepEqual(statuses, ['WINNER', 'WINNER']);
+  });
+
+  test('can only happen once', async () => {
+    await announceResults('owner', 'c1');
+    await assert.rejects(announceResults('owner', 'c1'), /RESULTS_ANNOUNCED/);
+    assert.equal(db.rows('prizePayout').length, 1);
+  });
+});
+
+describe('sending a payout', () => {
+  test('is refused until the winner has onboarded', async () => {
+    const { payout } = await announceFunded();
+    await assert.rejects(
+      sendPrizePayout('owner', 'c1', payout.id, provider),
+      /RECIPIENT_NOT_ONBOARDED/
+    );
+    assert.equal(db.rows('prizePayout')[0].status, 'PENDING');
+  });
+
+  test('is only possible for the challenge owner', async () => {
+    const { payout } = await announceFunded();
+    await onboardWinner();
+    await assert.rejects(
+      sendPrizePayout('winner', 'c1', payout.id, provider),
+      /NOT_FOUND/
+    );
+  });
+
+  test('claims the payout so a double click sends once', async () => {
+    const { payout } = await announceFunded();
+    await onboardWinner();
+
+    const results = await Promise.allSettled([
+      sendPrizePayout('owner', 'c1', payout.id, provider),
+      sendPrizePayout('owner', 'c1', payout.id, provider)
+    ]);
+
+    const sent = results.filter(r => r.status === 'fulfilled');
+    const refused = results.filter(r => r.status === 'rejected');
+    assert.equal(sent.length, 1);
+    assert.equal(refused.length, 1);
+    assert.match(String(refused[0].reason), /ALREADY_SENT/);
+    assert.equal(keys.length, 1);
+
+    const row = db.rows('prizePayout')[0];
+    assert.equal(row.status, 'PROCESSING');
+    assert.equal(row.attempts, 1);
+    assert.ok(row.providerRef);
+    await assert.rejects(
+      sendPrizePayout('owner', 'c1', payout.id, provider),
+      /ALREADY_SENT/
+    );
+  });
+
+  test('marks a declined payout FAILED and resends it as a new attempt', async () => {
+    const { payout } = await announceFunded();
+    await onboardWinner();
+
+    provider.declineNextPayout('Insufficient platform balance');
+    const failed = await sendPrizePayout('owner', 'c1', payout.id, provider);
+    assert.equal(failed.status, 'FAILED');
+    assert.equal(failed.failureReason, 'Insufficient platform balance');
+    assert.equal(failed.attempts, 1);
+
+    const retried = await sendPrizePayout('owner', 'c1', payout.id, provider);
+    assert.equal(retried.status, 'PROCESSING');
+    assert.equal(retried.failureReason, null);
+    assert.equal(retried.attempts, 2);
+    assert.equal(keys.length, 2);
+    assert.notEqual(keys[0], keys[1]);
+  });
+});
+
+describe('funding payouts', () => {
+  test('an unfunded payout cannot be sent', async () => {
+    const payout = await announce();
+    await onboardWinner();
+
+    await assert.rejects(
+      sendPrizePayout('owner', 'c1', payout.id, provider),
+      /NOT_FUNDED/
+    );
+
+    // a checkout that was started but never paid doesn't count either
+    await fundChallengePayouts('owner', 'c1', provider);
+    await assert.rejects(
+      sendPrizePayout('owner', 'c1', payout.id, provider),
+      /NOT_FUNDED/
+    );
+
+    const row = db.rows('prizePayout')[0];
+    assert.equal(row.status, 'PENDING');
+    assert.equal(row.attempts, 0);
+    assert.equal(keys.length, 0);
+  });
+
+  test('sends from the paid-in money once the checkout is paid', async () => {
+    const payout = await announce();
+    await onboardWinner();
+
+    const funding = await fundChallengePayouts('owner', 'c1', provider);
+    assert.equal(funding.status, 'OPEN');
+    assert.equal(funding.amountCents, 50000);
+    assert.ok(funding.checkoutUrl);
+
+    provider.payFunding(db.rows('prizeFunding')[0].providerRef);
+    const sent = await sendPrizePayout('owner', 'c1', payout.id, provider);
+    assert.equal(sent.status, 'PROCESSING');
+    assert.equal(db.rows('prizeFunding')[0].status, 'PAID');
+  });
+
+  test('hands out the open checkout again instead of a second one', async () => {
+    await announce();
+    const first = await fundChallengePayouts('owner', 'c1', provider);
+    const again = await fundChallengePayouts('owner', 'c1', provider);
+    assert.equal(again.id, first.id);
+    assert.equal(db.rows('prizeFunding').length, 1);
+  });
+
+  test('starts a new checkout after the last one expired', async () => {
+    const payout = await announce();
+    const first = await fundChallengePayouts('owner', 'c1', provider);
+    provider.expireFunding(db.rows('prizeFunding')[0].providerRef);
+
+    const second = await fundChallengePayouts('owner', 'c1', provider);
+    assert.notEqual(second.id, first.id);
+    assert.equal(second.status, 'OPEN');
+    assert.equal(
+      db.rows('prizePayout').find(p => p.id === payout.id)?.fundingId,
+      second.id
+    );
+  });
+
+  test('refuses when everything is paid in, and for non-owners', async () => {
+    await announceFunded();
+    await assert.rejects(
+      fundChallengePayouts('owner', 'c1', provider),
+      /NOTHING_TO_FUND/
+    );
+    await assert.rejects(
+      fundChallengePayouts('winner', 'c1', provider),
+      /NOT_FOUND/
+    );
+  });
+});
+
+describe('payout sync', () => {
+  test('settles a PROCESSING payout once the provider has paid it', async () => {
+    const { payout } = await announceFunded();
+    await onboardWinner();
+    await sendPrizePayout('owner', 'c1', payout.id, provider);
+
+    const out = await runPayoutSync(new Date(), provider);
+    assert.deepEqual(out, { settled: 1, resumed: 0 });
+    const row = db.rows('prizePayout')[0];
+    assert.equal(row.status, 'PAID');
+    assert.ok(row.paidAt);
+  });
+
+  test('resumes an interrupted send with the same idempotency key', async t => {
+    t.mock.method(console, 'error', () => {});
+    const { payout } = await announceFunded();
+    await onboardWinner();
+
+    // the transfer went through, but the answer never arrived
+    provider.interruptNextPayout('socket hang up', { delivered: true });
+    const sent = await sendPrizePayout('owner', 'c1', payout.id, provider);
+    assert.equal(sent.status, 'PROCESSING');
+    let row = db.rows('prizePayout')[0];
+    assert.equal(row.providerRef, null);
+
+    // too early: it may still be in flight
+    assert.deepEqual(await runPayoutSync(new Date(), provider), {
+      settled: 0,
+      resumed: 0
+    });
+
+    const later = new Date(Date.now() + 11 * MINUTE);
+    assert.deepEqual(await runPayoutSync(later, provider), {
+      settled: 0,
+      resumed: 1
+    });
+    assert.equal(keys.length, 2);
+    assert.equal(keys[1], keys[0]);
+    row = db.rows('prizePayout')[0];
+    assert.equal(row.status, 'PROCESSING');
+    assert.equal(row.attempts, 1);
+    assert.ok(row.providerRef);
+
+    await runPayoutSync(later, provider);
+    assert.equal(db.rows('prizePayout')[0].status, 'PAID');
+  });
+
+  test('retries an unanswered send without failing it', async t => {
+    t.mock.method(console, 'error', () => {});
+    const { payout } = await announceFunded();
+    await onboardWinner();
+
+    provider.interruptNextPayout('ECONNRESET');
+    await sendPrizePayout('owner', 'c1', payout.id, provider);
+    await assert.rejects(
+      sendPrizePayout('owner', 'c1', payout.id, provider),
+      /ALREADY_SENT/
+    );
+
+    const later = new Date(Date.now() + 11 * MINUTE);
+    await runPayoutSync(later, provider);
+    const row = db.rows('prizePayout')[0];
+    assert.equal(row.status, 'PROCESSING');
+    assert.ok(row.providerRef);
+    assert.deepEqual(keys, [keys[0], keys[0]]);
+  });
+});
@@ -0,0 +1,79 @@
+import './helpers/env';
+import { beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Request, Response } from 'express';
+import { createFakePrisma } from './helpers/fakePrisma';
+import { updateProfile } from '../src/controllers/profileController';
+
+const db = createFakePrisma({
+  user: {
+    unique: ['username', 'usernameKey'],
+    defaults: () => ({ usernameKey: null, role: 'USER' }),
+    relations: {
+      industries: {
+        model: 'userIndustry',
+        from: 'id',
+        to: 'userId',
+        many: true
+      }
+    }
+  },
+  userIndustry: {},
+  usernameHistory: { defaults: () => ({ usernameKey: null }) }
+});
+
+function fakeRes() {
+  const res = {
+    statusCode: 200,
+    body: undefined as any,
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    json(body: unknown) {
+      res.body = body;
+      return res;
+    }
+  };
+  return res;
+}
+
+async function patch(body: Record<string, unknown>) {
+  const res = fakeRes();
+  await updateProfile(
+    { user: { uid: 'u1' }, body } as unknown as Request,
+    res as unknown as Response
+  );
+  return res;
+}
+
+describe('PATCH /profile username policy', () => {
+  beforeEach(() => {
+    db.install();
+    // claimed before "admin" was reserved
+    db.seed('user', {
+      id: 'u1',
+      username: 'admin',
+      usernameKey: 'admin',
+      displayName: 'Old timer'
+    });
+  });
+
+  test('an unchanged reserved username can be resent with other edits', async () => {
+    const res = await patch({ username: 'admin', displayName: 'Still here' });
+
+    assert.equal(res.statusCode, 200);
+    assert.equal(res.body.data.username, 'admin');
+    assert.equal(db.rows('user')[0].displayName, 'Still here');
+  });
+
+  test('a new username must pass the policy', async () => {
+    const res = await patch({ username: '4dm1n' });
+
+    assert.equal(res.statusCode, 400);
+    assert.deepEqual(res.body.errors.username._errors, [
+      'This username is reserved'
+    ]);
+    assert.equal(db.rows('user')[0].username, 'admin');
+  });
+});
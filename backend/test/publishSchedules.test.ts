@@ -0,0 +1,117 @@
+import './helpers/env';
+import { beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Request, Response } from 'express';
+import { createFakePrisma } from './helpers/fakePrisma';
+import { requireAnyScope } from '../src/middlewares/session';
+import { runPublishSchedules } from '../src/services/publishScheduleService';
+
+function run(user: unknown) {
+  const res = {
+    statusCode: 200,
+    body: undefined as any,
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    json(body: unknown) {
+      res.body = body;
+      return res;
+    }
+  };
+  let passed = false;
+  requireAnyScope('cards:read', 'portfolios:read', 'challenges:read')(
+    { user } as Request,
+    res as unknown as Response,
+    () => {
+      passed = true;
+    }
+  );
+  return { passed, res };
+}
+
+describe('GET /me/publish-schedules scope check', () => {
+  test('cookie sessions pass', () => {
+    assert.ok(run({ uid: 'u1', authType: 'session' }).passed);
+  });
+
+  test('tokens with any one read scope pass', () => {
+    assert.ok(
+      run({ uid: 'u1', authType: 'pat', scopes: ['portfolios:read'] }).passed
+    );
+  });
+
+  test('tokens without a read scope are refused', () => {
+    const { passed, res } = run({
+      uid: 'u1',
+      authType: 'pat',
+      scopes: ['cards:write']
+    });
+    assert.equal(passed, false);
+    assert.equal(res.statusCode, 403);
+    assert.equal(res.body.errors.code, 'INSUFFICIENT_SCOPE');
+  });
+
+  test('anonymous requests are refused', () => {
+    assert.equal(run(undefined).res.statusCode, 401);
+  });
+});
+
+describe('runPublishSchedules', () => {
+  const db = createFakePrisma({
+    user: {},
+    digitalNameCard: {
+      relations: { user: { model: 'user', from: 'userId', to: 'id' } }
+    },
+    portfolio: {
+      relations: { user: { model: 'user', from: 'userId', to: 'id' } }
+    },
+    challenge: {
+      relations: { user: { model: 'user', from: 'userId', to: 'id' } }
+    }
+  });
+
+  const NOW = new Date('2026-03-01T12:00:00.000Z');
+  const due = new Date(NOW.getTime() - 60_000);
+
+  beforeEach(() => {
+    db.install();
+    db.seed('user', { id: 'ok', deactivatedAt: null, bannedAt: null });
+    db.seed('user', { id: 'gone', deactivatedAt: NOW, bannedAt: null });
+    db.seed('user', { id: 'banned', deactivatedAt: null, bannedAt: NOW });
+    for (const userId of ['ok', 'gone', 'banned']) {
+      db.seed('digitalNameCard', {
+        id: `card-${userId}`,
+        userId,
+        publishStatus: 'DRAFT',
+        publishedAt: null,
+        publishAt: due,
+        unpublishAt: null
+      });
+    }
+    db.seed('challenge', {
+      id: 'detached',
+      userId: null,
+      publishStatus: 'PRIVATE',
+      publishedAt: null,
+      publishAt: due,
+      unpublishAt: null
+    });
+  });
+
+  test('publishes only for owners in good standing', async () => {
+    const out = await runPublishSchedules(NOW);
+
+    assert.equal(out.CARD.published, 1);
+    assert.equal(out.CHALLENGE.published, 0);
+    const status = Object.fromEntries(
+      db.rows('digitalNameCard').map(c => [c.id, c.publishStatus])
+    );
+    assert.deepEqual(status, {
+      'card-ok': 'PUBLISHED',
+      'card-gone': 'DRAFT',
+      'card-banned': 'DRAFT'
+    });
+    assert.equal(db.rows('challenge')[0].publishStatus, 'PRIVATE');
+  });
+});
@@ -0,0 +1,55 @@
+import './helpers/env';
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import sharp from 'sharp';
+import { renderQr } from '../src/services/qrService';
+import { qrQuerySchema } from '../src/schemas/qr';
+
+const TARGET = {
+  id: 'card1',
+  slug: 'ada',
+  url: 'https://example.com/c/ada?src=qr',
+  logoKey: 'avatars/ada.png'
+};
+
+const red = () =>
+  sharp({
+    create: { width: 40, height: 40, channels: 3, background: '#ff0000' }
+  })
+    .png()
+    .toBuffer();
+
+async function centrePixel(png: Buffer) {
+  const { data, info } = await sharp(png)
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const mid = Math.floor(info.width / 2);
+  const at = (mid * info.width + mid) * info.channels;
+  return { width: info.width, rgb: [...data.subarray(at, at + 3)] };
+}
+
+describe('renderQr as PNG', () => {
+  const q = qrQuerySchema.parse({ format: 'png', size: '256', logo: '1' });
+
+  test('composites the logo into the centre', async () => {
+    const bytes = await red();
+    const img = await renderQr(TARGET, q, async () => ({
+      bytes,
+      contentType: 'image/png'
+    }));
+
+    assert.equal(img.contentType, 'image/png');
+    const { width, rgb } = await centrePixel(img.body as Buffer);
+    assert.equal(width, 256);
+    assert.deepEqual(rgb, [255, 0, 0]);
+  });
+
+  test('falls back to the plain code when the logo is unreadable', async () => {
+    const img = await renderQr(TARGET, q, async () => ({
+      bytes: Buffer.from('not an image'),
+      contentType: 'image/png'
+    }));
+    const plain = await renderQr(TARGET, q, async () => null);
+    assert.deepEqual(img.body, plain.body);
+  });
+});
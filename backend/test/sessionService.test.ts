@@ -0,0 +1,87 @@
+import './helpers/env';
+import { beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createFakePrisma } from './helpers/fakePrisma';
+import { hashToken, rotateRefreshToken } from '../src/services/sessionService';
+
+const db = createFakePrisma({
+  user: {},
+  session: {
+    relations: { user: { model: 'user', from: 'userId', to: 'id' } }
+  },
+  refreshToken: {
+    unique: ['tokenHash'],
+    relations: { session: { model: 'session', from: 'sessionId', to: 'id' } },
+    defaults: () => ({ revokedAt: null, replacedById: null })
+  }
+});
+
+const HOUR = 60 * 60 * 1000;
+
+beforeEach(() => {
+  db.install();
+  db.seed('user', { id: 'u1', bannedAt: null });
+  db.seed('session', {
+    id: 'sess1',
+    userId: 'u1',
+    revokedAt: null,
+    expiresAt: new Date(Date.now() + HOUR),
+    lastSeenAt: new Date()
+  });
+  db.seed('refreshToken', {
+    id: 'rt1',
+    sessionId: 'sess1',
+    tokenHash: hashToken('first'),
+    expiresAt: new Date(Date.now() + HOUR)
+  });
+});
+
+const session = () => db.rows('session')[0];
+
+describe('rotateRefreshToken', () => {
+  test('swaps the token for a new one', async () => {
+    const out = await rotateRefreshToken('first');
+    assert.ok(out?.token);
+    assert.equal(out.sessionId, 'sess1');
+
+    const old = db.rows('refreshToken').find(t => t.id === 'rt1')!;
+    assert.ok(old.revokedAt);
+    assert.ok(old.replacedById);
+  });
+
+  test('lets a parallel request that lost the race through without a new token', async () => {
+    const [a, b] = await Promise.all([
+      rotateRefreshToken('first'),
+      rotateRefreshToken('first')
+    ]);
+
+    const tokens = [a?.token, b?.token];
+    assert.equal(tokens.filter(Boolean).length, 1);
+    assert.equal(tokens.filter(t => t === null).length, 1);
+    assert.equal(session().revokedAt, null);
+    // the loser's spare token was dropped
+    assert.equal(db.rows('refreshToken').length, 2);
+  });
+
+  test('accepts the rotated token again within the grace window', async () => {
+    await rotateRefreshToken('first');
+    const again = await rotateRefreshToken('first');
+    assert.equal(again?.sessionId, 'sess1');
+    assert.equal(again?.token, null);
+    assert.equal(session().revokedAt, null);
+  });
+
+  test('treats an older rotated token as a leak and revokes the session', async () => {
+    await rotateRefreshToken('first');
+    db.rows('refreshToken')[0].revokedAt = new Date(Date.now() - 60 * 1000);
+
+    assert.equal(await rotateRefreshToken('first'), null);
+    assert.ok(session().revokedAt);
+  });
+
+  test('never lets a revoked session through, even within the grace window', async () => {
+    await rotateRefreshToken('first');
+    session().revokedAt = new Date();
+    assert.equal(await rotateRefreshToken('first'), null);
+  });
+});
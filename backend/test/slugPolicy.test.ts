@@ -0,0 +1,57 @@
+import './helpers/env';
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkHandle } from '../src/utils/slugPolicy';
+import { updateMyProfileSchema } from '../src/schemas/profile';
+
+const code = (value: string, kind: 'username' | 'slug' = 'username') =>
+  checkHandle(value, kind)?.code ?? null;
+
+describe('checkHandle', () => {
+  test('accepts ordinary handles', () => {
+    assert.equal(code('ada_lovelace'), null);
+    assert.equal(code('Ada-1815'), null);
+    assert.equal(code('spring-launch-2026', 'slug'), null);
+  });
+
+  test('reads leetspeak digits as letters for reserved names', () => {
+    assert.equal(code('admin'), 'HANDLE_RESERVED');
+    assert.equal(code('4dm1n'), 'HANDLE_RESERVED');
+    assert.equal(code('Adm1n'), 'HANDLE_RESERVED');
+  });
+
+  test('rejects non-ASCII lookalikes by format', () => {
+    // Cyrillic "а" and "і"
+    assert.equal(code('аdmin'), 'HANDLE_INVALID_FORMAT');
+    assert.equal(code('admіn'), 'HANDLE_INVALID_FORMAT');
+    assert.equal(code('adm!n'), 'HANDLE_INVALID_FORMAT');
+  });
+});
+
+describe('updateMyProfileSchema username', () => {
+  const parse = (username: unknown) =>
+    updateMyProfileSchema.safeParse({ username });
+
+  test('trims and keeps a valid username', () => {
+    const out = parse('  ada_lovelace ');
+    assert.ok(out.success);
+    assert.equal(out.data.username, 'ada_lovelace');
+  });
+
+  test('treats an empty username as not sent', () => {
+    const out = parse('');
+    assert.ok(out.success);
+    assert.equal(out.data.username, undefined);
+  });
+
+  test('checks the format only (the policy runs on a new handle)', () => {
+    assert.ok(parse('admin').success);
+
+    const short = parse('ab');
+    assert.ok(!short.success);
+    assert.equal(
+      short.error.issues[0].message,
+      'Use 3–30 letters, numbers, underscore or dash'
+    );
+  });
+});
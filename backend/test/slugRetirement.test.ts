@@ -0,0 +1,93 @@
+import './helpers/env';
+import { beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Request, Response } from 'express';
+import { createFakePrisma } from './helpers/fakePrisma';
+import { deleteCard } from '../src/controllers/digitalNameCardController';
+import { deletePortfolio } from '../src/controllers/portfolioController';
+import { deleteChallenge } from '../src/controllers/challengeController';
+import { isSlugRetiredByOther } from '../src/services/slugHistoryService';
+
+const db = createFakePrisma({
+  digitalNameCard: { unique: ['slug'] },
+  portfolio: { unique: ['slug'] },
+  challenge: { unique: ['slug'] },
+  socialAccount: {},
+  socialClick: {},
+  viewEvent: {},
+  viewDailyStat: {},
+  viewDailyBreakdown: {},
+  prizePayout: {},
+  slugHistory: { unique: [['entityType', 'slug']] }
+});
+
+async function remove(
+  handler: (req: Request, res: Response) => Promise<unknown>,
+  id: string
+) {
+  const res = {
+    statusCode: 200,
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    json() {
+      return res;
+    }
+  };
+  await handler(
+    { params: { id }, user: { uid: 'owner' } } as unknown as Request,
+    res as unknown as Response
+  );
+  return res.statusCode;
+}
+
+describe('deleting keeps the slug retired', () => {
+  beforeEach(() => {
+    db.install();
+    db.seed('digitalNameCard', { id: 'c1', userId: 'owner', slug: 'ada' });
+    db.seed('portfolio', { id: 'p1', userId: 'owner', slug: 'ada-work' });
+    db.seed('challenge', { id: 'ch1', userId: 'owner', slug: 'ada-cup' });
+  });
+
+  test('card', async () => {
+    assert.equal(await remove(deleteCard, 'c1'), 200);
+    assert.equal(db.rows('digitalNameCard').length, 0);
+    assert.equal(await isSlugRetiredByOther('CARD', 'ada', 'someone'), true);
+    assert.equal(await isSlugRetiredByOther('CARD', 'ada', 'owner'), false);
+  });
+
+  test('portfolio', async () => {
+    assert.equal(await remove(deletePortfolio, 'p1'), 200);
+    assert.equal(
+      await isSlugRetiredByOther('PORTFOLIO', 'ada-work', 'someone'),
+      true
+    );
+  });
+
+  test('challenge', async () => {
+    assert.equal(await remove(deleteChallenge, 'ch1'), 200);
+    assert.equal(
+      await isSlugRetiredByOther('CHALLENGE', 'ada-cup', 'someone'),
+      true
+    );
+  });
+
+  test('an earlier slug of the same card stays retired too', async () => {
+    db.seed('slugHistory', {
+      entityType: 'CARD',
+      entityId: 'c1',
+      ownerId: 'owner',
+      slug: 'lovelace',
+      retiredAt: new Date()
+    });
+    await remove(deleteCard, 'c1');
+    assert.deepEqual(
+      db
+        .rows('slugHistory')
+        .map(r => r.slug)
+        .sort(),
+      ['ada', 'lovelace']
+    );
+  });
+});
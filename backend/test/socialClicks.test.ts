@@ -0,0 +1,69 @@
+import './helpers/env';
+import { beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Request } from 'express';
+import { createFakePrisma } from './helpers/fakePrisma';
+import { recordSocialClick } from '../src/services/analyticsService';
+
+const db = createFakePrisma({
+  socialClick: { unique: [['socialId', 'visitorHash']] }
+});
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date('2026-03-01T12:00:00.000Z');
+const SOCIAL = {
+  socialId: 'soc1',
+  cardId: 'card1',
+  ownerId: 'owner',
+  platform: 'INSTAGRAM' as const
+};
+
+function visitor(ip: string, uid?: string) {
+  const headers: Record<string, string> = {
+    'user-agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/126.0'
+  };
+  return {
+    ip,
+    user: uid ? { uid } : undefined,
+    get: (h: string) => headers[h.toLowerCase()]
+  } as unknown as Request;
+}
+
+describe('recordSocialClick', () => {
+  beforeEach(() => db.install());
+
+  test('counts a visitor once per link per day', async () => {
+    const a = visitor('203.0.113.7');
+
+    assert.equal(await recordSocialClick(a, SOCIAL, NOW), true);
+    assert.equal(await recordSocialClick(a, SOCIAL, NOW), false);
+    assert.equal(
+      await recordSocialClick(a, SOCIAL, new Date(NOW.getTime() + 60_000)),
+      false
+    );
+    assert.equal(db.rows('socialClick').length, 1);
+
+    // another visitor, another link, another day
+    assert.equal(
+      await recordSocialClick(visitor('198.51.100.2'), SOCIAL, NOW),
+      true
+    );
+    assert.equal(
+      await recordSocialClick(a, { ...SOCIAL, socialId: 'soc2' }, NOW),
+      true
+    );
+    assert.equal(
+      await recordSocialClick(a, SOCIAL, new Date(NOW.getTime() + DAY)),
+      true
+    );
+    assert.equal(db.rows('socialClick').length, 4);
+  });
+
+  test("skips the owner's own clicks", async () => {
+    assert.equal(
+      await recordSocialClick(visitor('203.0.113.7', 'owner'), SOCIAL, NOW),
+      false
+    );
+    assert.equal(db.rows('socialClick').length, 0);
+  });
+});
@@ -0,0 +1,85 @@
+import './helpers/env';
+import { beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type Stripe from 'stripe';
+import { createFakePrisma } from './helpers/fakePrisma';
+import { recordAndProcessStripeEvent } from '../src/services/stripeWebhookService';
+
+const db = createFakePrisma({
+  user: { unique: ['stripeCustomerId'] },
+  subscription: {
+    unique: ['stripeSubId'],
+    defaults: () => ({ stripeStateAt: null })
+  },
+  stripeWebhookEvent: {
+    defaults: () => ({ processedAt: null, lastError: null })
+  }
+});
+
+const T0 = 1767225600;
+let seq = 0;
+
+function subscriptionEvent(
+  created: number,
+  status: Stripe.Subscription.Status,
+  type = 'customer.subscription.updated'
+) {
+  return {
+    id: `evt_${++seq}`,
+    type,
+    created,
+    livemode: false,
+    data: {
+      object: {
+        id: 'sub_1',
+        customer: 'cus_1',
+        status,
+        metadata: {},
+        items: {
+          data: [{ price: { id: 'price_x' }, current_period_end: T0 + 86400 }]
+        }
+      }
+    }
+  } as unknown as Stripe.Event;
+}
+
+const sub = () => db.rows('subscription')[0];
+
+describe('Stripe subscription events', () => {
+  beforeEach(() => {
+    db.install();
+    db.seed('user', { id: 'u1', stripeCustomerId: 'cus_1', plan: 'pro' });
+  });
+
+  test('applies events in order', async () => {
+    assert.equal(
+      await recordAndProcessStripeEvent(
+        subscriptionEvent(T0, 'active', 'customer.subscription.created')
+      ),
+      'processed'
+    );
+    assert.equal(
+      await recordAndProcessStripeEvent(subscriptionEvent(T0 + 60, 'past_due')),
+      'processed'
+    );
+    assert.equal(db.rows('subscription').length, 1);
+    assert.equal(sub().status, 'past_due');
+    assert.deepEqual(sub().stripeStateAt, new Date((T0 + 60) * 1000));
+  });
+
+  test('skips an event older than the stored state', async () => {
+    await recordAndProcessStripeEvent(subscriptionEvent(T0 + 60, 'canceled'));
+    assert.equal(db.rows('user')[0].plan, 'free');
+
+    const late = subscriptionEvent(T0, 'active');
+    assert.equal(await recordAndProcessStripeEvent(late), 'stale');
+    assert.equal(sub().status, 'canceled');
+    assert.equal(db.rows('user')[0].subscriptionStatus, 'canceled');
+    assert.equal(db.rows('user')[0].plan, 'free');
+
+    // acknowledged, so Stripe stops retrying it
+    const row = db.rows('stripeWebhookEvent').find(e => e.id === late.id);
+    assert.ok(row?.processedAt);
+    assert.equal(await recordAndProcessStripeEvent(late), 'duplicate');
+  });
+});
@@ -0,0 +1,125 @@
+import './helpers/env';
+import { beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Request, Response } from 'express';
+import { createFakePrisma } from './helpers/fakePrisma';
+import {
+  liftCardTakedown,
+  takeDownCard
+} from '../src/controllers/adminController';
+import {
+  resolveSchedule,
+  runPublishSchedules
+} from '../src/services/publishScheduleService';
+
+const db = createFakePrisma({
+  user: {},
+  digitalNameCard: {
+    relations: { user: { model: 'user', from: 'userId', to: 'id' } },
+    defaults: () => ({ takenDownAt: null, takenDownBy: null })
+  },
+  portfolio: {},
+  challenge: {}
+});
+
+function fakeRes() {
+  const res = {
+    statusCode: 200,
+    body: undefined as any,
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    json(body: unknown) {
+      res.body = body;
+      return res;
+    }
+  };
+  return res;
+}
+
+async function moderate(
+  handler: (req: Request, res: Response) => Promise<unknown>,
+  id: string
+) {
+  const res = fakeRes();
+  await handler(
+    { params: { id }, user: { uid: 'mod' } } as unknown as Request,
+    res as unknown as Response
+  );
+  return res;
+}
+
+type CardRow = {
+  publishStatus: string;
+  publishAt: Date | null;
+  unpublishAt: Date | null;
+  takenDownAt: Date | null;
+  takenDownBy: string | null;
+};
+const card = () => db.rows('digitalNameCard')[0] as CardRow;
+
+describe('content takedown', () => {
+  beforeEach(() => {
+    db.install();
+    db.seed('user', { id: 'owner', deactivatedAt: null, bannedAt: null });
+    db.seed('digitalNameCard', {
+      id: 'card1',
+      userId: 'owner',
+      publishStatus: 'PUBLISHED',
+      publishedAt: new Date('2026-01-01T00:00:00.000Z'),
+      publishAt: null,
+      unpublishAt: null
+    });
+  });
+
+  test('marks the card and keeps the owner from publishing it again', async () => {
+    const res = await moderate(takeDownCard, 'card1');
+    assert.equal(res.statusCode, 200);
+    assert.equal(card().publishStatus, 'PRIVATE');
+    assert.ok(card().takenDownAt);
+    assert.equal(card().takenDownBy, 'mod');
+
+    const byHand = resolveSchedule({ publishStatus: 'PUBLISHED' }, card());
+    assert.ok('violation' in byHand);
+    assert.equal(byHand.violation.field, 'publishStatus');
+
+    const later = resolveSchedule(
+      { publishAt: new Date(Date.now() + 60_000) },
+      card()
+    );
+    assert.ok('violation' in later);
+    assert.equal(later.violation.field, 'publishAt');
+
+    // other edits still go through
+    assert.ok('data' in resolveSchedule({ publishStatus: 'DRAFT' }, card()));
+  });
+
+  test('the scheduler leaves a taken-down card alone', async () => {
+    await moderate(takeDownCard, 'card1');
+    // e.g. a schedule written straight to the row
+    card().publishAt = new Date(Date.now() - 60_000);
+
+    const out = await runPublishSchedules(new Date());
+    assert.equal(out.CARD.published, 0);
+    assert.equal(card().publishStatus, 'PRIVATE');
+  });
+
+  test('only lifting it lets the owner publish again', async () => {
+    await moderate(takeDownCard, 'card1');
+    const res = await moderate(liftCardTakedown, 'card1');
+
+    assert.equal(res.statusCode, 200);
+    assert.equal(card().takenDownAt, null);
+    assert.equal(card().takenDownBy, null);
+    assert.equal(card().publishStatus, 'PRIVATE');
+    assert.ok(
+      'data' in resolveSchedule({ publishStatus: 'PUBLISHED' }, card())
+    );
+  });
+
+  test('answers 404 for an unknown card', async () => {
+    assert.equal((await moderate(takeDownCard, 'nope')).statusCode, 404);
+    assert.equal((await moderate(liftCardTakedown, 'nope')).statusCode, 404);
+  });
+});
@@ -0,0 +1,94 @@
+import './helpers/env';
+import { beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createFakePrisma } from './helpers/fakePrisma';
+import {
+  backfillUsernameKeys,
+  checkUsernameChange,
+  resolveFormerUsername,
+  usernameHistoryCreate
+} from '../src/services/usernameService';
+
+const db = createFakePrisma({
+  user: {
+    unique: ['usernameKey'],
+    defaults: () => ({ usernameKey: null, deactivatedAt: null })
+  },
+  usernameHistory: {
+    defaults: () => ({ usernameKey: null }),
+    relations: { user: { model: 'user', from: 'userId', to: 'id' } }
+  }
+});
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date('2026-03-01T12:00:00.000Z');
+
+function released(userId: string, previous: string) {
+  const { create } = usernameHistoryCreate(previous, NOW);
+  db.seed('usernameHistory', { userId, ...create });
+}
+
+describe('username changes ignore case', () => {
+  beforeEach(() => {
+    db.install();
+    db.seed('user', { id: 'ada', username: 'Ada', usernameKey: 'ada' });
+    db.seed('user', { id: 'bob', username: 'bob', usernameKey: 'bob' });
+  });
+
+  test("someone else's handle is taken in any casing", async () => {
+    for (const next of ['ada', 'ADA', 'aDa']) {
+      const denial = await checkUsernameChange('bob', 'bob', next, NOW);
+      assert.equal(denial?.code, 'USERNAME_TAKEN', next);
+    }
+  });
+
+  test('a released handle is held in any casing', async () => {
+    released('ada', 'Grace');
+
+    const denial = await checkUsernameChange('bob', 'bob', 'GRACE', NOW);
+    assert.equal(denial?.code, 'USERNAME_HELD');
+    assert.equal(
+      denial?.retryAt,
+      new Date(NOW.getTime() + 90 * DAY).toISOString()
+    );
+
+    // the previous owner may take it back
+    assert.equal(await checkUsernameChange('ada', 'Ada', 'grace', NOW), null);
+  });
+
+  test('a former handle redirects in any casing', async () => {
+    released('ada', 'Grace');
+    assert.deepEqual(await resolveFormerUsername('gRACE'), {
+      userId: 'ada',
+      username: 'Ada'
+    });
+    // a current handle never redirects
+    assert.equal(await resolveFormerUsername('BOB'), null);
+  });
+
+  test('rows from before usernameKey still match and get backfilled', async () => {
+    db.seed('user', { id: 'old', username: 'Legacy' });
+    db.seed('usernameHistory', {
+      userId: 'old',
+      username: 'Relic',
+      changedAt: NOW,
+      heldUntil: new Date(NOW.getTime() + DAY)
+    });
+
+    assert.equal(
+      (await checkUsernameChange('bob', 'bob', 'Legacy', NOW))?.code,
+      'USERNAME_TAKEN'
+    );
+
+    assert.deepEqual(await backfillUsernameKeys(), { filled: 2 });
+    assert.equal(
+      db.rows('user').find(u => u.id === 'old')?.usernameKey,
+      'legacy'
+    );
+    assert.equal(
+      (await checkUsernameChange('bob', 'bob', 'RELIC', NOW))?.code,
+      'USERNAME_HELD'
+    );
+    assert.deepEqual(await backfillUsernameKeys(), { filled: 0 });
+  });
+});